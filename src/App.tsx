@@ -3,22 +3,31 @@ import { AnimatePresence, motion } from 'framer-motion';
 import { Suspense, lazy } from 'react';
 import Navbar from './components/Navbar';
 import LoadingSpinner from './components/LoadingSpinner';
-import { AuthProvider, ProtectedRoute, AuthPage } from './pages/[auth]/Auth';
+import ResponseDiagnostics from './components/ResponseDiagnostics';
+import { AuthProvider, ProtectedRoute, RequirePermission, AuthPage, SECURITY_PATH } from './pages/[auth]/Auth';
 import { ThemeProvider } from './components/ThemeProvider';
+import { ADMIN_ROUTE_PERMISSIONS } from './lib/permissions';
 
 const Servers = lazy(() => import('./pages/Servers'));
 const NotFound = lazy(() => import('./pages/NotFound'));
 const AdminPage = lazy(() => import('./pages/AdminPage'));
+const AccountSecurity = lazy(() => import('./pages/AccountSecurity'));
 
 // Admin endpoints
 const AdminNodes = lazy(() => import('./pages/[admin]/Nodes'));
 const AdminServers = lazy(() => import('./pages/[admin]/Servers'));
 const AdminUnits = lazy(() => import('./pages/[admin]/Units'));
 const AdminUsers = lazy(() => import('./pages/[admin]/Users'));
+const AdminConsoles = lazy(() => import('./pages/[admin]/Consoles'));
 
 // Servers
 const ServerConsole = lazy(() => import('./pages/[server]/Console'));
 const ServerFiles = lazy(() => import('./pages/[server]/Files'))
+const ServerStartup = lazy(() => import('./pages/[server]/Startup'));
+const ServerSettings = lazy(() => import('./pages/[server]/Settings'));
+const ServerBackups = lazy(() => import('./pages/[server]/Backups'));
+const ServerSchedules = lazy(() => import('./pages/[server]/Schedules'));
+const ServerUsers = lazy(() => import('./pages/[server]/Users'));
 
 {/*
 
@@ -43,7 +52,7 @@ function App() {
   const location = useLocation();
 
   const noSidebarRoutes = ['/login', '/register', '/404'];
-  const shouldHaveSidebar = !noSidebarRoutes.includes(location.pathname);
+  const shouldHaveSidebar = !noSidebarRoutes.includes(location.pathname) && !location.pathname.endsWith('/console/popout');
 
   const pageVariants = {
     initial: {
@@ -101,20 +110,65 @@ function App() {
                     }
                   />
                   <Route
-                    path="/admin"
+                    path={SECURITY_PATH}
                     element={
                       <ProtectedRoute>
-                        <AdminPage />
+                        <AccountSecurity />
                       </ProtectedRoute>
                     }
                   />
                   <Route path="/" element={<Navigate to="/servers" />} />
                   <Route path="*" element={<NotFound />} />
 
-                  <Route path="/admin/nodes" element={<AdminNodes />} />
-                  <Route path="/admin/servers" element={<AdminServers />} />
-                  <Route path="/admin/units" element={<AdminUnits />} />
-                  <Route path="/admin/users" element={<AdminUsers />} />
+                  {/* Admin routes */}
+                  <Route
+                    path="/admin"
+                    element={
+                      <RequirePermission permission={ADMIN_ROUTE_PERMISSIONS['/admin']}>
+                        <AdminPage />
+                      </RequirePermission>
+                    }
+                  />
+                  <Route
+                    path="/admin/nodes"
+                    element={
+                      <RequirePermission permission={ADMIN_ROUTE_PERMISSIONS['/admin/nodes']}>
+                        <AdminNodes />
+                      </RequirePermission>
+                    }
+                  />
+                  <Route
+                    path="/admin/servers"
+                    element={
+                      <RequirePermission permission={ADMIN_ROUTE_PERMISSIONS['/admin/servers']}>
+                        <AdminServers />
+                      </RequirePermission>
+                    }
+                  />
+                  <Route
+                    path="/admin/units"
+                    element={
+                      <RequirePermission permission={ADMIN_ROUTE_PERMISSIONS['/admin/units']}>
+                        <AdminUnits />
+                      </RequirePermission>
+                    }
+                  />
+                  <Route
+                    path="/admin/users"
+                    element={
+                      <RequirePermission permission={ADMIN_ROUTE_PERMISSIONS['/admin/users']}>
+                        <AdminUsers />
+                      </RequirePermission>
+                    }
+                  />
+                  <Route
+                    path="/admin/consoles"
+                    element={
+                      <RequirePermission permission={ADMIN_ROUTE_PERMISSIONS['/admin/consoles']}>
+                        <AdminConsoles />
+                      </RequirePermission>
+                    }
+                  />
 
                   {/* Server routes */}
                   <Route
@@ -125,6 +179,14 @@ function App() {
                       </ProtectedRoute>
                     }
                   />
+                  <Route
+                    path="/servers/:id/console/popout"
+                    element={
+                      <ProtectedRoute>
+                        <ServerConsole popout />
+                      </ProtectedRoute>
+                    }
+                  />
                   <Route
                     path="/servers/:id/files"
                     element={
@@ -133,11 +195,52 @@ function App() {
                       </ProtectedRoute>
                     }
                   />
+                  <Route
+                    path="/servers/:id/startup"
+                    element={
+                      <ProtectedRoute>
+                        <ServerStartup />
+                      </ProtectedRoute>
+                    }
+                  />
+                  <Route
+                    path="/servers/:id/settings"
+                    element={
+                      <ProtectedRoute>
+                        <ServerSettings />
+                      </ProtectedRoute>
+                    }
+                  />
+                  <Route
+                    path="/servers/:id/backups"
+                    element={
+                      <ProtectedRoute>
+                        <ServerBackups />
+                      </ProtectedRoute>
+                    }
+                  />
+                  <Route
+                    path="/servers/:id/schedules"
+                    element={
+                      <ProtectedRoute>
+                        <ServerSchedules />
+                      </ProtectedRoute>
+                    }
+                  />
+                  <Route
+                    path="/servers/:id/users"
+                    element={
+                      <ProtectedRoute>
+                        <ServerUsers />
+                      </ProtectedRoute>
+                    }
+                  />
                 </Routes>
               </motion.div>
             </AnimatePresence>
           </Suspense>
         </div>
+        <ResponseDiagnostics />
       </div>
       </ThemeProvider>
     </AuthProvider>
@@ -1,16 +1,20 @@
 import { Link, useLocation } from 'react-router-dom';
-import { ServerIcon, HardDriveIcon, BoxIcon, LayoutDashboardIcon } from 'lucide-react';
+import { ServerIcon, HardDriveIcon, BoxIcon, LayoutDashboardIcon, TerminalIcon } from 'lucide-react';
+import { useAuth } from '../pages/[auth]/Auth';
+import { hasPermission, ADMIN_ROUTE_PERMISSIONS } from '../lib/permissions';
 
 const AdminBar = () => {
   const location = useLocation();
+  const { user } = useAuth();
   const currentPath = location.pathname;
 
   const tabs = [
     { name: 'Overview', path: '/admin', icon: LayoutDashboardIcon },
     { name: 'Servers', path: '/admin/servers', icon: ServerIcon },
     { name: 'Nodes', path: '/admin/nodes', icon: HardDriveIcon },
-    { name: 'Units', path: '/admin/units', icon: BoxIcon }
-  ];
+    { name: 'Units', path: '/admin/units', icon: BoxIcon },
+    { name: 'Consoles', path: '/admin/consoles', icon: TerminalIcon }
+  ].filter(tab => user && hasPermission(user.permissions, ADMIN_ROUTE_PERMISSIONS[tab.path]));
 
   return (
     <div className="w-full h-14 border-b border-gray-200 dark:border-gray-700 p-3 bg-gray-50/50 dark:bg-gray-900/50">
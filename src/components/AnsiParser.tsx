@@ -1,4 +1,7 @@
-import React from 'react';
+import React, { useMemo } from 'react';
+import { parseAnsi, paletteToRgb, AnsiColor, AnsiState } from '../lib/ansi';
+import { findMatchRanges } from '../lib/consoleSearch';
+import { translateMinecraftCodes } from '../lib/minecraft';
 
 const ANSI_COLORS: Record<string, Record<number, string>> = {
     light: {
@@ -43,12 +46,19 @@ const ANSI_COLORS: Record<string, Record<number, string>> = {
 
 interface AnsiParserProps {
     text: string;
+    // Search matches to mark on top of the ANSI styling
+    highlight?: RegExp | null;
+    // Whether this line holds the currently selected search match
+    active?: boolean;
+    // Translate Minecraft `§a`/`&a` formatting codes, enabled per unit
+    minecraftColorCodes?: boolean;
 }
 
 interface SpanStyle {
     fontWeight?: 'bold';
     fontStyle?: 'italic';
-    textDecoration?: 'underline';
+    textDecoration?: string;
+    opacity?: number;
     color?: string;
     backgroundColor?: string;
 }
@@ -56,115 +66,162 @@ interface SpanStyle {
 interface Span {
     text: string;
     style: SpanStyle;
+    highlighted?: boolean;
+    href?: string;
 }
 
-const AnsiParser: React.FC<AnsiParserProps> = ({ text }) => {
-    const parseAnsi = (input: string): Span[] => {
-        const result: Span[] = [];
-        let currentSpan: Span = { text: '', style: {} };
-        let position = 0;
-
-        while (position < input.length) {
-            if (input[position] === '\u001b' && input[position + 1] === '[') {
-                // If we have accumulated any text, push it
-                if (currentSpan.text) {
-                    result.push({ ...currentSpan });
-                    currentSpan = { text: '', style: { ...currentSpan.style } };
-                }
-
-                position += 2; // Skip the escape sequence start
-                let code = '';
-                
-                // Collect all numbers until 'm'
-                while (position < input.length && input[position] !== 'm') {
-                    code += input[position];
-                    position++;
-                }
-                position++; // Skip the 'm'
-
-                // Process the code
-                const codes = code.split(';').map(Number);
-                for (let i = 0; i < codes.length; i++) {
-                    const code = codes[i];
-                    
-                    if (code === 0) {
-                        // Reset
-                        currentSpan.style = {};
-                    } else if (code === 1) {
-                        // Bold
-                        currentSpan.style.fontWeight = 'bold';
-                    } else if (code === 3) {
-                        // Italic
-                        currentSpan.style.fontStyle = 'italic';
-                    } else if (code === 4) {
-                        // Underline
-                        currentSpan.style.textDecoration = 'underline';
-                    } else if (code >= 30 && code <= 37) {
-                        // Foreground color - support both modes
-                        currentSpan.style.color = `var(--ansi-${code - 30})`;
-                    } else if (code >= 90 && code <= 97) {
-                        // Bright foreground color
-                        currentSpan.style.color = `var(--ansi-${code - 82})`;
-                    } else if (code >= 40 && code <= 47) {
-                        // Background color
-                        currentSpan.style.backgroundColor = `var(--ansi-bg-${code - 40})`;
-                    } else if (code >= 100 && code <= 107) {
-                        // Bright background color
-                        currentSpan.style.backgroundColor = `var(--ansi-bg-${code - 92})`;
-                    }
-                }
+// Only http(s) links are made clickable. Trailing punctuation is left out so
+// a URL at the end of a sentence still works.
+const URL_PATTERN = /https?:\/\/[^\s<>"'`]*[^\s<>"'`.,;:!?)\]}]/g;
+
+// Used when inverse video swaps in a default color
+const DEFAULT_FOREGROUND = '#e5e7eb';
+const DEFAULT_BACKGROUND = '#111827';
+
+const colorToCss = (color: AnsiColor, background = false) => {
+    if (color.type === 'rgb') return `rgb(${color.r}, ${color.g}, ${color.b})`;
+
+    const rgb = paletteToRgb(color.index);
+    if (rgb) return `rgb(${rgb.join(', ')})`;
+    return `var(--ansi-${background ? 'bg-' : ''}${color.index})`;
+};
+
+const stateToStyle = (state: AnsiState): SpanStyle => {
+    const style: SpanStyle = {};
+
+    let foreground = state.foreground ? colorToCss(state.foreground) : undefined;
+    let background = state.background ? colorToCss(state.background, true) : undefined;
+    if (state.inverse) {
+        // The swapped background should be solid, not the translucent variant
+        const swappedBackground = state.foreground ? colorToCss(state.foreground) : DEFAULT_FOREGROUND;
+        foreground = state.background ? colorToCss(state.background) : DEFAULT_BACKGROUND;
+        background = swappedBackground;
+    }
+
+    if (foreground) style.color = foreground;
+    if (background) style.backgroundColor = background;
+    if (state.hidden) style.color = 'transparent';
+    if (state.bold) style.fontWeight = 'bold';
+    if (state.dim) style.opacity = 0.6;
+    if (state.italic) style.fontStyle = 'italic';
+
+    const decorations = [
+        state.underline && 'underline',
+        state.strikethrough && 'line-through'
+    ].filter(Boolean);
+    if (decorations.length > 0) style.textDecoration = decorations.join(' ');
+
+    return style;
+};
+
+const toSpans = (text: string, minecraftColorCodes = false): Span[] =>
+    parseAnsi(minecraftColorCodes ? translateMinecraftCodes(text, URL_PATTERN) : text)
+        .map(span => ({ text: span.text, style: stateToStyle(span.state) }));
+
+// Theme variables for the 16 basic colors. Rendered once per console rather
+// than once per line.
+export const AnsiStyles: React.FC = () => (
+    <style>
+        {`
+            :root {
+                ${Object.entries(ANSI_COLORS.light).map(([key, value]) => `
+                    --ansi-${key}: ${value};
+                    --ansi-bg-${key}: ${value}20;
+                `).join('')}
+            }
+
+            .dark {
+                ${Object.entries(ANSI_COLORS.dark).map(([key, value]) => `
+                    --ansi-${key}: ${value};
+                    --ansi-bg-${key}: ${value}20;
+                `).join('')}
+            }
+        `}
+    </style>
+);
+
+// Splits spans at the given [start, end) ranges of the visible text and
+// lets `mark` decorate each piece inside a range. Everything else about the
+// span is carried over, so markings stack on top of the ANSI styling.
+const splitSpans = (spans: Span[], ranges: [number, number][], mark: (span: Span, rangeIndex: number) => Span): Span[] => {
+    if (ranges.length === 0) return spans;
+
+    const result: Span[] = [];
+    let offset = 0;
+    let rangeIndex = 0;
+
+    for (const span of spans) {
+        const end = offset + span.text.length;
+        let position = offset;
+
+        while (position < end) {
+            while (rangeIndex < ranges.length && ranges[rangeIndex][1] <= position) rangeIndex++;
+            const range = ranges[rangeIndex];
+
+            if (range && range[0] <= position) {
+                const pieceEnd = Math.min(end, range[1]);
+                result.push(mark({ ...span, text: span.text.slice(position - offset, pieceEnd - offset) }, rangeIndex));
+                position = pieceEnd;
             } else {
-                currentSpan.text += input[position];
-                position++;
+                const pieceEnd = Math.min(end, range ? range[0] : end);
+                result.push({ ...span, text: span.text.slice(position - offset, pieceEnd - offset) });
+                position = pieceEnd;
             }
         }
 
-        // Push any remaining text
-        if (currentSpan.text) {
-            result.push(currentSpan);
-        }
+        offset = end;
+    }
+
+    return result;
+};
 
-        return result;
-    };
+const visibleText = (spans: Span[]) => spans.map(span => span.text).join('');
 
-    const spans = parseAnsi(text);
+const linkSpans = (spans: Span[]) => {
+    const text = visibleText(spans);
+    const ranges = findMatchRanges(text, URL_PATTERN);
+    return splitSpans(spans, ranges, (span, index) => ({ ...span, href: text.slice(...ranges[index]) }));
+};
+
+// Drops the ANSI background of matches so the highlight stays visible
+const highlightSpans = (spans: Span[], pattern: RegExp) =>
+    splitSpans(spans, findMatchRanges(visibleText(spans), pattern), span => ({
+        ...span,
+        style: { ...span.style, backgroundColor: undefined },
+        highlighted: true
+    }));
+
+const AnsiParser: React.FC<AnsiParserProps> = ({ text, highlight, active, minecraftColorCodes }) => {
+    const parsed = useMemo(() => linkSpans(toSpans(text, minecraftColorCodes)), [text, minecraftColorCodes]);
+    const spans = useMemo(() => highlight ? highlightSpans(parsed, highlight) : parsed, [parsed, highlight]);
 
     return (
-        <div className="font-mono leading-5 whitespace-pre-wrap text-gray-100 dark:text-gray-200">
-            <style>
-                {`
-                    :root {
-                        /* Light mode ANSI colors */
-                        ${Object.entries(ANSI_COLORS.light).map(([key, value]) => `
-                            .light-theme {
-                                --ansi-${key}: ${value};
-                                --ansi-bg-${key}: ${value}20;
-                            }
-                        `).join('\n')}
-
-                        /* Dark mode ANSI colors */
-                        ${Object.entries(ANSI_COLORS.dark).map(([key, value]) => `
-                            .dark-theme {
-                                --ansi-${key}: ${value};
-                                --ansi-bg-${key}: ${value}20;
-                            }
-                        `).join('\n')}
-                    }
-                `}
-            </style>
-            {spans.map((span, index) => (
-                <span 
-                    key={index} 
-                    style={{ 
-                        ...span.style, 
-                        fontFamily: 'Coinbase Mono',
-                    }}
-                >
-                    {span.text}
-                </span>
-            ))}
+        <div className={`font-mono whitespace-pre text-gray-100 dark:text-gray-200 ${active ? 'bg-white/5' : ''}`}>
+            {spans.map((span, index) => {
+                const style = { ...span.style, fontFamily: 'Coinbase Mono' };
+                const className = span.highlighted
+                    ? `rounded-xs ring-1 ${active ? 'bg-amber-400/40 ring-amber-400' : 'bg-amber-400/20 ring-amber-400/40'}`
+                    : undefined;
+
+                return span.href ? (
+                    <a
+                        key={index}
+                        href={span.href}
+                        target="_blank"
+                        rel="noreferrer"
+                        style={{ ...style, textDecoration: 'underline' }}
+                        className={`hover:opacity-80 ${className ?? ''}`}
+                    >
+                        {span.text}
+                    </a>
+                ) : (
+                    <span key={index} style={style} className={className}>
+                        {span.text}
+                    </span>
+                );
+            })}
         </div>
     );
 };
 
-export default AnsiParser;
\ No newline at end of file
+export default React.memo(AnsiParser);
\ No newline at end of file
@@ -0,0 +1,51 @@
+import { useEffect, useState } from 'react';
+import { RotateCwIcon } from 'lucide-react';
+import type { KryptonSocket } from '../hooks/useKryptonSocket';
+
+const statusStyles = {
+  idle: { dot: 'bg-gray-500', label: 'Not connected' },
+  connecting: { dot: 'bg-yellow-400 animate-pulse', label: 'Connecting...' },
+  connected: { dot: 'bg-green-400', label: 'Connected' },
+  reconnecting: { dot: 'bg-yellow-400', label: 'Reconnecting' },
+  offline: { dot: 'bg-gray-500', label: 'Offline' },
+  failed: { dot: 'bg-red-400', label: 'Disconnected' }
+};
+
+type ConnectionStatusPillProps = Pick<KryptonSocket, 'status' | 'retryAt' | 'reconnectNow'>;
+
+const ConnectionStatusPill = ({ status, retryAt, reconnectNow }: ConnectionStatusPillProps) => {
+  const [now, setNow] = useState(Date.now());
+
+  // Tick once a second so the countdown stays current
+  useEffect(() => {
+    if (!retryAt) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [retryAt]);
+
+  const { dot, label } = statusStyles[status];
+  const secondsLeft = retryAt ? Math.max(0, Math.ceil((retryAt - now) / 1000)) : 0;
+  const canReconnect = status === 'reconnecting' || status === 'failed';
+
+  return (
+    <div className="flex items-center space-x-2">
+      <span className="flex items-center px-2 py-1 text-xs text-gray-400 bg-gray-900/60 border border-white/5 rounded-md">
+        <span className={`w-1.5 h-1.5 rounded-full mr-1.5 ${dot}`} />
+        {status === 'reconnecting' ? `${label} in ${secondsLeft}s` : label}
+      </span>
+      {canReconnect && (
+        <button
+          type="button"
+          onClick={reconnectNow}
+          className="flex items-center px-2 py-1 text-xs text-gray-300 border border-white/5 rounded-md hover:bg-gray-700"
+        >
+          <RotateCwIcon className="w-3 h-3 mr-1" />
+          Reconnect now
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ConnectionStatusPill;
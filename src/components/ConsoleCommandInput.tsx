@@ -0,0 +1,216 @@
+import React, { useMemo, useState } from 'react';
+import { complete, historyProvider, CompletionProvider } from '../lib/commandCompletion';
+
+const MAX_SUGGESTIONS = 8;
+
+interface ConsoleCommandInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  history: string[];
+  providers: CompletionProvider[];
+  placeholder?: string;
+  disabled?: boolean;
+  className?: string;
+}
+
+interface Completion {
+  candidates: string[];
+  index: number;
+}
+
+interface ReverseSearch {
+  query: string;
+  // Offset from the newest history entry of the current match
+  skip: number;
+  original: string;
+}
+
+const findInHistory = (history: string[], query: string, skip: number) => {
+  let found = 0;
+  for (let i = history.length - 1; i >= 0; i--) {
+    if (history[i].includes(query)) {
+      if (found === skip) return history[i];
+      found++;
+    }
+  }
+  return null;
+};
+
+// Command input with shell-style history (Up/Down, Ctrl+R) and Tab
+// completion. Submitting is left to the surrounding form.
+const ConsoleCommandInput = ({
+  value,
+  onChange,
+  history,
+  providers,
+  placeholder,
+  disabled = false,
+  className = ''
+}: ConsoleCommandInputProps) => {
+  const [historyIndex, setHistoryIndex] = useState<number | null>(null);
+  const [draft, setDraft] = useState('');
+  const [completion, setCompletion] = useState<Completion | null>(null);
+  const [reverseSearch, setReverseSearch] = useState<ReverseSearch | null>(null);
+
+  const allProviders = useMemo(() => [...providers, historyProvider(history)], [providers, history]);
+
+  const reverseMatch = reverseSearch && reverseSearch.query
+    ? findInHistory(history, reverseSearch.query, reverseSearch.skip)
+    : null;
+
+  const setValue = (next: string) => {
+    setCompletion(null);
+    onChange(next);
+  };
+
+  const finishReverseSearch = (accept: boolean) => {
+    if (!reverseSearch) return;
+    setValue(accept ? reverseMatch ?? reverseSearch.original : reverseSearch.original);
+    setReverseSearch(null);
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (reverseSearch) {
+      setReverseSearch({ ...reverseSearch, query: e.target.value, skip: 0 });
+      return;
+    }
+    setHistoryIndex(null);
+    setValue(e.target.value);
+  };
+
+  const handleTab = () => {
+    if (completion && completion.candidates.length > 1) {
+      const index = (completion.index + 1) % completion.candidates.length;
+      setCompletion({ ...completion, index });
+      onChange(completion.candidates[index]);
+      return;
+    }
+
+    const candidates = complete(value, allProviders);
+    if (candidates.length === 0) return;
+
+    onChange(candidates[0]);
+    setCompletion(candidates.length > 1 ? { candidates, index: 0 } : null);
+  };
+
+  const handleHistory = (direction: -1 | 1) => {
+    if (history.length === 0) return;
+
+    if (historyIndex === null) {
+      if (direction === 1) return;
+      setDraft(value);
+      setHistoryIndex(history.length - 1);
+      setValue(history[history.length - 1]);
+      return;
+    }
+
+    const next = historyIndex + direction;
+    if (next >= history.length) {
+      setHistoryIndex(null);
+      setValue(draft);
+    } else if (next >= 0) {
+      setHistoryIndex(next);
+      setValue(history[next]);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.ctrlKey && e.key.toLowerCase() === 'r') {
+      e.preventDefault();
+      if (reverseSearch) {
+        // Look further back for the same query
+        if (findInHistory(history, reverseSearch.query, reverseSearch.skip + 1)) {
+          setReverseSearch({ ...reverseSearch, skip: reverseSearch.skip + 1 });
+        }
+      } else {
+        setReverseSearch({ query: '', skip: 0, original: value });
+      }
+      return;
+    }
+
+    if (reverseSearch) {
+      if (e.key === 'Escape' || (e.ctrlKey && e.key.toLowerCase() === 'g')) {
+        e.preventDefault();
+        finishReverseSearch(false);
+      } else if (e.key === 'Enter' || e.key === 'Tab' || e.key.startsWith('Arrow')) {
+        e.preventDefault();
+        finishReverseSearch(true);
+      }
+      return;
+    }
+
+    switch (e.key) {
+      case 'Tab':
+        e.preventDefault();
+        handleTab();
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        handleHistory(-1);
+        break;
+      case 'ArrowDown':
+        e.preventDefault();
+        handleHistory(1);
+        break;
+      case 'Escape':
+        setCompletion(null);
+        break;
+      case 'Enter':
+        setHistoryIndex(null);
+        setCompletion(null);
+        break;
+    }
+  };
+
+  return (
+    <div className="relative flex-1 flex items-center min-w-0">
+      {reverseSearch && (
+        <span className="pl-3 text-xs text-gray-500 whitespace-nowrap font-mono">
+          (reverse-i-search)
+        </span>
+      )}
+      <input
+        type="text"
+        value={reverseSearch ? reverseSearch.query : value}
+        onChange={handleChange}
+        onKeyDown={handleKeyDown}
+        onBlur={() => {
+          finishReverseSearch(true);
+          setCompletion(null);
+        }}
+        placeholder={reverseSearch ? 'Search history' : placeholder}
+        spellCheck={false}
+        autoComplete="off"
+        disabled={disabled}
+        className={className}
+      />
+      {reverseSearch && (
+        <span className="pr-3 text-xs text-gray-400 font-mono truncate max-w-[50%]">
+          {reverseSearch.query && (reverseMatch ?? 'no match')}
+        </span>
+      )}
+
+      {completion && (
+        <div className="absolute bottom-full left-0 mb-2 min-w-[240px] max-w-full py-1 bg-gray-800 border border-white/10 rounded-md shadow-xs z-10">
+          {completion.candidates.slice(0, MAX_SUGGESTIONS).map((candidate, index) => (
+            <div
+              key={candidate}
+              className={`px-3 py-1 text-xs font-mono truncate ${
+                index === completion.index ? 'text-gray-100 bg-gray-700' : 'text-gray-400'
+              }`}
+            >
+              {candidate}
+            </div>
+          ))}
+          {completion.candidates.length > MAX_SUGGESTIONS && (
+            <div className="px-3 py-1 text-xs text-gray-500">
+              and {completion.candidates.length - MAX_SUGGESTIONS} more
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ConsoleCommandInput;
@@ -0,0 +1,82 @@
+import React, { forwardRef, useCallback, useEffect, useImperativeHandle, useRef, useState } from 'react';
+import AnsiParser, { AnsiStyles } from './AnsiParser';
+import type { ConsoleLine } from '../hooks/useConsoleBuffer';
+
+// Every line is rendered at a fixed height (applied as the line height) so
+// the visible window can be computed from the scroll offset alone.
+export const CONSOLE_ROW_HEIGHT = 20;
+const OVERSCAN = 20;
+
+interface ConsoleOutputProps {
+  lines: ConsoleLine[];
+  highlight?: RegExp | null;
+  activeLineId?: number | null;
+  minecraftColorCodes?: boolean;
+  rowHeight?: number;
+  className?: string;
+  style?: React.CSSProperties;
+  onScroll?: (e: React.UIEvent<HTMLDivElement>) => void;
+  // Shown instead of the output while there are no lines
+  children?: React.ReactNode;
+}
+
+// Virtualized console renderer: only the lines in view (plus some overscan)
+// are mounted, regardless of how much scrollback is kept.
+const ConsoleOutput = forwardRef<HTMLDivElement, ConsoleOutputProps>(
+  ({ lines, highlight, activeLineId, minecraftColorCodes, rowHeight = CONSOLE_ROW_HEIGHT, className = '', style, onScroll, children }, ref) => {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const [scrollTop, setScrollTop] = useState(0);
+    const [viewportHeight, setViewportHeight] = useState(0);
+
+    useImperativeHandle(ref, () => containerRef.current!);
+
+    useEffect(() => {
+      const container = containerRef.current;
+      if (!container) return;
+
+      setViewportHeight(container.clientHeight);
+      const observer = new ResizeObserver(() => setViewportHeight(container.clientHeight));
+      observer.observe(container);
+      return () => observer.disconnect();
+    }, []);
+
+    const handleScroll = useCallback((e: React.UIEvent<HTMLDivElement>) => {
+      setScrollTop(e.currentTarget.scrollTop);
+      onScroll?.(e);
+    }, [onScroll]);
+
+    const first = Math.max(0, Math.floor(scrollTop / rowHeight) - OVERSCAN);
+    const last = Math.min(lines.length, Math.ceil((scrollTop + viewportHeight) / rowHeight) + OVERSCAN);
+    const visible = lines.slice(first, last);
+
+    return (
+      <div
+        ref={containerRef}
+        onScroll={handleScroll}
+        style={style}
+        className={`overflow-auto relative ${className}`}
+      >
+        <AnsiStyles />
+        {lines.length > 0 ? (
+          <div className="relative" style={{ height: lines.length * rowHeight }}>
+            <div className="absolute left-0 right-0" style={{ top: first * rowHeight, lineHeight: `${rowHeight}px` }}>
+              {visible.map(line => (
+                <AnsiParser
+                  key={line.id}
+                  text={line.text}
+                  highlight={highlight}
+                  active={line.id === activeLineId}
+                  minecraftColorCodes={minecraftColorCodes}
+                />
+              ))}
+            </div>
+          </div>
+        ) : children}
+      </div>
+    );
+  }
+);
+
+ConsoleOutput.displayName = 'ConsoleOutput';
+
+export default ConsoleOutput;
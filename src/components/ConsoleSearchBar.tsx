@@ -0,0 +1,134 @@
+import React, { useEffect, useRef } from 'react';
+import { ChevronUpIcon, ChevronDownIcon, FilterIcon, XIcon } from 'lucide-react';
+import type { ConsoleSearch } from '../hooks/useConsoleSearch';
+import { LOG_LEVELS } from '../lib/consoleSearch';
+
+interface ConsoleSearchBarProps {
+  search: ConsoleSearch;
+}
+
+const toggleClass = (active: boolean) =>
+  `px-2 py-1 text-xs rounded-md border border-white/5 transition-colors duration-200 ${
+    active ? 'text-gray-100 bg-gray-700' : 'text-gray-500 hover:text-gray-300'
+  }`;
+
+const ConsoleSearchBar = ({ search }: ConsoleSearchBarProps) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (search.open) {
+      inputRef.current?.focus();
+      inputRef.current?.select();
+    }
+  }, [search.open]);
+
+  if (!search.open) return null;
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      if (e.shiftKey) {
+        search.previous();
+      } else {
+        search.next();
+      }
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      search.close();
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 px-4 py-2 border-b border-white/5">
+      <div className="flex items-center flex-1 min-w-[200px] bg-gray-800 border border-white/5 rounded-md">
+        <input
+          ref={inputRef}
+          type="text"
+          value={search.query}
+          onChange={(e) => search.setQuery(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder={search.regex ? 'Search with a regular expression' : 'Search console'}
+          className="flex-1 bg-transparent text-gray-100 text-xs px-3 py-1.5 focus:outline-none placeholder:text-gray-500"
+        />
+        <span className="px-2 text-xs text-gray-500 whitespace-nowrap">
+          {search.error
+            ? <span className="text-red-400">Invalid pattern</span>
+            : search.query
+              ? `${search.matches.length > 0 ? search.current + 1 : 0}/${search.matches.length}`
+              : null}
+        </span>
+      </div>
+
+      <button
+        type="button"
+        onClick={() => search.setCaseSensitive(!search.caseSensitive)}
+        title="Match case"
+        className={toggleClass(search.caseSensitive)}
+      >
+        Aa
+      </button>
+      <button
+        type="button"
+        onClick={() => search.setRegex(!search.regex)}
+        title="Use regular expression"
+        className={`font-mono ${toggleClass(search.regex)}`}
+      >
+        .*
+      </button>
+
+      <button
+        type="button"
+        onClick={search.previous}
+        disabled={search.matches.length === 0}
+        title="Previous match (Shift+Enter)"
+        className="p-1 text-gray-400 hover:text-gray-200 disabled:opacity-40"
+      >
+        <ChevronUpIcon className="w-4 h-4" />
+      </button>
+      <button
+        type="button"
+        onClick={search.next}
+        disabled={search.matches.length === 0}
+        title="Next match (Enter)"
+        className="p-1 text-gray-400 hover:text-gray-200 disabled:opacity-40"
+      >
+        <ChevronDownIcon className="w-4 h-4" />
+      </button>
+
+      <button
+        type="button"
+        onClick={() => search.setFilter(!search.filter)}
+        title="Only show matching lines"
+        className={`flex items-center ${toggleClass(search.filter)}`}
+      >
+        <FilterIcon className="w-3 h-3 mr-1" />
+        Filter
+      </button>
+
+      <div className="flex items-center space-x-1">
+        {LOG_LEVELS.map(level => (
+          <button
+            key={level}
+            type="button"
+            onClick={() => search.setLevel(search.level === level ? null : level)}
+            title={`Only show ${level} lines`}
+            className={toggleClass(search.level === level)}
+          >
+            {level}
+          </button>
+        ))}
+      </div>
+
+      <button
+        type="button"
+        onClick={search.close}
+        title="Close (Esc)"
+        className="p-1 text-gray-500 hover:text-gray-300"
+      >
+        <XIcon className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
+
+export default ConsoleSearchBar;
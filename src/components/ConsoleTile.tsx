@@ -0,0 +1,163 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ExternalLink, X } from 'lucide-react';
+import ConsoleOutput from './ConsoleOutput';
+import ConnectionStatusPill from './ConnectionStatusPill';
+import ServerStatePill from './ServerStatePill';
+import { useKryptonSocket } from '../hooks/useKryptonSocket';
+import { useConsoleBuffer } from '../hooks/useConsoleBuffer';
+import { useConsoleFollow } from '../hooks/useConsoleFollow';
+import { useServerStats } from '../hooks/useServerStats';
+import { isRunningState } from '../hooks/usePowerState';
+import { recordStats } from '../lib/statsStore';
+import type { KryptonServer, KryptonServerEvent } from '../lib/krypton';
+import type { Server } from '../lib/types';
+
+// Tiles keep a short scrollback; the full console is a click away
+const TILE_SCROLLBACK = 1000;
+
+// Sends a command to the tile's server, returning false if it could not be sent
+export type TileSender = (command: string) => boolean;
+
+interface ConsoleTileProps {
+  server: Server & KryptonServer;
+  selected: boolean;
+  onSelectedChange: (selected: boolean) => void;
+  onRemove: () => void;
+  // Called with the tile's sender once mounted and with null on unmount
+  registerSender: (serverId: string, sender: TileSender | null) => void;
+}
+
+// A compact live console for one server with its own websocket session, used
+// by the admin console wall.
+const ConsoleTile = ({ server, selected, onSelectedChange, onRemove, registerSender }: ConsoleTileProps) => {
+  const { lines, append, replace } = useConsoleBuffer(TILE_SCROLLBACK);
+  const [state, setState] = useState(server.state);
+  const [command, setCommand] = useState('');
+  const outputRef = useRef<HTMLDivElement>(null);
+  const follow = useConsoleFollow(outputRef, lines);
+  const stats = useServerStats(server.id);
+  const latestStats = stats.length > 0 ? stats[stats.length - 1] : null;
+
+  const handleSocketEvent = useCallback((message: KryptonServerEvent) => {
+    switch (message.event) {
+      case 'console_output':
+        if (typeof message.data.message === 'string') {
+          append(message.data.message);
+        }
+        break;
+
+      case 'auth_success':
+        if (message.data.logs) {
+          replace(message.data.logs);
+        }
+        break;
+
+      case 'stats':
+        if (message.data.cpu_percent !== undefined) {
+          recordStats(server.id, message.data);
+        }
+
+        if (message.data.state) {
+          setState(message.data.state);
+        }
+        break;
+
+      case 'error':
+        append(`\x1b[31mError: ${message.data.message || 'An unknown error occurred'}\x1b[0m`);
+        break;
+    }
+  }, [server.id, append, replace]);
+
+  const socket = useKryptonSocket(server, { onEvent: handleSocketEvent });
+  const connected = socket.status === 'connected';
+
+  const sendCommand = useCallback<TileSender>((value) => {
+    if (!isRunningState(state)) {
+      append('\x1b[33m[System] Cannot send command - server is not running\x1b[0m');
+      return false;
+    }
+
+    if (!socket.send({ event: 'send_command', data: value })) {
+      append('\x1b[31m[System] Failed to send command - connection was lost\x1b[0m');
+      return false;
+    }
+
+    append('\x1b[32m$ \x1b[0m' + value + '\x1b[0m');
+    return true;
+  }, [state, socket.send, append]);
+
+  useEffect(() => {
+    registerSender(server.id, sendCommand);
+  }, [server.id, sendCommand, registerSender]);
+
+  useEffect(() => () => registerSender(server.id, null), [server.id, registerSender]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (command.trim() && sendCommand(command)) {
+      setCommand('');
+    }
+  };
+
+  return (
+    <div
+      className={`flex flex-col h-full min-h-[200px] bg-gray-900 rounded-xl overflow-hidden border-2 ${
+        selected ? 'border-blue-500' : 'border-transparent'
+      }`}
+    >
+      <div className="flex items-center justify-between px-3 py-2 border-b border-white/5 text-xs">
+        <label className="flex items-center space-x-2 min-w-0">
+          <input
+            type="checkbox"
+            checked={selected}
+            onChange={(e) => onSelectedChange(e.target.checked)}
+            className="text-xs"
+          />
+          <span className="font-medium text-gray-100 truncate">{server.name}</span>
+        </label>
+        <div className="flex items-center space-x-3 flex-shrink-0">
+          {latestStats && isRunningState(state) && (
+            <span className="text-gray-400">{latestStats.cpuPercent.toFixed(0)}% CPU</span>
+          )}
+          <ServerStatePill state={state} pending={null} connected={connected} />
+          <Link
+            to={`/servers/${server.id}/console`}
+            title="Open console"
+            className="text-gray-400 hover:text-gray-200"
+          >
+            <ExternalLink className="w-3.5 h-3.5" />
+          </Link>
+          <button onClick={onRemove} title="Remove from wall" className="text-gray-400 hover:text-gray-200">
+            <X className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      </div>
+
+      <ConsoleOutput
+        ref={outputRef}
+        lines={lines}
+        onScroll={follow.onScroll}
+        className="flex-1 p-3 font-mono text-xs text-gray-300"
+      >
+        <div className="text-gray-500">No output yet.</div>
+      </ConsoleOutput>
+
+      <form onSubmit={handleSubmit} className="flex items-center border-t border-white/5">
+        <input
+          type="text"
+          value={command}
+          onChange={(e) => setCommand(e.target.value)}
+          placeholder={connected ? 'Type a command...' : 'Not connected'}
+          disabled={!connected}
+          className="flex-1 px-3 py-2 bg-transparent font-mono text-xs text-gray-100 placeholder-gray-500 focus:outline-none"
+        />
+        <div className="px-3">
+          <ConnectionStatusPill status={socket.status} retryAt={socket.retryAt} reconnectNow={socket.reconnectNow} />
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default ConsoleTile;
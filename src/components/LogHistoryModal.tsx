@@ -0,0 +1,135 @@
+import { useEffect, useLayoutEffect, useRef } from 'react';
+import { motion } from 'framer-motion';
+import { AlertCircle, Download, History, X } from 'lucide-react';
+import ConsoleOutput, { CONSOLE_ROW_HEIGHT } from './ConsoleOutput';
+import type { LogHistory } from '../hooks/useLogHistory';
+import { downloadLog } from '../lib/logDownload';
+
+interface LogHistoryModalProps {
+  history: LogHistory;
+  serverName: string;
+  minecraftColorCodes?: boolean;
+  onClose: () => void;
+}
+
+const LogHistoryModal = ({ history, serverName, minecraftColorCodes, onClose }: LogHistoryModalProps) => {
+  const outputRef = useRef<HTMLDivElement>(null);
+  const firstIdRef = useRef<number | null>(null);
+  const { lines, loading, error, hasMore, loaded, loadOlder } = history;
+
+  useEffect(() => {
+    if (!loaded) loadOlder();
+  }, []);
+
+  // Keep the lines the user was looking at in place when an older page is
+  // prepended, and start at the bottom for the first page
+  useLayoutEffect(() => {
+    const output = outputRef.current;
+    if (!output || lines.length === 0) return;
+
+    const previousFirstId = firstIdRef.current;
+    firstIdRef.current = lines[0].id;
+
+    if (previousFirstId === null) {
+      output.scrollTop = output.scrollHeight;
+      return;
+    }
+
+    const added = lines.findIndex(line => line.id === previousFirstId);
+    if (added > 0) output.scrollTop += added * CONSOLE_ROW_HEIGHT;
+  }, [lines]);
+
+  const texts = () => lines.map(line => line.text);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-gray-900/50 dark:bg-gray-900/70 flex items-center justify-center z-50"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ scale: 0.95, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.95, opacity: 0 }}
+        transition={{ duration: 0.1 }}
+        onClick={(e) => e.stopPropagation()}
+        className="w-[1000px] max-w-[95vw] bg-gray-900 rounded-xl shadow-xl flex flex-col"
+      >
+        <div className="flex items-center justify-between p-4 border-b border-white/5">
+          <div className="flex items-center space-x-2">
+            <History className="w-4 h-4 text-gray-400" />
+            <h3 className="text-sm font-medium text-gray-100">Log history</h3>
+            <span className="text-xs text-gray-500">{lines.length.toLocaleString()} lines loaded</span>
+          </div>
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={() => downloadLog(texts(), `${serverName}-history`)}
+              disabled={lines.length === 0}
+              className="flex items-center px-2 py-1 text-xs text-gray-300 border border-white/5 rounded-md hover:bg-gray-800 disabled:opacity-50"
+            >
+              <Download className="w-3 h-3 mr-1" />
+              Plain text
+            </button>
+            <button
+              onClick={() => downloadLog(texts(), `${serverName}-history`, { raw: true })}
+              disabled={lines.length === 0}
+              className="flex items-center px-2 py-1 text-xs text-gray-300 border border-white/5 rounded-md hover:bg-gray-800 disabled:opacity-50"
+            >
+              <Download className="w-3 h-3 mr-1" />
+              Raw
+            </button>
+            <button onClick={onClose} className="p-1 text-gray-500 hover:text-gray-300">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-center px-4 py-2 border-b border-white/5 min-h-[40px]">
+          {loading ? (
+            <div className="flex items-center text-xs text-gray-400">
+              <div className="w-3.5 h-3.5 mr-2 border-2 border-gray-600 border-t-gray-200 rounded-full animate-spin" />
+              Loading older output...
+            </div>
+          ) : error ? (
+            <div className="flex items-center text-xs text-red-400">
+              <AlertCircle className="w-3.5 h-3.5 mr-1.5" />
+              {error}
+              <button onClick={loadOlder} className="ml-3 text-gray-300 underline hover:text-gray-100">
+                Retry
+              </button>
+            </div>
+          ) : hasMore ? (
+            <button
+              onClick={loadOlder}
+              className="px-3 py-1 text-xs text-gray-300 border border-white/5 rounded-md hover:bg-gray-800"
+            >
+              Load older output
+            </button>
+          ) : (
+            <span className="text-xs text-gray-500">Beginning of log history</span>
+          )}
+        </div>
+
+        <ConsoleOutput
+          ref={outputRef}
+          lines={lines}
+          minecraftColorCodes={minecraftColorCodes}
+          style={{
+            fontFamily: 'Coinbase Mono, ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, monospace'
+          }}
+          className="h-[500px] p-4 text-xs text-gray-300"
+        >
+          {!loading && (
+            <div className="absolute inset-0 flex items-center justify-center text-sm text-gray-500">
+              No older output available
+            </div>
+          )}
+        </ConsoleOutput>
+      </motion.div>
+    </motion.div>
+  );
+};
+
+export default LogHistoryModal;
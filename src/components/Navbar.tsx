@@ -3,7 +3,7 @@ import { Link, useLocation } from 'react-router-dom';
 import { 
   ServerIcon as ServerOutline,
   Cog6ToothIcon as CogOutline,
-  UserCircleIcon,
+  ShieldCheckIcon,
   ArrowLeftOnRectangleIcon,
   ChevronDownIcon,
   ChevronRightIcon,
@@ -12,7 +12,11 @@ import {
   ServerIcon as ServerSolid,
   Cog6ToothIcon as CogSolid,
 } from '@heroicons/react/24/solid';
-import { useAuth } from '../pages/[auth]/Auth';
+import { useAuth, SECURITY_PATH } from '../pages/[auth]/Auth';
+import { api } from '../lib/api';
+import { hasPermission, ADMIN_ROUTE_PERMISSIONS } from '../lib/permissions';
+import { hasServerPermission, isServerOwner } from '../lib/serverPermissions';
+import type { Server } from '../lib/types';
 import { ThemeToggle } from './ThemeToggle';
 import SearchBar from './SearchBar';
 
@@ -32,6 +36,7 @@ export default function Sidebar() {
   const [isDropdownOpen, setIsDropdownOpen] = useState(false);
   const [isServerCategoryOpen, setIsServerCategoryOpen] = useState(true);
   const [isAdminCategoryOpen, setIsAdminCategoryOpen] = useState(true);
+  const [server, setServer] = useState<Server | null>(null);
   const dropdownRef = useRef<HTMLDivElement>(null);
   const buttonRef = useRef<HTMLDivElement>(null);
   
@@ -84,14 +89,47 @@ export default function Sidebar() {
   const isServerPage = location.pathname.startsWith('/servers/') && location.pathname.split('/').length > 3;
   const isAdminPage = location.pathname.startsWith('/admin');
 
-  // Admin navigation items
+  // Admin navigation items, limited to the pages the user may open
   const adminTabs = [
     { name: 'Overview', path: '/admin' },
     { name: 'Servers', path: '/admin/servers' },
     { name: 'Nodes', path: '/admin/nodes' },
     { name: 'Users', path: '/admin/users' },
-    { name: 'Units', path: '/admin/units' }
-  ];
+    { name: 'Units', path: '/admin/units' },
+    { name: 'Consoles', path: '/admin/consoles' }
+  ].filter(tab => user && hasPermission(user.permissions, ADMIN_ROUTE_PERMISSIONS[tab.path]));
+
+  // Server navigation items, relative to the current server and limited to
+  // what the viewer may use there
+  const serverBasePath = location.pathname.match(/^\/servers\/[^/]+/)?.[0] ?? '';
+  const serverId = isServerPage ? serverBasePath.split('/')[2] : null;
+
+  useEffect(() => {
+    setServer(null);
+    if (!serverId) return;
+
+    let cancelled = false;
+    api.servers.get(serverId)
+      .then(data => {
+        if (!cancelled) setServer(data);
+      })
+      .catch(err => console.error('Failed to fetch server for navigation:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [serverId]);
+
+  const serverTabs = [
+    { name: 'Console', path: `${serverBasePath}/console`, visible: true },
+    { name: 'Files', path: `${serverBasePath}/files`, visible: hasServerPermission(server, 'files.read') },
+    // Without startup.edit the page is read-only rather than hidden
+    { name: 'Startup', path: `${serverBasePath}/startup`, visible: true },
+    { name: 'Backups', path: `${serverBasePath}/backups`, visible: hasServerPermission(server, 'backups') },
+    { name: 'Schedules', path: `${serverBasePath}/schedules`, visible: isServerOwner(server) },
+    { name: 'Users', path: `${serverBasePath}/users`, visible: isServerOwner(server) },
+    { name: 'Settings', path: `${serverBasePath}/settings`, visible: true }
+  ].filter(tab => tab.visible);
 
   return (
     <>
@@ -130,39 +168,41 @@ export default function Sidebar() {
           </Link>
 
           {/* Admin Category */}
-          <div className="mt-0.5">
-            <button
-              onClick={toggleAdminCategory}
-              className="group flex items-center h-[32px] px-2 text-[10px] uppercase tracking-widest font-medium rounded-md transition-colors duration-200 ease-in-out border shadow-xs 
-                       text-gray-600 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700/50 border-transparent shadow-transparent"
-            >
-              {isAdminCategoryOpen ? (
-                <ChevronDownIcon className="mr-2 h-3.5 w-3.5 text-gray-400 dark:text-gray-500 transition group-hover:text-gray-500 dark:group-hover:text-gray-400" />
-              ) : (
-                <ChevronRightIcon className="mr-2 h-3.5 w-3.5 text-gray-400 dark:text-gray-500 transition group-hover:text-gray-500 dark:group-hover:text-gray-400" />
-              )}
-              Admin
-            </button>
-            <div className={`pl-4 border-l border-gray-200 dark:border-gray-700 transition-all duration-300 ease-in-out ${isAdminCategoryOpen ? 'max-h-screen' : 'max-h-0 overflow-hidden'}`}>
-              {adminTabs.map((tab) => {
-                const isActive = location.pathname === tab.path;
-                
-                return (
-                  <Link
-                    key={tab.path}
-                    to={tab.path}
-                    className={`group flex items-center h-[32px] px-2 text-xs font-medium rounded-md transition-colors duration-200 ease-in-out border shadow-xs ${
-                      isActive
-                        ? 'bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-200 border-gray-200 dark:border-gray-600'
-                        : 'text-gray-600 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700/50 border-transparent shadow-transparent'
-                    }`}
-                  >
-                    {tab.name}
-                  </Link>
-                );
-              })}
+          {adminTabs.length > 0 && (
+            <div className="mt-0.5">
+              <button
+                onClick={toggleAdminCategory}
+                className="group flex items-center h-[32px] px-2 text-[10px] uppercase tracking-widest font-medium rounded-md transition-colors duration-200 ease-in-out border shadow-xs 
+                         text-gray-600 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700/50 border-transparent shadow-transparent"
+              >
+                {isAdminCategoryOpen ? (
+                  <ChevronDownIcon className="mr-2 h-3.5 w-3.5 text-gray-400 dark:text-gray-500 transition group-hover:text-gray-500 dark:group-hover:text-gray-400" />
+                ) : (
+                  <ChevronRightIcon className="mr-2 h-3.5 w-3.5 text-gray-400 dark:text-gray-500 transition group-hover:text-gray-500 dark:group-hover:text-gray-400" />
+                )}
+                Admin
+              </button>
+              <div className={`pl-4 border-l border-gray-200 dark:border-gray-700 transition-all duration-300 ease-in-out ${isAdminCategoryOpen ? 'max-h-screen' : 'max-h-0 overflow-hidden'}`}>
+                {adminTabs.map((tab) => {
+                  const isActive = location.pathname === tab.path;
+                  
+                  return (
+                    <Link
+                      key={tab.path}
+                      to={tab.path}
+                      className={`group flex items-center h-[32px] px-2 text-xs font-medium rounded-md transition-colors duration-200 ease-in-out border shadow-xs ${
+                        isActive
+                          ? 'bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-200 border-gray-200 dark:border-gray-600'
+                          : 'text-gray-600 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700/50 border-transparent shadow-transparent'
+                      }`}
+                    >
+                      {tab.name}
+                    </Link>
+                  );
+                })}
+              </div>
             </div>
-          </div>
+          )}
 
           {isServerPage && (
             <div>
@@ -180,26 +220,23 @@ export default function Sidebar() {
                 Server
               </button>
               <div className={`pl-4 border-l border-gray-200 dark:border-gray-700 transition-all duration-300 ease-in-out ${isServerCategoryOpen ? 'max-h-screen' : 'max-h-0 overflow-hidden'}`}>
-                <Link
-                  to={`${location.pathname.replace(/\/(console|files)$/, '')}/console`}
-                  className={`group flex items-center h-[32px] px-2 text-xs font-medium rounded-md transition-colors duration-200 ease-in-out border shadow-xs ${
-                    location.pathname.endsWith('/console')
-                      ? 'bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-200 border-gray-200 dark:border-gray-600'
-                      : 'text-gray-600 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700/50 border-transparent shadow-transparent'
-                  }`}
-                >
-                  Console
-                </Link>
-                <Link
-                  to={`${location.pathname.replace(/\/(console|files)$/, '')}/files`}
-                  className={`group flex items-center h-[32px] px-2 text-xs font-medium rounded-md transition-colors duration-200 ease-in-out border shadow-xs ${
-                    location.pathname.endsWith('/files')
-                      ? 'bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-200 border-gray-200 dark:border-gray-600'
-                      : 'text-gray-600 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700/50 border-transparent shadow-transparent'
-                  }`}
-                >
-                  Files
-                </Link>
+                {serverTabs.map((tab) => {
+                  const isActive = location.pathname === tab.path;
+
+                  return (
+                    <Link
+                      key={tab.path}
+                      to={tab.path}
+                      className={`group flex items-center h-[32px] px-2 text-xs font-medium rounded-md transition-colors duration-200 ease-in-out border shadow-xs ${
+                        isActive
+                          ? 'bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-200 border-gray-200 dark:border-gray-600'
+                          : 'text-gray-600 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700/50 border-transparent shadow-transparent'
+                      }`}
+                    >
+                      {tab.name}
+                    </Link>
+                  );
+                })}
               </div>
             </div>
           )}
@@ -229,10 +266,14 @@ export default function Sidebar() {
             >
               <div className="py-1">
                 <ThemeToggle />
-                <button className="w-full px-3 py-1.5 text-xs text-gray-600 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-gray-700/50 flex items-center">
-                  <UserCircleIcon className="mr-2 h-3.5 w-3.5" />
-                  Profile
-                </button>
+                <Link
+                  to={SECURITY_PATH}
+                  onClick={() => setIsDropdownOpen(false)}
+                  className="w-full px-3 py-1.5 text-xs text-gray-600 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-gray-700/50 flex items-center"
+                >
+                  <ShieldCheckIcon className="mr-2 h-3.5 w-3.5" />
+                  Security
+                </Link>
                 <button 
                   onClick={handleLogout}
                   className="w-full px-3 py-1.5 text-xs text-gray-600 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-gray-700/50 flex items-center"
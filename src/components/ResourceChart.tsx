@@ -0,0 +1,125 @@
+import React, { useMemo, useState } from 'react';
+import type { StatsSample } from '../lib/statsStore';
+
+const WIDTH = 300;
+const HEIGHT = 60;
+
+export interface ChartSeries {
+  label: string;
+  color: string;
+  value: (sample: StatsSample) => number | null;
+}
+
+interface ResourceChartProps {
+  samples: StatsSample[];
+  series: ChartSeries[];
+  windowMs: number;
+  format: (value: number) => string;
+  // Fixed upper bound, e.g. 100 for percentages or the memory limit
+  max?: number;
+}
+
+// Rolling time series drawn as an SVG area chart, scaled to its container's
+// width. The newest sample is always on the right edge.
+const ResourceChart = ({ samples, series, windowMs, format, max }: ResourceChartProps) => {
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+
+  const end = samples.length > 0 ? samples[samples.length - 1].time : Date.now();
+  const start = end - windowMs;
+
+  const visible = useMemo(() => samples.filter(sample => sample.time >= start), [samples, start]);
+
+  const upper = useMemo(() => {
+    if (max) return max;
+    const peak = Math.max(0, ...visible.flatMap(sample => series.map(s => s.value(sample) ?? 0)));
+    // Leave some headroom so the line does not hug the top
+    return peak > 0 ? peak * 1.2 : 1;
+  }, [visible, series, max]);
+
+  const x = (time: number) => ((time - start) / windowMs) * WIDTH;
+  const y = (value: number) => HEIGHT - Math.min(1, value / upper) * HEIGHT;
+
+  const paths = series.map(s => {
+    const points = visible
+      .map(sample => ({ time: sample.time, value: s.value(sample) }))
+      .filter((point): point is { time: number; value: number } => point.value !== null);
+    if (points.length === 0) return null;
+
+    const line = points.map((point, i) => `${i === 0 ? 'M' : 'L'}${x(point.time).toFixed(1)},${y(point.value).toFixed(1)}`).join(' ');
+    const area = `${line} L${x(points[points.length - 1].time).toFixed(1)},${HEIGHT} L${x(points[0].time).toFixed(1)},${HEIGHT} Z`;
+    return { line, area };
+  });
+
+  const handleMouseMove = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (visible.length === 0) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const time = start + ((e.clientX - rect.left) / rect.width) * windowMs;
+
+    let closest = 0;
+    for (let i = 1; i < visible.length; i++) {
+      if (Math.abs(visible[i].time - time) < Math.abs(visible[closest].time - time)) closest = i;
+    }
+    setHoverIndex(closest);
+  };
+
+  const hovered = hoverIndex !== null ? visible[hoverIndex] : null;
+  const hoverLeft = hovered ? (x(hovered.time) / WIDTH) * 100 : 0;
+
+  return (
+    <div
+      className="relative mt-3 h-[60px]"
+      onMouseMove={handleMouseMove}
+      onMouseLeave={() => setHoverIndex(null)}
+    >
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} preserveAspectRatio="none" className="w-full h-full overflow-visible">
+        {paths.map((path, index) => path && (
+          <g key={series[index].label}>
+            <path d={path.area} fill={series[index].color} fillOpacity={0.1} />
+            <path
+              d={path.line}
+              fill="none"
+              stroke={series[index].color}
+              strokeWidth={1.5}
+              vectorEffect="non-scaling-stroke"
+            />
+          </g>
+        ))}
+      </svg>
+
+      {visible.length < 2 && (
+        <div className="absolute inset-0 flex items-center justify-center text-xs text-gray-400 dark:text-gray-500">
+          Collecting data...
+        </div>
+      )}
+
+      {hovered && (
+        <>
+          <div
+            className="absolute top-0 bottom-0 w-px bg-gray-300 dark:bg-gray-600 pointer-events-none"
+            style={{ left: `${hoverLeft}%` }}
+          />
+          <div
+            className={`absolute bottom-full mb-2 px-2 py-1.5 text-xs bg-white dark:bg-gray-800 border border-gray-200
+                      dark:border-gray-700 rounded-md shadow-xs whitespace-nowrap pointer-events-none z-10 ${
+              hoverLeft > 50 ? '-translate-x-full' : ''
+            }`}
+            style={{ left: `${hoverLeft}%` }}
+          >
+            <div className="text-gray-500 dark:text-gray-400">{new Date(hovered.time).toLocaleTimeString()}</div>
+            {series.map(s => {
+              const value = s.value(hovered);
+              return (
+                <div key={s.label} className="flex items-center text-gray-900 dark:text-gray-100">
+                  <span className="w-1.5 h-1.5 rounded-full mr-1.5" style={{ backgroundColor: s.color }} />
+                  {s.label}: {value === null ? '-' : format(value)}
+                </div>
+              );
+            })}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ResourceChart;
@@ -0,0 +1,70 @@
+import { useEffect, useState } from 'react';
+import { AlertTriangleIcon, XIcon } from 'lucide-react';
+import { formatIssuePath, subscribeToDiagnostics, ResponseDiagnostic } from '../lib/api';
+
+const MAX_DIAGNOSTICS = 3;
+const MAX_ISSUES = 5;
+
+export default function ResponseDiagnostics() {
+  const [diagnostics, setDiagnostics] = useState<ResponseDiagnostic[]>([]);
+
+  useEffect(() => {
+    return subscribeToDiagnostics((diagnostic) => {
+      setDiagnostics(prev => [
+        diagnostic,
+        // Only keep the latest report per endpoint
+        ...prev.filter(d => d.endpoint !== diagnostic.endpoint)
+      ].slice(0, MAX_DIAGNOSTICS));
+    });
+  }, []);
+
+  const dismiss = (id: string) => {
+    setDiagnostics(prev => prev.filter(d => d.id !== id));
+  };
+
+  if (diagnostics.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 w-96 space-y-2">
+      {diagnostics.map((diagnostic) => (
+        <div
+          key={diagnostic.id}
+          className="bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-900/30 rounded-md shadow-xs p-3"
+        >
+          <div className="flex items-start justify-between">
+            <div className="flex items-center space-x-2">
+              <AlertTriangleIcon className="h-4 w-4 text-amber-700 dark:text-amber-500" />
+              <p className="text-amber-700 dark:text-amber-500 text-xs font-medium">
+                Backend returned unexpected data
+              </p>
+            </div>
+            <button
+              onClick={() => dismiss(diagnostic.id)}
+              className="p-0.5 text-amber-700/70 dark:text-amber-500/70 hover:text-amber-800 dark:hover:text-amber-400"
+            >
+              <XIcon className="h-3.5 w-3.5" />
+            </button>
+          </div>
+          <p className="mt-1 text-[11px] text-amber-700/70 dark:text-amber-500/70 font-mono break-all">
+            {diagnostic.endpoint}
+          </p>
+          <ul className="mt-2 space-y-1">
+            {diagnostic.issues.slice(0, MAX_ISSUES).map((issue, index) => (
+              <li key={index} className="text-[11px] text-amber-800 dark:text-amber-400">
+                <span className="font-mono">{formatIssuePath(issue.path)}</span>: {issue.message}
+              </li>
+            ))}
+          </ul>
+          {diagnostic.issues.length > MAX_ISSUES && (
+            <p className="mt-1 text-[11px] text-amber-700/70 dark:text-amber-500/70">
+              and {diagnostic.issues.length - MAX_ISSUES} more, see the browser console for details
+            </p>
+          )}
+          <p className="mt-2 text-[11px] text-amber-700/70 dark:text-amber-500/70">
+            Your panel and backend versions may be out of sync.
+          </p>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,20 +1,8 @@
 import { useState, useEffect, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { MagnifyingGlassIcon, XMarkIcon } from '@heroicons/react/24/outline';
-
-interface Server {
-  id: string;
-  name: string;
-  node?: {
-    fqdn: string;
-    port: number;
-  };
-  status?: {
-    status?: {
-      state: string;
-    };
-  };
-}
+import { api } from '../lib/api';
+import type { Server } from '../lib/types';
 
 export default function SearchBar() {
   const [isOpen, setIsOpen] = useState(false);
@@ -32,18 +20,7 @@ export default function SearchBar() {
     const fetchServers = async () => {
       try {
         setLoading(true);
-        const token = localStorage.getItem('token');
-        const response = await fetch('/api/servers', {
-          headers: {
-            'Authorization': `Bearer ${token}`
-          }
-        });
-        
-        if (!response.ok) {
-          throw new Error('Failed to fetch servers');
-        }
-        
-        const data = await response.json();
+        const data = await api.servers.list();
         setServers(data);
       } catch (err) {
         console.error('Error fetching servers:', err);
@@ -0,0 +1,46 @@
+import type { PowerAction } from '../lib/krypton';
+import { isRunningState, isStoppedState, PENDING_LABELS } from '../hooks/usePowerState';
+
+interface ServerStatePillProps {
+  state: string | undefined;
+  pending: PowerAction | null;
+  connected: boolean;
+}
+
+const describe = ({ state, pending, connected }: ServerStatePillProps) => {
+  if (pending) {
+    return { label: `${PENDING_LABELS[pending]}...`, text: 'text-yellow-500 dark:text-yellow-400', dot: 'bg-yellow-500 dark:bg-yellow-400 animate-pulse' };
+  }
+
+  // Without a live connection the stored state may be stale
+  if (!connected || !state) {
+    return { label: 'Connecting...', text: 'text-gray-500 dark:text-gray-400', dot: 'bg-gray-500 dark:bg-gray-400 animate-pulse' };
+  }
+
+  if (isRunningState(state)) {
+    return { label: 'Running', text: 'text-green-500 dark:text-green-400', dot: 'bg-green-500 dark:bg-green-400' };
+  }
+
+  if (isStoppedState(state)) {
+    return { label: 'Offline', text: 'text-red-500 dark:text-red-400', dot: 'bg-red-500 dark:bg-red-400' };
+  }
+
+  return {
+    label: state.charAt(0).toUpperCase() + state.slice(1),
+    text: 'text-yellow-500 dark:text-yellow-400',
+    dot: 'bg-yellow-500 dark:bg-yellow-400'
+  };
+};
+
+const ServerStatePill = (props: ServerStatePillProps) => {
+  const { label, text, dot } = describe(props);
+
+  return (
+    <div className={`flex items-center ${text}`}>
+      <div className={`w-2 h-2 rounded-full mr-2 ${dot}`} />
+      <span>{label}</span>
+    </div>
+  );
+};
+
+export default ServerStatePill;
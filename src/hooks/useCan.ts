@@ -0,0 +1,8 @@
+import { useAuth } from '../pages/[auth]/Auth';
+import { hasPermission, Permission } from '../lib/permissions';
+
+// Whether the signed-in user holds `permission`, as reported by /auth/state
+export const useCan = (permission: Permission) => {
+  const { user } = useAuth();
+  return !!user && hasPermission(user.permissions, permission);
+};
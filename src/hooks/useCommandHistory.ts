@@ -0,0 +1,43 @@
+import { useCallback, useEffect, useState } from 'react';
+
+const MAX_HISTORY = 200;
+
+const storageKey = (serverId: string) => `commandHistory:${serverId}`;
+
+const loadHistory = (serverId: string): string[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(storageKey(serverId)) || '[]');
+    return Array.isArray(stored) ? stored.filter((entry): entry is string => typeof entry === 'string') : [];
+  } catch {
+    return [];
+  }
+};
+
+// Commands sent to a server, oldest first, persisted per server in
+// localStorage so they survive reloads.
+export const useCommandHistory = (serverId: string | undefined) => {
+  const [history, setHistory] = useState<string[]>(() => serverId ? loadHistory(serverId) : []);
+
+  useEffect(() => {
+    setHistory(serverId ? loadHistory(serverId) : []);
+  }, [serverId]);
+
+  const push = useCallback((command: string) => {
+    if (!serverId || !command.trim()) return;
+
+    setHistory(prev => {
+      // Like most shells, skip consecutive duplicates
+      if (prev[prev.length - 1] === command) return prev;
+      const next = [...prev, command].slice(-MAX_HISTORY);
+      localStorage.setItem(storageKey(serverId), JSON.stringify(next));
+      return next;
+    });
+  }, [serverId]);
+
+  const clear = useCallback(() => {
+    if (serverId) localStorage.removeItem(storageKey(serverId));
+    setHistory([]);
+  }, [serverId]);
+
+  return { history, push, clear };
+};
@@ -0,0 +1,51 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '../pages/[auth]/Auth';
+
+export interface ConsoleAppearance {
+  fontSize: number;
+  lineHeight: number;
+}
+
+export const FONT_SIZE_OPTIONS = [10, 11, 12, 13, 14, 16, 18, 20];
+export const LINE_HEIGHT_OPTIONS = [1.2, 1.4, 1.6, 1.8, 2];
+
+const DEFAULT_APPEARANCE: ConsoleAppearance = { fontSize: 12, lineHeight: 1.6 };
+
+const storageKey = (username: string | undefined) => `consoleAppearance:${username ?? 'anonymous'}`;
+
+const load = (username: string | undefined): ConsoleAppearance => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(storageKey(username)) || '{}');
+    return {
+      fontSize: FONT_SIZE_OPTIONS.includes(stored.fontSize) ? stored.fontSize : DEFAULT_APPEARANCE.fontSize,
+      lineHeight: LINE_HEIGHT_OPTIONS.includes(stored.lineHeight) ? stored.lineHeight : DEFAULT_APPEARANCE.lineHeight
+    };
+  } catch {
+    return DEFAULT_APPEARANCE;
+  }
+};
+
+// Console font size and line height, remembered per user in localStorage.
+// `rowHeight` is the pixel height of one console line for virtualization.
+export const useConsoleAppearance = () => {
+  const { user } = useAuth();
+  const [appearance, setAppearance] = useState(() => load(user?.username));
+
+  useEffect(() => {
+    setAppearance(load(user?.username));
+  }, [user?.username]);
+
+  const update = useCallback((changes: Partial<ConsoleAppearance>) => {
+    setAppearance(prev => {
+      const next = { ...prev, ...changes };
+      localStorage.setItem(storageKey(user?.username), JSON.stringify(next));
+      return next;
+    });
+  }, [user?.username]);
+
+  return {
+    ...appearance,
+    rowHeight: Math.round(appearance.fontSize * appearance.lineHeight),
+    update
+  };
+};
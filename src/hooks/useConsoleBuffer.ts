@@ -0,0 +1,75 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { RingBuffer } from '../lib/ringBuffer';
+
+export const DEFAULT_SCROLLBACK = 10000;
+export const SCROLLBACK_OPTIONS = [1000, 5000, 10000, 50000];
+
+const SCROLLBACK_STORAGE_KEY = 'consoleScrollback';
+
+export interface ConsoleLine {
+  // Increases for every line ever appended, so it is stable across evictions
+  // and can be used as a React key
+  id: number;
+  text: string;
+}
+
+export const getStoredScrollback = () => {
+  const stored = Number(localStorage.getItem(SCROLLBACK_STORAGE_KEY));
+  return SCROLLBACK_OPTIONS.includes(stored) ? stored : DEFAULT_SCROLLBACK;
+};
+
+export const setStoredScrollback = (capacity: number) => {
+  localStorage.setItem(SCROLLBACK_STORAGE_KEY, String(capacity));
+};
+
+// Console scrollback backed by a ring buffer. Appends are coalesced into one
+// render per animation frame so a burst of output does not re-render the
+// console for every line.
+export const useConsoleBuffer = (capacity = DEFAULT_SCROLLBACK) => {
+  const bufferRef = useRef(new RingBuffer<ConsoleLine>(capacity));
+  const nextIdRef = useRef(0);
+  const frameRef = useRef<number | null>(null);
+  const [version, setVersion] = useState(0);
+
+  const scheduleRender = useCallback(() => {
+    if (frameRef.current !== null) return;
+    frameRef.current = requestAnimationFrame(() => {
+      frameRef.current = null;
+      setVersion(v => v + 1);
+    });
+  }, []);
+
+  useEffect(() => () => {
+    if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+  }, []);
+
+  useEffect(() => {
+    if (bufferRef.current.capacity === capacity) return;
+    bufferRef.current.resize(capacity);
+    scheduleRender();
+  }, [capacity, scheduleRender]);
+
+  const toLines = (texts: string[]) =>
+    texts.map(text => ({ id: nextIdRef.current++, text }));
+
+  const append = useCallback((...texts: string[]) => {
+    bufferRef.current.pushAll(toLines(texts));
+    scheduleRender();
+  }, [scheduleRender]);
+
+  // Swaps the whole scrollback, e.g. for the log history sent on connect
+  const replace = useCallback((texts: string[]) => {
+    bufferRef.current.clear();
+    bufferRef.current.pushAll(toLines(texts));
+    scheduleRender();
+  }, [scheduleRender]);
+
+  const clear = useCallback(() => {
+    bufferRef.current.clear();
+    scheduleRender();
+  }, [scheduleRender]);
+
+  const lines = useMemo(() => bufferRef.current.toArray(), [version]);
+
+  return { lines, append, replace, clear };
+};
@@ -0,0 +1,60 @@
+import React, { useCallback, useEffect, useLayoutEffect, useRef, useState } from 'react';
+import type { ConsoleLine } from './useConsoleBuffer';
+
+// How close to the bottom (in px) still counts as "at the bottom"
+const BOTTOM_THRESHOLD = 24;
+
+const isAtBottom = (element: HTMLElement) =>
+  element.scrollHeight - element.scrollTop - element.clientHeight <= BOTTOM_THRESHOLD;
+
+// Keeps a scroll container following new console output until the user
+// scrolls up, and counts the lines that arrived while they were reading.
+// `pinned` turns following off entirely.
+export const useConsoleFollow = (containerRef: React.RefObject<HTMLElement>, lines: ConsoleLine[]) => {
+  const [pinned, setPinned] = useState(true);
+  const [following, setFollowing] = useState(true);
+  const [newLines, setNewLines] = useState(0);
+  const lastSeenIdRef = useRef(-1);
+
+  const latestId = lines.length > 0 ? lines[lines.length - 1].id : -1;
+
+  const scrollToBottom = useCallback(() => {
+    const container = containerRef.current;
+    if (container) container.scrollTop = container.scrollHeight;
+  }, [containerRef]);
+
+  // Runs before paint so following output never flickers at the old offset
+  useLayoutEffect(() => {
+    if (pinned && following) {
+      scrollToBottom();
+      lastSeenIdRef.current = latestId;
+      setNewLines(0);
+      return;
+    }
+
+    setNewLines(Math.min(lines.length, Math.max(0, latestId - lastSeenIdRef.current)));
+  }, [latestId, lines.length, pinned, following, scrollToBottom]);
+
+  const onScroll = useCallback((e: React.UIEvent<HTMLElement>) => {
+    const atBottom = isAtBottom(e.currentTarget);
+    setFollowing(atBottom);
+    if (atBottom) {
+      lastSeenIdRef.current = latestId;
+      setNewLines(0);
+    }
+  }, [latestId]);
+
+  const jumpToLatest = useCallback(() => {
+    scrollToBottom();
+    lastSeenIdRef.current = latestId;
+    setNewLines(0);
+    setFollowing(true);
+  }, [latestId, scrollToBottom]);
+
+  // Re-pinning should bring the user straight back to the live output
+  useEffect(() => {
+    if (pinned) jumpToLatest();
+  }, [pinned]);
+
+  return { pinned, setPinned, following, newLines, onScroll, jumpToLatest };
+};
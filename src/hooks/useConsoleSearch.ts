@@ -0,0 +1,97 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import type { ConsoleLine } from './useConsoleBuffer';
+import { CONSOLE_ROW_HEIGHT } from '../components/ConsoleOutput';
+import { buildSearchPattern, getLogLevel, lineMatches, LogLevel } from '../lib/consoleSearch';
+
+// Search state for a console: the query, the lines to display (all of them,
+// or only matches in filter mode) and which match is currently selected.
+export const useConsoleSearch = (
+  lines: ConsoleLine[],
+  containerRef: React.RefObject<HTMLElement>,
+  rowHeight = CONSOLE_ROW_HEIGHT
+) => {
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [regex, setRegex] = useState(false);
+  const [caseSensitive, setCaseSensitive] = useState(false);
+  const [filter, setFilter] = useState(false);
+  const [level, setLevel] = useState<LogLevel | null>(null);
+  const [current, setCurrent] = useState(0);
+
+  const { pattern, error } = useMemo(
+    () => buildSearchPattern(open ? query : '', { regex, caseSensitive }),
+    [open, query, regex, caseSensitive]
+  );
+
+  const visibleLines = useMemo(() => {
+    if (!open) return lines;
+    return lines.filter(line =>
+      (!level || getLogLevel(line) === level) &&
+      (!filter || !pattern || lineMatches(line, pattern))
+    );
+  }, [lines, open, level, filter, pattern]);
+
+  // Indexes into `visibleLines` of every matching line
+  const matches = useMemo(() => {
+    if (!pattern) return [];
+    const result: number[] = [];
+    visibleLines.forEach((line, index) => {
+      if (lineMatches(line, pattern)) result.push(index);
+    });
+    return result;
+  }, [visibleLines, pattern]);
+
+  const scrollToLine = useCallback((index: number) => {
+    const container = containerRef.current;
+    if (!container) return;
+    container.scrollTop = index * rowHeight - container.clientHeight / 2;
+  }, [containerRef, rowHeight]);
+
+  // Jump to the newest match whenever the query changes, but not whenever a
+  // new line arrives
+  useEffect(() => {
+    setCurrent(Math.max(0, matches.length - 1));
+    if (matches.length > 0) scrollToLine(matches[matches.length - 1]);
+  }, [pattern]);
+
+  const go = useCallback((step: number) => {
+    if (matches.length === 0) return;
+    const next = (current + step + matches.length) % matches.length;
+    setCurrent(next);
+    scrollToLine(matches[next]);
+  }, [matches, current, scrollToLine]);
+
+  const next = useCallback(() => go(1), [go]);
+  const previous = useCallback(() => go(-1), [go]);
+
+  const close = useCallback(() => {
+    setOpen(false);
+    setLevel(null);
+  }, []);
+
+  return {
+    open,
+    setOpen,
+    close,
+    query,
+    setQuery,
+    regex,
+    setRegex,
+    caseSensitive,
+    setCaseSensitive,
+    filter,
+    setFilter,
+    level,
+    setLevel,
+    pattern,
+    error,
+    visibleLines,
+    matches,
+    current: matches.length > 0 ? Math.min(current, matches.length - 1) : -1,
+    activeLineId: matches.length > 0 ? visibleLines[matches[Math.min(current, matches.length - 1)]]?.id ?? null : null,
+    next,
+    previous
+  };
+};
+
+export type ConsoleSearch = ReturnType<typeof useConsoleSearch>;
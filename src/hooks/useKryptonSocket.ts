@@ -0,0 +1,185 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  createServerClient,
+  parseServerEvent,
+  sendEvent,
+  KryptonClientEvent,
+  KryptonServer,
+  KryptonServerEvent
+} from '../lib/krypton';
+
+export type ConnectionStatus = 'idle' | 'connecting' | 'connected' | 'reconnecting' | 'offline' | 'failed';
+
+interface KryptonSocketOptions {
+  onEvent: (event: KryptonServerEvent) => void;
+  maxAttempts?: number;
+  baseDelay?: number;
+  maxDelay?: number;
+}
+
+export interface KryptonSocket {
+  status: ConnectionStatus;
+  attempt: number;
+  // Timestamp of the next scheduled reconnect while `status` is 'reconnecting'
+  retryAt: number | null;
+  send: (message: KryptonClientEvent) => boolean;
+  reconnectNow: () => void;
+}
+
+// Exponential backoff with "equal jitter": half of the delay is fixed and the
+// other half random, so clients that dropped together do not retry together.
+const backoffDelay = (attempt: number, baseDelay: number, maxDelay: number) => {
+  const delay = Math.min(maxDelay, baseDelay * 2 ** attempt);
+  return delay / 2 + Math.random() * (delay / 2);
+};
+
+// Keeps a single websocket open to Krypton for `server`, reconnecting with
+// backoff when it drops. Pass `null` while the server is still loading.
+export const useKryptonSocket = (
+  server: KryptonServer | null,
+  { onEvent, maxAttempts = 10, baseDelay = 1000, maxDelay = 30000 }: KryptonSocketOptions
+): KryptonSocket => {
+  const [status, setStatus] = useState<ConnectionStatus>('idle');
+  const [attempt, setAttempt] = useState(0);
+  const [retryAt, setRetryAt] = useState<number | null>(null);
+
+  const socketRef = useRef<WebSocket | null>(null);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const attemptRef = useRef(0);
+  const onEventRef = useRef(onEvent);
+  const connectRef = useRef<() => void>(() => {});
+
+  onEventRef.current = onEvent;
+
+  // Only reconnect when the connection details change, not whenever the
+  // caller hands us a new server object
+  const url = server ? createServerClient(server).socketUrl() : null;
+
+  const clearTimer = () => {
+    if (timerRef.current) {
+      clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+  };
+
+  // Detach handlers before closing so the old socket cannot schedule a
+  // reconnect of its own
+  const closeSocket = () => {
+    const socket = socketRef.current;
+    if (!socket) return;
+    socketRef.current = null;
+    socket.onopen = socket.onmessage = socket.onclose = socket.onerror = null;
+    socket.close();
+  };
+
+  useEffect(() => {
+    if (!url) {
+      setStatus('idle');
+      return;
+    }
+
+    const scheduleReconnect = () => {
+      if (!navigator.onLine) {
+        setStatus('offline');
+        setRetryAt(null);
+        return;
+      }
+
+      if (attemptRef.current >= maxAttempts) {
+        setStatus('failed');
+        setRetryAt(null);
+        return;
+      }
+
+      const delay = backoffDelay(attemptRef.current, baseDelay, maxDelay);
+      attemptRef.current += 1;
+      setAttempt(attemptRef.current);
+      setRetryAt(Date.now() + delay);
+      setStatus('reconnecting');
+      timerRef.current = setTimeout(connect, delay);
+    };
+
+    const connect = () => {
+      clearTimer();
+      closeSocket();
+      setRetryAt(null);
+
+      if (!navigator.onLine) {
+        setStatus('offline');
+        return;
+      }
+
+      setStatus('connecting');
+      const socket = new WebSocket(url);
+      socketRef.current = socket;
+
+      socket.onopen = () => {
+        attemptRef.current = 0;
+        setAttempt(0);
+        setStatus('connected');
+      };
+
+      socket.onmessage = (event) => {
+        try {
+          onEventRef.current(parseServerEvent(event.data));
+        } catch (err) {
+          console.error('Failed to handle Krypton event:', err);
+        }
+      };
+
+      socket.onclose = () => {
+        socketRef.current = null;
+        scheduleReconnect();
+      };
+
+      socket.onerror = (error) => {
+        console.error('WebSocket error:', error);
+      };
+    };
+
+    const handleOnline = () => {
+      attemptRef.current = 0;
+      setAttempt(0);
+      connect();
+    };
+
+    const handleOffline = () => {
+      clearTimer();
+      closeSocket();
+      setRetryAt(null);
+      setStatus('offline');
+    };
+
+    connectRef.current = () => {
+      attemptRef.current = 0;
+      setAttempt(0);
+      connect();
+    };
+
+    attemptRef.current = 0;
+    setAttempt(0);
+    connect();
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+      connectRef.current = () => {};
+      clearTimer();
+      closeSocket();
+    };
+  }, [url, maxAttempts, baseDelay, maxDelay]);
+
+  const send = useCallback((message: KryptonClientEvent) => {
+    const socket = socketRef.current;
+    if (!socket || socket.readyState !== WebSocket.OPEN) return false;
+    sendEvent(socket, message);
+    return true;
+  }, []);
+
+  const reconnectNow = useCallback(() => connectRef.current(), []);
+
+  return { status, attempt, retryAt, send, reconnectNow };
+};
@@ -0,0 +1,91 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { ConsoleLine } from './useConsoleBuffer';
+import type { KryptonServerEvent } from '../lib/krypton';
+import type { KryptonSocket } from './useKryptonSocket';
+
+const PAGE_SIZE = 500;
+const REQUEST_TIMEOUT = 15000;
+
+// Pages backwards through a server's older log output over the console
+// websocket. Krypton answers every `request_log_history` with a
+// `log_history` event, which the console forwards to `handleEvent`.
+export const useLogHistory = (send: KryptonSocket['send']) => {
+  const [lines, setLines] = useState<ConsoleLine[]>([]);
+  // undefined until the first page arrives, null once there is nothing older
+  const [cursor, setCursor] = useState<string | null | undefined>(undefined);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadingRef = useRef(false);
+  const timeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Older pages are prepended, so ids count down to stay unique
+  const nextIdRef = useRef(-1);
+
+  const clearRequestTimeout = () => {
+    if (timeoutRef.current) {
+      clearTimeout(timeoutRef.current);
+      timeoutRef.current = null;
+    }
+  };
+
+  useEffect(() => clearRequestTimeout, []);
+
+  const loadOlder = useCallback(() => {
+    if (loadingRef.current || cursor === null) return;
+
+    setError(null);
+    if (!send({ event: 'request_log_history', data: { before: cursor, limit: PAGE_SIZE } })) {
+      setError('Not connected to the server');
+      return;
+    }
+
+    loadingRef.current = true;
+    setLoading(true);
+    timeoutRef.current = setTimeout(() => {
+      loadingRef.current = false;
+      setLoading(false);
+      setError('The node did not respond. It may be running a Krypton version without log history.');
+    }, REQUEST_TIMEOUT);
+  }, [send, cursor]);
+
+  const handleEvent = useCallback((message: KryptonServerEvent) => {
+    if (message.event !== 'log_history') return false;
+
+    clearRequestTimeout();
+    loadingRef.current = false;
+    setLoading(false);
+
+    const logs = message.data.logs ?? [];
+    const page: ConsoleLine[] = new Array(logs.length);
+    for (let i = logs.length - 1; i >= 0; i--) {
+      page[i] = { id: nextIdRef.current--, text: logs[i] };
+    }
+
+    setLines(prev => [...page, ...prev]);
+    setCursor(message.data.cursor ?? null);
+    return true;
+  }, []);
+
+  const reset = useCallback(() => {
+    clearRequestTimeout();
+    loadingRef.current = false;
+    nextIdRef.current = -1;
+    setLines([]);
+    setCursor(undefined);
+    setLoading(false);
+    setError(null);
+  }, []);
+
+  return {
+    lines,
+    loading,
+    error,
+    hasMore: cursor !== null,
+    loaded: cursor !== undefined,
+    loadOlder,
+    handleEvent,
+    reset
+  };
+};
+
+export type LogHistory = ReturnType<typeof useLogHistory>;
@@ -0,0 +1,114 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { KryptonServerEvent, PowerAction } from '../lib/krypton';
+import type { KryptonSocket } from './useKryptonSocket';
+
+// How long each action may take before it is considered lost
+const ACTION_TIMEOUTS: Record<PowerAction, number> = {
+  start: 60000,
+  stop: 60000,
+  restart: 120000,
+  kill: 15000
+};
+
+// Offer to kill a server that has not stopped after this long
+const KILL_AFTER = 15000;
+
+const STOPPED_STATES = ['stopped', 'exited', 'offline', 'installed', 'dead'];
+
+export const isRunningState = (state: string | undefined) => state?.toLowerCase() === 'running';
+export const isStoppedState = (state: string | undefined) => STOPPED_STATES.includes(state?.toLowerCase() ?? '');
+
+export const PENDING_LABELS: Record<PowerAction, string> = {
+  start: 'Starting',
+  stop: 'Stopping',
+  restart: 'Restarting',
+  kill: 'Killing'
+};
+
+interface PendingAction {
+  action: PowerAction;
+  startedAt: number;
+  // Restarts are only done once the server has been seen leaving the running
+  // state (stopping, stopped or starting) and is running again
+  sawTransition: boolean;
+}
+
+// Tracks a power action from the moment it is sent until the server reaches
+// the state it asked for, the daemon reports an error, or it times out.
+export const usePowerState = (state: string | undefined, send: KryptonSocket['send']) => {
+  const [pending, setPending] = useState<PendingAction | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [killAvailable, setKillAvailable] = useState(false);
+  const pendingRef = useRef(pending);
+  pendingRef.current = pending;
+
+  // Resolve the pending action from state changes
+  useEffect(() => {
+    if (!pending) return;
+
+    const running = isRunningState(state);
+    const stopped = isStoppedState(state);
+
+    if (pending.action === 'start' && running) {
+      setPending(null);
+    } else if ((pending.action === 'stop' || pending.action === 'kill') && stopped) {
+      setPending(null);
+    } else if (pending.action === 'restart') {
+      if (!running && !pending.sawTransition) {
+        setPending({ ...pending, sawTransition: true });
+      } else if (running && pending.sawTransition) {
+        setPending(null);
+      }
+    }
+  }, [state, pending]);
+
+  // Per-action timeout, and the kill offer for slow stops
+  useEffect(() => {
+    setKillAvailable(false);
+    if (!pending) return;
+
+    const elapsed = Date.now() - pending.startedAt;
+    const timeout = setTimeout(() => {
+      setPending(null);
+      setError(`The server did not finish ${PENDING_LABELS[pending.action].toLowerCase()} in time. Check the console for details.`);
+    }, ACTION_TIMEOUTS[pending.action] - elapsed);
+
+    const killTimer = pending.action === 'stop' || pending.action === 'restart'
+      ? setTimeout(() => setKillAvailable(true), KILL_AFTER - elapsed)
+      : null;
+
+    return () => {
+      clearTimeout(timeout);
+      if (killTimer) clearTimeout(killTimer);
+    };
+  }, [pending?.action, pending?.startedAt]);
+
+  const run = useCallback((action: PowerAction) => {
+    // Killing is allowed to interrupt a stop or restart; anything else waits
+    if (pendingRef.current && action !== 'kill') return false;
+
+    setError(null);
+    if (!send({ event: 'power_action', data: { action } })) {
+      setError(`Failed to ${action} server: not connected`);
+      return false;
+    }
+
+    setPending({ action, startedAt: Date.now(), sawTransition: false });
+    return true;
+  }, [send]);
+
+  // Fed every websocket event by the console. `power_status` only echoes
+  // the request, so progress is judged from state changes alone.
+  const handleEvent = useCallback((message: KryptonServerEvent) => {
+    if (pendingRef.current && message.event === 'error') setPending(null);
+  }, []);
+
+  return {
+    pending: pending?.action ?? null,
+    killAvailable,
+    error,
+    clearError: () => setError(null),
+    run,
+    handleEvent
+  };
+};
@@ -0,0 +1,15 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import { getStats, subscribeToStats } from '../lib/statsStore';
+
+const NO_SAMPLES: never[] = [];
+
+// Stats history for a server from the shared stats store
+export const useServerStats = (serverId: string | undefined) => {
+  const subscribe = useCallback(
+    (listener: () => void) => serverId ? subscribeToStats(serverId, listener) : () => {},
+    [serverId]
+  );
+  const getSnapshot = useCallback(() => serverId ? getStats(serverId) : NO_SAMPLES, [serverId]);
+
+  return useSyncExternalStore(subscribe, getSnapshot);
+};
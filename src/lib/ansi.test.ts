@@ -0,0 +1,186 @@
+import { describe, expect, it } from 'vitest';
+import { applySgr, parseAnsi, stripAnsi, AnsiState } from './ansi';
+
+const ESC = '\u001b';
+
+const DEFAULT_STATE: AnsiState = {
+  bold: false,
+  dim: false,
+  italic: false,
+  underline: false,
+  strikethrough: false,
+  inverse: false,
+  hidden: false,
+  foreground: null,
+  background: null
+};
+
+const style = (overrides: Partial<AnsiState>): AnsiState => ({ ...DEFAULT_STATE, ...overrides });
+
+describe('parseAnsi', () => {
+  it('returns plain text as a single unstyled span', () => {
+    expect(parseAnsi('hello world')).toEqual([{ text: 'hello world', state: DEFAULT_STATE }]);
+  });
+
+  describe('SGR', () => {
+    it('resets every attribute with 0 or an empty parameter list', () => {
+      expect(parseAnsi(`${ESC}[1;31mred${ESC}[0m plain${ESC}[4mu${ESC}[m end`)).toEqual([
+        { text: 'red', state: style({ bold: true, foreground: { type: 'palette', index: 1 } }) },
+        { text: ' plain', state: DEFAULT_STATE },
+        { text: 'u', state: style({ underline: true }) },
+        { text: ' end', state: DEFAULT_STATE }
+      ]);
+    });
+
+    it('combines attributes across and within sequences', () => {
+      const [span] = parseAnsi(`${ESC}[1;3m${ESC}[4;9;7;42;93mx`);
+      expect(span.state).toEqual(style({
+        bold: true,
+        italic: true,
+        underline: true,
+        strikethrough: true,
+        inverse: true,
+        foreground: { type: 'palette', index: 11 },
+        background: { type: 'palette', index: 2 }
+      }));
+    });
+
+    it('turns single attributes off without touching the rest', () => {
+      const state = applySgr(applySgr(DEFAULT_STATE, '1;2;3;4;31;44'), '22;24;39');
+      expect(state).toEqual(style({ italic: true, background: { type: 'palette', index: 4 } }));
+    });
+
+    it('reads 256-color foregrounds and backgrounds', () => {
+      expect(applySgr(DEFAULT_STATE, '38;5;208;48;5;17')).toEqual(style({
+        foreground: { type: 'palette', index: 208 },
+        background: { type: 'palette', index: 17 }
+      }));
+    });
+
+    it('reads truecolor foregrounds and backgrounds', () => {
+      expect(applySgr(DEFAULT_STATE, '38;2;255;128;0;48;2;10;20;30')).toEqual(style({
+        foreground: { type: 'rgb', r: 255, g: 128, b: 0 },
+        background: { type: 'rgb', r: 10, g: 20, b: 30 }
+      }));
+    });
+
+    it('keeps reading parameters after an extended color', () => {
+      expect(applySgr(DEFAULT_STATE, '38;5;99;1')).toEqual(style({
+        bold: true,
+        foreground: { type: 'palette', index: 99 }
+      }));
+      expect(applySgr(DEFAULT_STATE, '48;2;1;2;3;4')).toEqual(style({
+        underline: true,
+        background: { type: 'rgb', r: 1, g: 2, b: 3 }
+      }));
+    });
+
+    it('reads colon separated extended colors', () => {
+      expect(applySgr(DEFAULT_STATE, '38:2::1:2:3;48:5:200')).toEqual(style({
+        foreground: { type: 'rgb', r: 1, g: 2, b: 3 },
+        background: { type: 'palette', index: 200 }
+      }));
+    });
+
+    it('clamps out of range color components', () => {
+      expect(applySgr(DEFAULT_STATE, '38;2;300;-5;40').foreground).toEqual({ type: 'rgb', r: 255, g: 0, b: 40 });
+    });
+
+    it('clears an extended color whose parameters are missing', () => {
+      const red = applySgr(DEFAULT_STATE, '31');
+      expect(applySgr(red, '38;2;1;2').foreground).toBeNull();
+      expect(applySgr(red, '38;5').foreground).toBeNull();
+    });
+  });
+
+  describe('carriage return', () => {
+    it('overwrites the line from the start', () => {
+      expect(stripAnsi('Loading 10%\rLoading 100%')).toBe('Loading 100%');
+    });
+
+    it('keeps characters past the overwritten part', () => {
+      expect(stripAnsi('abcdef\rXY')).toBe('XYcdef');
+    });
+
+    it('only ends the line when trailing', () => {
+      expect(stripAnsi('done\r')).toBe('done');
+      expect(stripAnsi('done\r\n')).toBe('done\n');
+    });
+
+    it('keeps the style of each overwritten cell', () => {
+      expect(parseAnsi(`${ESC}[31mabc${ESC}[0m\rX`)).toEqual([
+        { text: 'X', state: DEFAULT_STATE },
+        { text: 'bc', state: style({ foreground: { type: 'palette', index: 1 } }) }
+      ]);
+    });
+  });
+
+  describe('cursor movement', () => {
+    it('moves to a column and pads the gap with blanks', () => {
+      expect(stripAnsi(`ab${ESC}[5Gx${ESC}[2Dy`)).toBe('ab yx');
+    });
+
+    it('limits how far the cursor can be moved', () => {
+      expect(stripAnsi(`${ESC}[999999999Gx`)).toBe(`${' '.repeat(1024)}x`);
+      expect(stripAnsi(`ab${ESC}[999999999Cx`)).toBe(`ab${' '.repeat(1022)}x`);
+    });
+  });
+
+  describe('erase in line', () => {
+    it('clears from the cursor to the end by default', () => {
+      expect(stripAnsi(`progress 50%\r${ESC}[Kdone`)).toBe('done');
+      expect(stripAnsi(`abcdef${ESC}[3D${ESC}[0K`)).toBe('abc');
+    });
+
+    it('clears from the start to the cursor with 1', () => {
+      expect(stripAnsi(`abcdef${ESC}[3D${ESC}[1K`)).toBe('    ef');
+    });
+
+    it('clears the whole line with 2', () => {
+      expect(stripAnsi(`abcdef${ESC}[2Kxy`)).toBe('      xy');
+      expect(stripAnsi(`abcdef${ESC}[2K\rxy`)).toBe('xy');
+    });
+  });
+
+  describe('non-printing sequences', () => {
+    it('strips OSC strings terminated by BEL or ST', () => {
+      expect(stripAnsi(`${ESC}]0;window title\u0007text`)).toBe('text');
+      expect(stripAnsi(`${ESC}]8;;https://example.com${ESC}\\link${ESC}]8;;${ESC}\\`)).toBe('link');
+    });
+
+    it('strips character set designations', () => {
+      expect(stripAnsi(`${ESC}(Bhello${ESC})0 world`)).toBe('hello world');
+    });
+
+    it('ignores private mode sequences and unsupported CSI finals', () => {
+      expect(stripAnsi(`${ESC}[?25lhi${ESC}[?25h${ESC}[2J${ESC}[1;1H`)).toBe('hi');
+    });
+
+    it('drops control characters other than tabs and newlines', () => {
+      expect(parseAnsi('a\u0000b\u0007c\td\u007f')).toEqual([{ text: 'abc\td', state: DEFAULT_STATE }]);
+    });
+  });
+
+  describe('incomplete sequences', () => {
+    it('drops a sequence cut off at the end of the input', () => {
+      expect(stripAnsi(`text${ESC}`)).toBe('text');
+      expect(stripAnsi(`text${ESC}[`)).toBe('text');
+      expect(stripAnsi(`text${ESC}[38;5`)).toBe('text');
+      expect(stripAnsi(`text${ESC}(`)).toBe('text');
+    });
+
+    it('drops an unterminated OSC string to the end of the input', () => {
+      expect(stripAnsi(`text${ESC}]0;title without end`)).toBe('text');
+    });
+
+    it('does not apply a CSI sequence interrupted by another byte', () => {
+      expect(parseAnsi(`${ESC}[31\nred`)).toEqual([{ text: '\nred', state: DEFAULT_STATE }]);
+    });
+
+    it('keeps the style of a sequence completed before the cut', () => {
+      expect(parseAnsi(`${ESC}[32mok${ESC}[0`)).toEqual([
+        { text: 'ok', state: style({ foreground: { type: 'palette', index: 2 } }) }
+      ]);
+    });
+  });
+});
@@ -0,0 +1,317 @@
+// ANSI/VT escape sequence interpreter for a single line of console output.
+//
+// The line is replayed onto a row of cells the way a terminal would: text is
+// written at the cursor, `\r`, backspace and cursor movement reposition it,
+// and erase-in-line clears cells, so progress bars that redraw themselves
+// end up showing only their final state. SGR sequences update the current
+// style; every other escape sequence is interpreted or dropped, never printed.
+
+export type AnsiColor =
+  | { type: 'palette'; index: number }
+  | { type: 'rgb'; r: number; g: number; b: number };
+
+export interface AnsiState {
+  bold: boolean;
+  dim: boolean;
+  italic: boolean;
+  underline: boolean;
+  strikethrough: boolean;
+  inverse: boolean;
+  hidden: boolean;
+  foreground: AnsiColor | null;
+  background: AnsiColor | null;
+}
+
+export interface AnsiSpan {
+  text: string;
+  state: AnsiState;
+}
+
+const DEFAULT_STATE: AnsiState = {
+  bold: false,
+  dim: false,
+  italic: false,
+  underline: false,
+  strikethrough: false,
+  inverse: false,
+  hidden: false,
+  foreground: null,
+  background: null
+};
+
+const ESC = '\u001b';
+const BEL = '\u0007';
+
+// Furthest column cursor movement can reach. Padding up to the cursor is
+// allocated cell by cell, so `ESC[999999999G` must not be taken literally.
+const MAX_LINE_WIDTH = 1024;
+
+const clampByte = (value: number) => Math.max(0, Math.min(255, value || 0));
+
+// Reads an extended color (`5;n` or `2;r;g;b`) starting at `params[index]`,
+// returning the color and how many params it consumed.
+const readExtendedColor = (params: number[], index: number): [AnsiColor | null, number] => {
+  const mode = params[index];
+
+  if (mode === 5) {
+    const value = params[index + 1];
+    return [value === undefined ? null : { type: 'palette', index: clampByte(value) }, 2];
+  }
+
+  if (mode === 2) {
+    const [r, g, b] = params.slice(index + 1, index + 4);
+    if (b === undefined) return [null, params.length - index];
+    return [{ type: 'rgb', r: clampByte(r), g: clampByte(g), b: clampByte(b) }, 4];
+  }
+
+  return [null, 1];
+};
+
+// Parses colon separated sub-parameters (`38:2::r:g:b` or `38:5:n`)
+const readColonColor = (param: string): AnsiColor | null => {
+  const parts = param.split(':').map(part => part === '' ? NaN : Number(part));
+
+  if (parts[1] === 5) {
+    return { type: 'palette', index: clampByte(parts[2]) };
+  }
+
+  if (parts[1] === 2) {
+    // An optional color space id may precede the components
+    const components = parts.length >= 6 ? parts.slice(3, 6) : parts.slice(2, 5);
+    return { type: 'rgb', r: clampByte(components[0]), g: clampByte(components[1]), b: clampByte(components[2]) };
+  }
+
+  return null;
+};
+
+export const applySgr = (state: AnsiState, rawParams: string): AnsiState => {
+  const next = { ...state };
+  const rawList = rawParams === '' ? ['0'] : rawParams.split(';');
+
+  for (let i = 0; i < rawList.length; i++) {
+    const raw = rawList[i];
+
+    if (raw.includes(':')) {
+      const code = Number(raw.split(':')[0]);
+      if (code === 38) next.foreground = readColonColor(raw);
+      else if (code === 48) next.background = readColonColor(raw);
+      else if (code === 4) next.underline = !raw.endsWith(':0');
+      continue;
+    }
+
+    const code = raw === '' ? 0 : Number(raw);
+
+    if (code === 0) {
+      Object.assign(next, DEFAULT_STATE);
+    } else if (code === 1) {
+      next.bold = true;
+    } else if (code === 2) {
+      next.dim = true;
+    } else if (code === 3) {
+      next.italic = true;
+    } else if (code === 4 || code === 21) {
+      next.underline = true;
+    } else if (code === 7) {
+      next.inverse = true;
+    } else if (code === 8) {
+      next.hidden = true;
+    } else if (code === 9) {
+      next.strikethrough = true;
+    } else if (code === 22) {
+      next.bold = false;
+      next.dim = false;
+    } else if (code === 23) {
+      next.italic = false;
+    } else if (code === 24) {
+      next.underline = false;
+    } else if (code === 27) {
+      next.inverse = false;
+    } else if (code === 28) {
+      next.hidden = false;
+    } else if (code === 29) {
+      next.strikethrough = false;
+    } else if (code >= 30 && code <= 37) {
+      next.foreground = { type: 'palette', index: code - 30 };
+    } else if (code === 38 || code === 48) {
+      const params = rawList.slice(i + 1).map(Number);
+      const [color, consumed] = readExtendedColor(params, 0);
+      if (code === 38) next.foreground = color;
+      else next.background = color;
+      i += consumed;
+    } else if (code === 39) {
+      next.foreground = null;
+    } else if (code >= 40 && code <= 47) {
+      next.background = { type: 'palette', index: code - 40 };
+    } else if (code === 49) {
+      next.background = null;
+    } else if (code >= 90 && code <= 97) {
+      next.foreground = { type: 'palette', index: code - 90 + 8 };
+    } else if (code >= 100 && code <= 107) {
+      next.background = { type: 'palette', index: code - 100 + 8 };
+    }
+  }
+
+  return next;
+};
+
+interface Cell {
+  char: string;
+  state: AnsiState;
+}
+
+// Index of the character following the escape sequence that starts at
+// `start` (which points at ESC), plus the CSI parts when it is one.
+const scanEscape = (input: string, start: number): { end: number; csi?: { params: string; final: string } } => {
+  const type = input[start + 1];
+
+  if (type === '[') {
+    let position = start + 2;
+    // Parameter bytes 0x30-0x3F, then intermediate bytes 0x20-0x2F
+    while (position < input.length && /[0-?]/.test(input[position])) position++;
+    const params = input.slice(start + 2, position);
+    while (position < input.length && /[ -/]/.test(input[position])) position++;
+    const final = input[position];
+    if (final === undefined || !/[@-~]/.test(final)) return { end: position };
+    return { end: position + 1, csi: { params, final } };
+  }
+
+  if (type === ']' || type === 'P' || type === '_' || type === '^' || type === 'X') {
+    // OSC/DCS/APC/PM/SOS strings end with BEL or ST (ESC \)
+    for (let position = start + 2; position < input.length; position++) {
+      if (input[position] === BEL) return { end: position + 1 };
+      if (input[position] === ESC && input[position + 1] === '\\') return { end: position + 2 };
+    }
+    return { end: input.length };
+  }
+
+  if (type === '(' || type === ')' || type === '*' || type === '+' || type === '#' || type === '%') {
+    // Character set designation takes one more byte
+    return { end: Math.min(input.length, start + 3) };
+  }
+
+  return { end: Math.min(input.length, start + 2) };
+};
+
+const firstParam = (params: string, fallback: number) => {
+  const value = parseInt(params.split(';')[0], 10);
+  return Number.isNaN(value) ? fallback : value;
+};
+
+export const parseAnsi = (input: string): AnsiSpan[] => {
+  const cells: Cell[] = [];
+  let cursor = 0;
+  let state = DEFAULT_STATE;
+
+  const write = (char: string) => {
+    // Moving the cursor past the end pads with blanks, like a terminal
+    while (cells.length < cursor) cells.push({ char: ' ', state: DEFAULT_STATE });
+    cells[cursor] = { char, state };
+    cursor++;
+  };
+
+  let position = 0;
+  while (position < input.length) {
+    const char = input[position];
+
+    if (char === ESC) {
+      const { end, csi } = scanEscape(input, position);
+      position = end;
+      if (!csi) continue;
+
+      const { params, final } = csi;
+      // Private sequences such as `ESC[?25l` (hide cursor) have no visible effect
+      if (params.startsWith('?') || params.startsWith('>') || params.startsWith('<') || params.startsWith('=')) continue;
+
+      switch (final) {
+        case 'm':
+          state = applySgr(state, params);
+          break;
+        case 'K': {
+          const mode = firstParam(params, 0);
+          if (mode === 0) {
+            cells.length = Math.min(cells.length, cursor);
+          } else if (mode === 1) {
+            for (let i = 0; i <= cursor && i < cells.length; i++) cells[i] = { char: ' ', state: DEFAULT_STATE };
+          } else if (mode === 2) {
+            cells.length = 0;
+          }
+          break;
+        }
+        case 'G':
+          cursor = Math.min(Math.max(0, firstParam(params, 1) - 1), MAX_LINE_WIDTH);
+          break;
+        case 'C':
+          // Text may already have taken the cursor past the limit; never move it back
+          cursor = Math.max(cursor, Math.min(cursor + Math.max(1, firstParam(params, 1)), MAX_LINE_WIDTH));
+          break;
+        case 'D':
+          cursor = Math.max(0, cursor - Math.max(1, firstParam(params, 1)));
+          break;
+        // Everything else (vertical movement, erase display, scrolling...)
+        // has no meaning within a single line and is dropped
+      }
+      continue;
+    }
+
+    if (char === '\r') {
+      // A trailing `\r` (or `\r\n`) only ends the line
+      const nextChar = input[position + 1];
+      if (nextChar !== undefined && nextChar !== '\n') cursor = 0;
+      position++;
+      continue;
+    }
+
+    if (char === '\b') {
+      cursor = Math.max(0, cursor - 1);
+      position++;
+      continue;
+    }
+
+    // Drop any other C0 control character, keeping tabs and newlines
+    if (char < ' ' && char !== '\t' && char !== '\n') {
+      position++;
+      continue;
+    }
+
+    if (char === '\u007f') {
+      position++;
+      continue;
+    }
+
+    write(char);
+    position++;
+  }
+
+  // Merge neighbouring cells that share a style into spans
+  const spans: AnsiSpan[] = [];
+  for (const cell of cells) {
+    const last = spans[spans.length - 1];
+    if (last && last.state === cell.state) {
+      last.text += cell.char;
+    } else {
+      spans.push({ text: cell.char, state: cell.state });
+    }
+  }
+
+  return spans;
+};
+
+// Text as it would appear on screen, with every escape sequence applied
+export const stripAnsi = (text: string) =>
+  text.includes(ESC) || text.includes('\r') || text.includes('\b')
+    ? parseAnsi(text).map(span => span.text).join('')
+    : text;
+
+// Colors 16-255 of the xterm palette: a 6x6x6 color cube then a grayscale ramp
+export const paletteToRgb = (index: number): [number, number, number] | null => {
+  if (index < 16) return null;
+
+  if (index < 232) {
+    const value = index - 16;
+    const level = (n: number) => n === 0 ? 0 : 55 + n * 40;
+    return [level(Math.floor(value / 36)), level(Math.floor(value / 6) % 6), level(value % 6)];
+  }
+
+  const gray = 8 + (index - 232) * 10;
+  return [gray, gray, gray];
+};
@@ -0,0 +1,317 @@
+import { z } from 'zod';
+import {
+  authStateSchema,
+  authTokenSchema,
+  loginResponseSchema,
+  nodeSchema,
+  panelSettingsSchema,
+  permissionSchema,
+  recoveryCodesSchema,
+  roleSchema,
+  scheduleSchema,
+  serverSchema,
+  subuserSchema,
+  twoFactorSetupSchema,
+  unitSchema,
+  userSchema
+} from './schemas';
+import type {
+  AllocationInput,
+  NodeInput,
+  PanelSettings,
+  RoleInput,
+  ScheduleInput,
+  ServerInput,
+  StartupInput,
+  SubuserInput,
+  UnitInput,
+  UserInput
+} from './types';
+import { getToken } from './session';
+
+export interface ApiIssue {
+  path?: (string | number)[];
+  message: string;
+}
+
+// Shape of one entry in an `error` array; anything else is reported as text
+const apiIssueSchema = z.object({
+  path: z.array(z.union([z.string(), z.number()])).optional().catch(undefined),
+  message: z.string()
+});
+
+// Every failed request is surfaced as an ApiError. Validation failures from
+// the backend come back as an array of zod issues, which are kept on `issues`
+// and joined into `message` so callers can simply display it.
+export class ApiError extends Error {
+  status: number;
+  issues: ApiIssue[];
+  data: unknown;
+
+  constructor(message: string, status: number, issues: ApiIssue[] = [], data: unknown = null) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.issues = issues;
+    this.data = data;
+  }
+}
+
+// Thrown when a response does not match its schema. The backend and panel are
+// versioned separately, so this is reported to the diagnostics panel as well
+// as to the caller.
+export class ResponseValidationError extends Error {
+  endpoint: string;
+  issues: z.ZodIssue[];
+
+  constructor(endpoint: string, issues: z.ZodIssue[]) {
+    super(`Backend returned unexpected data for ${endpoint}`);
+    this.name = 'ResponseValidationError';
+    this.endpoint = endpoint;
+    this.issues = issues;
+  }
+}
+
+export interface ResponseDiagnostic {
+  id: string;
+  endpoint: string;
+  issues: z.ZodIssue[];
+  receivedAt: number;
+}
+
+export type Include = 'node' | 'unit' | 'user' | 'status' | 'allocation';
+
+interface RequestOptions<T> {
+  method?: 'GET' | 'POST' | 'PATCH' | 'PUT' | 'DELETE';
+  body?: unknown;
+  fallbackError?: string;
+  schema?: z.ZodType<T, z.ZodTypeDef, unknown>;
+}
+
+let unauthorizedHandler: (() => void) | null = null;
+
+// Registered by AuthProvider so an expired or revoked token ends the session
+// no matter which page made the request.
+export const setUnauthorizedHandler = (handler: (() => void) | null) => {
+  unauthorizedHandler = handler;
+};
+
+const diagnosticListeners = new Set<(diagnostic: ResponseDiagnostic) => void>();
+
+export const subscribeToDiagnostics = (listener: (diagnostic: ResponseDiagnostic) => void) => {
+  diagnosticListeners.add(listener);
+  return () => {
+    diagnosticListeners.delete(listener);
+  };
+};
+
+// Validates `data` against `schema`, reporting any mismatch to the
+// diagnostics panel before throwing. Also used for payloads that do not come
+// through `request`, such as Krypton responses.
+export const parseResponse = <T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, data: unknown, endpoint: string): T => {
+  const result = schema.safeParse(data);
+  if (result.success) return result.data;
+
+  const diagnostic: ResponseDiagnostic = {
+    id: `${Date.now()}-${Math.random().toString(36).slice(2)}`,
+    endpoint,
+    issues: result.error.issues,
+    receivedAt: Date.now()
+  };
+  console.error(`Unexpected response from ${endpoint}:`, result.error.issues);
+  diagnosticListeners.forEach(listener => listener(diagnostic));
+
+  throw new ResponseValidationError(endpoint, result.error.issues);
+};
+
+export const formatIssuePath = (path: (string | number)[]) =>
+  path.reduce<string>((acc, key) => typeof key === 'number' ? `${acc}[${key}]` : acc ? `${acc}.${key}` : key, '') || '(root)';
+
+export const getErrorMessage = (err: unknown, fallback = 'An error occurred') =>
+  err instanceof Error ? err.message : fallback;
+
+const includeQuery = (include?: Include[]) =>
+  include?.length ? `?${include.map(key => `include[${key}]=true`).join('&')}` : '';
+
+const toApiError = (status: number, data: unknown, fallback: string) => {
+  const error = (data as { error?: unknown } | null)?.error;
+
+  if (Array.isArray(error)) {
+    const issues = (error as unknown[]).map((issue): ApiIssue => {
+      const parsed = apiIssueSchema.safeParse(issue);
+      return parsed.success ? parsed.data : { message: String(issue) };
+    });
+    return new ApiError(issues.map(issue => issue.message).join(', ') || fallback, status, issues, data);
+  }
+
+  return new ApiError(typeof error === 'string' && error ? error : fallback, status, [], data);
+};
+
+export const request = async <T = void>(path: string, options: RequestOptions<T> = {}): Promise<T> => {
+  const { method = 'GET', body, fallbackError = 'Request failed', schema } = options;
+  const token = getToken();
+  const headers: Record<string, string> = {};
+
+  if (token) headers['Authorization'] = `Bearer ${token}`;
+  if (body !== undefined) headers['Content-Type'] = 'application/json';
+
+  const response = await fetch(`/api${path}`, {
+    method,
+    headers,
+    body: body !== undefined ? JSON.stringify(body) : undefined
+  });
+
+  const text = await response.text();
+  let data: unknown = null;
+  if (text) {
+    try {
+      data = JSON.parse(text);
+    } catch {
+      data = text;
+    }
+  }
+
+  if (!response.ok) {
+    if (response.status === 401 && token && unauthorizedHandler) {
+      unauthorizedHandler();
+    }
+    throw toApiError(response.status, data, fallbackError);
+  }
+
+  return schema ? parseResponse(schema, data, `${method} /api${path}`) : data as T;
+};
+
+export const api = {
+  auth: {
+    state: () =>
+      request('/auth/state', { schema: authStateSchema, fallbackError: 'Failed to fetch auth state' }),
+    login: (username: string, password: string) =>
+      request('/auth/login', { schema: loginResponseSchema, method: 'POST', body: { username, password }, fallbackError: 'Login failed' }),
+    // Second login step; `code` is a TOTP code or an unused recovery code
+    loginTwoFactor: (challenge: string, code: string) =>
+      request('/auth/login/2fa', { schema: authTokenSchema, method: 'POST', body: { challenge, code }, fallbackError: 'Invalid authentication code' }),
+    register: (username: string, password: string) =>
+      request('/auth/register', { schema: authTokenSchema, method: 'POST', body: { username, password }, fallbackError: 'Registration failed' }),
+    // Exchanges the current, still valid token for one with a later expiry
+    refresh: () =>
+      request('/auth/refresh', { schema: authTokenSchema, method: 'POST', fallbackError: 'Failed to refresh session' }),
+    twoFactor: {
+      setup: () =>
+        request('/auth/2fa/setup', { schema: twoFactorSetupSchema, method: 'POST', fallbackError: 'Failed to start two-factor setup' }),
+      enable: (code: string) =>
+        request('/auth/2fa/enable', { schema: recoveryCodesSchema, method: 'POST', body: { code }, fallbackError: 'Failed to enable two-factor authentication' }),
+      disable: (code: string) =>
+        request('/auth/2fa/disable', { method: 'POST', body: { code }, fallbackError: 'Failed to disable two-factor authentication' }),
+      regenerateRecoveryCodes: (code: string) =>
+        request('/auth/2fa/recovery-codes', { schema: recoveryCodesSchema, method: 'POST', body: { code }, fallbackError: 'Failed to regenerate recovery codes' })
+    }
+  },
+
+  settings: {
+    get: () =>
+      request('/settings', { schema: panelSettingsSchema, fallbackError: 'Failed to fetch panel settings' }),
+    update: (data: Partial<PanelSettings>) =>
+      request('/settings', { method: 'PATCH', body: data, schema: panelSettingsSchema, fallbackError: 'Failed to update panel settings' })
+  },
+
+  servers: {
+    list: (include?: Include[]) =>
+      request(`/servers${includeQuery(include)}`, { schema: z.array(serverSchema), fallbackError: 'Failed to fetch servers' }),
+    get: (id: string, include?: Include[]) =>
+      request(`/servers/${id}${includeQuery(include)}`, { schema: serverSchema, fallbackError: 'Failed to fetch server' }),
+    create: (data: ServerInput) =>
+      request('/servers', { method: 'POST', body: data, fallbackError: 'Failed to create server' }),
+    update: (id: string, data: Partial<ServerInput>) =>
+      request(`/servers/${id}`, { method: 'PATCH', body: data, fallbackError: 'Failed to update server' }),
+    reinstall: (id: string) =>
+      request(`/servers/${id}/reinstall`, { method: 'POST', fallbackError: 'Failed to reinstall server' }),
+    updateStartup: (id: string, data: StartupInput) =>
+      request(`/servers/${id}/startup`, { method: 'PATCH', body: data, schema: serverSchema, fallbackError: 'Failed to update startup settings' }),
+    delete: (id: string) =>
+      request(`/servers/${id}`, { method: 'DELETE', fallbackError: 'Failed to delete server' })
+  },
+
+  nodes: {
+    list: () =>
+      request('/nodes', { schema: z.array(nodeSchema), fallbackError: 'Failed to fetch nodes' }),
+    get: (id: string) =>
+      request(`/nodes/${id}`, { schema: nodeSchema, fallbackError: 'Failed to fetch node' }),
+    create: (data: NodeInput) =>
+      request('/nodes', { method: 'POST', body: data, fallbackError: 'Failed to create node' }),
+    update: (id: string, data: Partial<NodeInput>) =>
+      request(`/nodes/${id}`, { method: 'PATCH', body: data, fallbackError: 'Failed to update node' }),
+    delete: (id: string) =>
+      request(`/nodes/${id}`, { method: 'DELETE', fallbackError: 'Failed to delete node' })
+  },
+
+  allocations: {
+    create: (nodeId: string, data: AllocationInput) =>
+      request(`/nodes/${nodeId}/allocations`, { method: 'POST', body: data, fallbackError: 'Failed to create allocation' }),
+    delete: (nodeId: string, allocationId: string) =>
+      request(`/nodes/${nodeId}/allocations/${allocationId}`, { method: 'DELETE', fallbackError: 'Failed to delete allocation' })
+  },
+
+  schedules: {
+    list: (serverId: string) =>
+      request(`/servers/${serverId}/schedules`, { schema: z.array(scheduleSchema), fallbackError: 'Failed to fetch schedules' }),
+    create: (serverId: string, data: ScheduleInput) =>
+      request(`/servers/${serverId}/schedules`, { method: 'POST', body: data, schema: scheduleSchema, fallbackError: 'Failed to create schedule' }),
+    update: (serverId: string, id: string, data: Partial<ScheduleInput>) =>
+      request(`/servers/${serverId}/schedules/${id}`, { method: 'PATCH', body: data, schema: scheduleSchema, fallbackError: 'Failed to update schedule' }),
+    delete: (serverId: string, id: string) =>
+      request(`/servers/${serverId}/schedules/${id}`, { method: 'DELETE', fallbackError: 'Failed to delete schedule' }),
+    run: (serverId: string, id: string) =>
+      request(`/servers/${serverId}/schedules/${id}/run`, { method: 'POST', fallbackError: 'Failed to run schedule' })
+  },
+
+  subusers: {
+    list: (serverId: string) =>
+      request(`/servers/${serverId}/users`, { schema: z.array(subuserSchema), fallbackError: 'Failed to fetch users' }),
+    create: (serverId: string, data: SubuserInput) =>
+      request(`/servers/${serverId}/users`, { method: 'POST', body: data, schema: subuserSchema, fallbackError: 'Failed to add user' }),
+    update: (serverId: string, id: string, data: Pick<SubuserInput, 'permissions'>) =>
+      request(`/servers/${serverId}/users/${id}`, { method: 'PATCH', body: data, schema: subuserSchema, fallbackError: 'Failed to update user' }),
+    delete: (serverId: string, id: string) =>
+      request(`/servers/${serverId}/users/${id}`, { method: 'DELETE', fallbackError: 'Failed to remove user' })
+  },
+
+  units: {
+    list: () =>
+      request('/units', { schema: z.array(unitSchema), fallbackError: 'Failed to fetch units' }),
+    create: (data: UnitInput) =>
+      request('/units', { method: 'POST', body: data, fallbackError: 'Failed to create unit' }),
+    update: (id: string, data: Partial<UnitInput>) =>
+      request(`/units/${id}`, { method: 'PATCH', body: data, fallbackError: 'Failed to update unit' }),
+    delete: (id: string) =>
+      request(`/units/${id}`, { method: 'DELETE', fallbackError: 'Failed to delete unit' })
+  },
+
+  permissions: {
+    list: () =>
+      request('/permissions', { schema: z.array(permissionSchema), fallbackError: 'Failed to fetch permissions' })
+  },
+
+  roles: {
+    list: () =>
+      request('/roles', { schema: z.array(roleSchema), fallbackError: 'Failed to fetch roles' }),
+    create: (data: RoleInput) =>
+      request('/roles', { method: 'POST', body: data, schema: roleSchema, fallbackError: 'Failed to create role' }),
+    update: (id: string, data: Partial<RoleInput>) =>
+      request(`/roles/${id}`, { method: 'PATCH', body: data, schema: roleSchema, fallbackError: 'Failed to update role' }),
+    delete: (id: string) =>
+      request(`/roles/${id}`, { method: 'DELETE', fallbackError: 'Failed to delete role' })
+  },
+
+  users: {
+    list: () =>
+      request('/users', { schema: z.array(userSchema), fallbackError: 'Failed to fetch users' }),
+    get: (id: string) =>
+      request(`/users/${id}`, { schema: userSchema, fallbackError: 'Failed to fetch user' }),
+    create: (data: UserInput) =>
+      request('/users', { method: 'POST', body: data, fallbackError: 'Failed to create user' }),
+    update: (id: string, data: Partial<UserInput>) =>
+      request(`/users/${id}`, { method: 'PATCH', body: data, fallbackError: 'Failed to update user' }),
+    delete: (id: string) =>
+      request(`/users/${id}`, { method: 'DELETE', fallbackError: 'Failed to delete user' })
+  }
+};
@@ -0,0 +1,136 @@
+import type { ServerClient } from './krypton';
+import type { FileEntry } from './types';
+
+// Backups are zip archives Krypton writes into a hidden directory of the
+// server itself, created with the same `compress` call the file manager uses.
+// The ignore patterns live next to them in the server root so they survive
+// between backups and can also be edited from the file manager.
+
+export const BACKUP_DIRECTORY = '.backups';
+export const IGNORE_FILE = '.backupignore';
+
+export interface Backup {
+  fileName: string;
+  name: string;
+  size: number;
+  createdAt: number;
+}
+
+// `<name>-<yyyymmdd>-<hhmmss>.zip`
+const ARCHIVE_NAME = /^(.+)-(\d{8}-\d{6})\.zip$/;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+export const backupFileName = (name: string, date = new Date()) => {
+  const slug = name.trim().toLowerCase().replace(/[^a-z0-9_-]+/g, '-').replace(/^-+|-+$/g, '') || 'backup';
+  const stamp = `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}-${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+  return `${slug}-${stamp}.zip`;
+};
+
+export const toBackup = (entry: FileEntry): Backup => ({
+  fileName: entry.name,
+  name: entry.name.match(ARCHIVE_NAME)?.[1] ?? entry.name,
+  size: entry.size,
+  createdAt: entry.createdAt || entry.modifiedAt
+});
+
+export const backupPath = (backup: Backup) => `${BACKUP_DIRECTORY}/${backup.fileName}`;
+
+// Ignore patterns use .gitignore syntax: one glob per line, `#` comments,
+// `!` to re-include, a leading `/` or inner `/` anchors to the server root
+// and a trailing `/` only matches directories.
+
+interface IgnoreRule {
+  negated: boolean;
+  directoryOnly: boolean;
+  anchored: boolean;
+  segments: string[];
+  pattern: RegExp;
+}
+
+const globToRegExp = (glob: string) =>
+  glob
+    .split('/')
+    .map(segment => segment === '**'
+      ? '\u0000'
+      : segment.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '[^/]*').replace(/\?/g, '[^/]'))
+    .join('/')
+    .replace(/\u0000\//g, '(?:.*/)?')
+    .replace(/\/\u0000/g, '(?:/.*)?')
+    .replace(/\u0000/g, '.*');
+
+export const parseIgnorePatterns = (text: string): IgnoreRule[] =>
+  text
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith('#'))
+    .map(line => {
+      const negated = line.startsWith('!');
+      let glob = negated ? line.slice(1) : line;
+      const directoryOnly = glob.endsWith('/');
+      glob = glob.replace(/\/+$/, '');
+      const anchored = glob.includes('/');
+      glob = glob.replace(/^\/+/, '');
+
+      const source = globToRegExp(glob);
+      return {
+        negated,
+        directoryOnly,
+        anchored,
+        segments: glob.split('/'),
+        pattern: new RegExp(anchored ? `^${source}$` : `(?:^|/)${source}$`)
+      };
+    });
+
+// Whether `path` (relative to the server root) is excluded. Later rules win.
+export const isIgnored = (path: string, isDirectory: boolean, rules: IgnoreRule[]) => {
+  let ignored = false;
+  for (const rule of rules) {
+    if (rule.directoryOnly && !isDirectory) continue;
+    if (rule.pattern.test(path)) ignored = !rule.negated;
+  }
+  return ignored;
+};
+
+// Whether a rule might match something below `directory`, in which case the
+// directory has to be walked instead of archived whole
+const mayMatchWithin = (directory: string, rules: IgnoreRule[]) => {
+  const parts = directory.split('/');
+
+  return rules.some(rule => {
+    if (!rule.anchored) return true;
+
+    for (let i = 0; i < parts.length; i++) {
+      const segment = rule.segments[i];
+      if (segment === undefined) return false;
+      if (segment === '**') return true;
+      if (!new RegExp(`^${globToRegExp(segment)}$`).test(parts[i])) return false;
+    }
+    return rule.segments.length > parts.length;
+  });
+};
+
+// Paths to hand to `compress` for a backup: everything except the backups
+// themselves and whatever the ignore rules exclude, keeping whole
+// directories wherever no rule reaches inside them.
+export const collectBackupPaths = async (client: ServerClient, rules: IgnoreRule[]) => {
+  const walk = async (directory: string): Promise<string[]> => {
+    const entries = await client.filesystem.list(directory);
+    const paths: string[] = [];
+
+    for (const entry of entries) {
+      const path = directory ? `${directory}/${entry.name}` : entry.name;
+      if (path === BACKUP_DIRECTORY || isIgnored(path, !entry.isFile, rules)) continue;
+
+      if (!entry.isFile && rules.length > 0 && mayMatchWithin(path, rules)) {
+        paths.push(...await walk(path));
+      } else {
+        paths.push(path);
+      }
+    }
+
+    return paths;
+  };
+
+  return walk('');
+};
@@ -0,0 +1,56 @@
+import type { Unit } from './types';
+
+// A completion provider returns full command lines that could replace the
+// current input. Providers are combined per unit, so games with their own
+// command syntax can register one next to the unit's command list.
+export type CompletionProvider = (input: string) => string[];
+
+const unitProviders = new Map<string, CompletionProvider[]>();
+
+// Registers an extra provider for every server running the unit with the
+// given short name.
+export const registerCompletionProvider = (unitShortName: string, provider: CompletionProvider) => {
+  unitProviders.set(unitShortName, [...(unitProviders.get(unitShortName) ?? []), provider]);
+};
+
+// Placeholders such as `<player>` or `[reason]` accept any word
+const isPlaceholder = (word: string) => /^[<[].*[>\]]$/.test(word);
+
+// Completes the word under the cursor against command templates like
+// `whitelist add <player>`, one word at a time.
+export const templateProvider = (templates: string[]): CompletionProvider => (input) => {
+  const words = input.split(' ');
+  const current = words[words.length - 1].toLowerCase();
+  const previous = words.slice(0, -1);
+  const results = new Set<string>();
+
+  for (const template of templates) {
+    const parts = template.trim().split(/\s+/);
+    if (parts.length < words.length) continue;
+
+    const prefixMatches = previous.every((word, index) =>
+      isPlaceholder(parts[index]) || parts[index].toLowerCase() === word.toLowerCase()
+    );
+    const next = parts[words.length - 1];
+
+    if (prefixMatches && !isPlaceholder(next) && next.toLowerCase().startsWith(current)) {
+      results.add([...previous, next].join(' '));
+    }
+  }
+
+  return [...results];
+};
+
+// Suggests previously sent commands that start with the input
+export const historyProvider = (history: string[]): CompletionProvider => (input) =>
+  [...new Set([...history].reverse())].filter(command => command.startsWith(input) && command !== input);
+
+export const getCompletionProviders = (unit: Pick<Unit, 'shortName' | 'consoleCommands'> | null | undefined) => [
+  templateProvider(unit?.consoleCommands ?? []),
+  ...(unit ? unitProviders.get(unit.shortName) ?? [] : [])
+];
+
+export const complete = (input: string, providers: CompletionProvider[]) => {
+  if (!input.trim()) return [];
+  return [...new Set(providers.flatMap(provider => provider(input)))].filter(candidate => candidate !== input);
+};
@@ -0,0 +1,87 @@
+import { stripAnsi } from './ansi';
+
+export type LogLevel = 'INFO' | 'WARN' | 'ERROR';
+
+export const LOG_LEVELS: LogLevel[] = ['INFO', 'WARN', 'ERROR'];
+
+// Covers the common formats: `[12:00:00 WARN]`, `[Server thread/ERROR]`,
+// `level=warn`, Java's `SEVERE` and plain `Exception in thread ...` traces.
+const LEVEL_PATTERNS: [LogLevel, RegExp][] = [
+  ['ERROR', /\b(ERROR|ERR|SEVERE|FATAL|CRITICAL)\b|\bException\b|^\s+at\s/i],
+  ['WARN', /\b(WARN|WARNING)\b/i],
+  ['INFO', /\bINFO\b/i]
+];
+
+export const detectLogLevel = (text: string): LogLevel | null => {
+  for (const [level, pattern] of LEVEL_PATTERNS) {
+    if (pattern.test(text)) return level;
+  }
+  return null;
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Builds the pattern for a search query. Always global so it can be used
+// to find every occurrence within a line for highlighting.
+export const buildSearchPattern = (
+  query: string,
+  { regex = false, caseSensitive = false } = {}
+): { pattern: RegExp | null; error: string | null } => {
+  if (!query) return { pattern: null, error: null };
+
+  try {
+    const source = regex ? query : escapeRegExp(query);
+    return { pattern: new RegExp(source, caseSensitive ? 'g' : 'gi'), error: null };
+  } catch (err) {
+    return { pattern: null, error: err instanceof Error ? err.message : 'Invalid regular expression' };
+  }
+};
+
+// Lines are immutable once appended, so the stripped text and detected level
+// are cached per line object for as long as the line stays in scrollback.
+const plainTextCache = new WeakMap<object, string>();
+const levelCache = new WeakMap<object, LogLevel | null>();
+
+export const getPlainText = (line: { text: string }) => {
+  let plain = plainTextCache.get(line);
+  if (plain === undefined) {
+    plain = stripAnsi(line.text);
+    plainTextCache.set(line, plain);
+  }
+  return plain;
+};
+
+export const getLogLevel = (line: { text: string }) => {
+  let level = levelCache.get(line);
+  if (level === undefined) {
+    level = detectLogLevel(getPlainText(line));
+    levelCache.set(line, level);
+  }
+  return level;
+};
+
+export const lineMatches = (line: { text: string }, pattern: RegExp) => {
+  pattern.lastIndex = 0;
+  const matched = pattern.test(getPlainText(line));
+  pattern.lastIndex = 0;
+  return matched;
+};
+
+// Every [start, end) range `pattern` matches in `text`
+export const findMatchRanges = (text: string, pattern: RegExp): [number, number][] => {
+  const ranges: [number, number][] = [];
+  pattern.lastIndex = 0;
+
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    if (match[0].length === 0) {
+      // Avoid looping forever on patterns such as `a*`
+      pattern.lastIndex++;
+      continue;
+    }
+    ranges.push([match.index, match.index + match[0].length]);
+  }
+
+  pattern.lastIndex = 0;
+  return ranges;
+};
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { CronError, nextRuns, parseCron, validateCron } from './cron';
+
+const sorted = (values: Set<number>) => [...values].sort((a, b) => a - b);
+
+// Runs as ISO strings, evaluated in UTC from a fixed Wednesday
+const runs = (expression: string, count: number, from = '2026-01-07T12:00:00Z') =>
+  nextRuns(expression, 'UTC', count, new Date(from)).map(run => run.toISOString());
+
+describe('parseCron', () => {
+  it('expands wildcards to the full range', () => {
+    const schedule = parseCron('* * * * *');
+    expect(schedule.minutes.size).toBe(60);
+    expect(schedule.hours.size).toBe(24);
+    expect(schedule.daysOfMonth.size).toBe(31);
+    expect(schedule.months.size).toBe(12);
+    expect(sorted(schedule.daysOfWeek)).toEqual([0, 1, 2, 3, 4, 5, 6]);
+  });
+
+  it('reads lists, ranges and names', () => {
+    const schedule = parseCron('0,30 9-11 1 jan,Mar mon-fri');
+    expect(sorted(schedule.minutes)).toEqual([0, 30]);
+    expect(sorted(schedule.hours)).toEqual([9, 10, 11]);
+    expect(sorted(schedule.daysOfMonth)).toEqual([1]);
+    expect(sorted(schedule.months)).toEqual([1, 3]);
+    expect(sorted(schedule.daysOfWeek)).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('reads steps over wildcards, ranges and start values', () => {
+    expect(sorted(parseCron('*/15 * * * *').minutes)).toEqual([0, 15, 30, 45]);
+    expect(sorted(parseCron('0 8-18/4 * * *').hours)).toEqual([8, 12, 16]);
+    expect(sorted(parseCron('5/20 * * * *').minutes)).toEqual([5, 25, 45]);
+  });
+
+  it('treats 7 as Sunday', () => {
+    expect(sorted(parseCron('0 0 * * 5-7').daysOfWeek)).toEqual([0, 5, 6]);
+  });
+
+  it('marks day fields starting with a wildcard as unrestricted', () => {
+    expect(parseCron('0 0 */2 * 1')).toMatchObject({ anyDayOfMonth: true, anyDayOfWeek: false });
+    expect(parseCron('0 0 1 * */2')).toMatchObject({ anyDayOfMonth: false, anyDayOfWeek: true });
+    expect(parseCron('0 0 1-31 * 0-6')).toMatchObject({ anyDayOfMonth: false, anyDayOfWeek: false });
+  });
+
+  it('rejects the wrong number of fields', () => {
+    expect(() => parseCron('* * * *')).toThrow(CronError);
+    expect(() => parseCron('* * * * * *')).toThrow('Expected 5 fields');
+  });
+
+  it('rejects out of range values', () => {
+    expect(() => parseCron('60 * * * *')).toThrow('Minute must be between 0 and 59');
+    expect(() => parseCron('0 24 * * *')).toThrow('Hour must be between 0 and 23');
+    expect(() => parseCron('0 0 0 * *')).toThrow('Day of month must be between 1 and 31');
+    expect(() => parseCron('0 0 * 13 *')).toThrow('Month must be between 1 and 12');
+    expect(() => parseCron('0 0 * * 8')).toThrow('Day of week must be between 0 and 7');
+  });
+
+  it('rejects malformed values, steps and ranges', () => {
+    expect(() => parseCron('x * * * *')).toThrow('Invalid minute "x"');
+    expect(() => parseCron('*/0 * * * *')).toThrow('Invalid step in minute "*/0"');
+    expect(() => parseCron('*/a * * * *')).toThrow('Invalid step');
+    expect(() => parseCron('0 10-5 * * *')).toThrow('Invalid hour range "10-5"');
+  });
+});
+
+describe('validateCron', () => {
+  it('returns null for valid expressions and the message otherwise', () => {
+    expect(validateCron('0 4 * * *')).toBeNull();
+    expect(validateCron('0 4 * *')).toBe('Expected 5 fields: minute hour day-of-month month day-of-week');
+  });
+});
+
+describe('nextRuns', () => {
+  it('lists upcoming runs after the start time', () => {
+    expect(runs('0 4 * * *', 2)).toEqual(['2026-01-08T04:00:00.000Z', '2026-01-09T04:00:00.000Z']);
+    expect(runs('*/20 12 * * *', 2)).toEqual(['2026-01-07T12:20:00.000Z', '2026-01-07T12:40:00.000Z']);
+  });
+
+  it('matches either day field when both are restricted', () => {
+    // The 10th of the month or any Monday
+    expect(runs('0 0 10 * 1', 3)).toEqual([
+      '2026-01-10T00:00:00.000Z',
+      '2026-01-12T00:00:00.000Z',
+      '2026-01-19T00:00:00.000Z'
+    ]);
+  });
+
+  it('only uses the other day field when one starts with a wildcard', () => {
+    // Mondays only, not every other day
+    expect(runs('0 0 */2 * 1', 2)).toEqual(['2026-01-12T00:00:00.000Z', '2026-01-19T00:00:00.000Z']);
+    // Odd days only, whatever the weekday
+    expect(runs('0 0 1-31/2 * */1', 2, '2026-01-08T12:00:00Z')).toEqual(['2026-01-09T00:00:00.000Z', '2026-01-11T00:00:00.000Z']);
+  });
+
+  it('evaluates the expression in the given time zone', () => {
+    const [run] = nextRuns('0 9 * * *', 'America/New_York', 1, new Date('2026-07-01T00:00:00Z'));
+    expect(run.toISOString()).toBe('2026-07-01T13:00:00.000Z');
+  });
+
+  it('returns nothing for expressions that never fire', () => {
+    expect(runs('0 0 31 2 *', 1)).toEqual([]);
+  });
+});
@@ -0,0 +1,195 @@
+// Five-field cron expressions (`minute hour day-of-month month day-of-week`)
+// as used by schedules. Supports `*`, lists, ranges, steps and month/day
+// names. As in standard cron, when both day fields are restricted a day
+// matches if either does.
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'] },
+  { name: 'day of week', min: 0, max: 7, names: ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] }
+];
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // Whether the day fields start with `*` (`*` or `*/n`), which changes how
+  // they combine, as in Vixie cron
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+export class CronError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CronError';
+  }
+}
+
+const parseValue = (value: string, spec: FieldSpec) => {
+  const named = spec.names?.indexOf(value.toLowerCase()) ?? -1;
+  // Month names are 1-based, day names 0-based
+  if (named !== -1) return spec.min === 1 ? named + 1 : named;
+
+  if (!/^\d+$/.test(value)) throw new CronError(`Invalid ${spec.name} "${value}"`);
+  const number = Number(value);
+  if (number < spec.min || number > spec.max) {
+    throw new CronError(`${spec.name.charAt(0).toUpperCase() + spec.name.slice(1)} must be between ${spec.min} and ${spec.max}`);
+  }
+  return number;
+};
+
+const parseField = (field: string, spec: FieldSpec) => {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) throw new CronError(`Invalid step in ${spec.name} "${part}"`);
+
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      start = spec.min;
+      end = spec.max;
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-');
+      start = parseValue(from, spec);
+      end = parseValue(to, spec);
+      if (start > end) throw new CronError(`Invalid ${spec.name} range "${range}"`);
+    } else {
+      start = parseValue(range, spec);
+      // `5/15` means every 15 starting at 5
+      end = stepText === undefined ? start : spec.max;
+    }
+
+    for (let value = start; value <= end; value += step) values.add(value);
+  }
+
+  return values;
+};
+
+export const parseCron = (expression: string): CronSchedule => {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) throw new CronError('Expected 5 fields: minute hour day-of-month month day-of-week');
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) => parseField(field, FIELDS[index]));
+
+  // Both 0 and 7 mean Sunday
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: fields[2].startsWith('*'),
+    anyDayOfWeek: fields[4].startsWith('*')
+  };
+};
+
+export const validateCron = (expression: string): string | null => {
+  try {
+    parseCron(expression);
+    return null;
+  } catch (err) {
+    return err instanceof CronError ? err.message : 'Invalid cron expression';
+  }
+};
+
+const matchesDay = (schedule: CronSchedule, date: Date) => {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getUTCDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getUTCDay());
+
+  if (schedule.anyDayOfMonth) return dayOfWeek;
+  if (schedule.anyDayOfWeek) return dayOfMonth;
+  return dayOfMonth || dayOfWeek;
+};
+
+const zoneFormatters = new Map<string, Intl.DateTimeFormat>();
+
+// Offset of `timeZone` from UTC at `instant`, in milliseconds
+const zoneOffset = (instant: number, timeZone: string) => {
+  let formatter = zoneFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric'
+    });
+    zoneFormatters.set(timeZone, formatter);
+  }
+
+  const parts = Object.fromEntries(formatter.formatToParts(instant).map(part => [part.type, Number(part.value)]));
+  const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return wallClock - Math.floor(instant / 1000) * 1000;
+};
+
+// Wall-clock times in a zone are kept in Dates as if they were UTC. Times
+// skipped by a DST change come out an hour later, like most cron daemons run them.
+const toWallClock = (instant: number, timeZone: string) => new Date(instant + zoneOffset(instant, timeZone));
+
+const fromWallClock = (wallClock: Date, timeZone: string) => {
+  const time = wallClock.getTime();
+  return new Date(time - zoneOffset(time - zoneOffset(time, timeZone), timeZone));
+};
+
+export const isValidTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Give up on expressions that can never fire, like `0 0 31 2 *`
+const SEARCH_LIMIT = 5 * 366 * 24 * 60;
+
+// The next `count` times the expression fires after `from` when evaluated
+// in `timeZone` (an IANA name such as `Europe/Berlin`)
+export const nextRuns = (expression: string, timeZone: string, count = 5, from = new Date()): Date[] => {
+  const schedule = parseCron(expression);
+  const runs: Date[] = [];
+  const date = toWallClock(from.getTime(), timeZone);
+  date.setUTCSeconds(0, 0);
+  date.setUTCMinutes(date.getUTCMinutes() + 1);
+
+  // Skips ahead a month, day or hour at a time wherever a larger field
+  // already rules the current time out
+  for (let steps = 0; runs.length < count && steps < SEARCH_LIMIT; steps++) {
+    if (!schedule.months.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1);
+      date.setUTCHours(0, 0);
+    } else if (!matchesDay(schedule, date)) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      date.setUTCHours(0, 0);
+    } else if (!schedule.hours.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0);
+    } else if (!schedule.minutes.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1);
+    } else {
+      runs.push(fromWallClock(date, timeZone));
+      date.setUTCMinutes(date.getUTCMinutes() + 1);
+    }
+  }
+
+  return runs;
+};
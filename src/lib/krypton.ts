@@ -0,0 +1,171 @@
+import { ApiError, parseResponse } from './api';
+import { directoryListingSchema, systemStateSchema } from './schemas';
+import type { Node, Server } from './types';
+
+// Client for the Krypton daemon running on each node. Every URL is derived
+// from the node record so TLS-enabled nodes are reached over https/wss.
+
+type KryptonNode = Pick<Node, 'fqdn' | 'port' | 'useTls'>;
+
+export type KryptonServer = Pick<Server, 'internalId' | 'validationToken'> & {
+  node: KryptonNode;
+};
+
+export type PowerAction = 'start' | 'stop' | 'restart' | 'kill';
+
+// Events sent from the panel over the server websocket
+export type KryptonClientEvent =
+  | { event: 'send_command'; data: string }
+  | { event: 'power_action'; data: { action: PowerAction } }
+  // Asks for the page of log lines preceding `before` (or the newest page)
+  | { event: 'request_log_history'; data: { before?: string; limit: number } };
+
+// Events received from Krypton over the server websocket
+export interface KryptonServerEvent {
+  event: string;
+  data: {
+    message?: string;
+    status?: string;
+    state?: string;
+    logs?: string[];
+    // `log_history`: cursor for the next older page, null once exhausted
+    cursor?: string | null;
+    action?: string;
+    cpu_percent?: number;
+    memory?: {
+      used: number;
+      limit: number;
+      percent: number;
+    };
+    network?: {
+      rx_bytes: number;
+      tx_bytes: number;
+    };
+    // Only reported by Krypton versions that track disk usage
+    disk?: {
+      used: number;
+    };
+    // `compress_progress`: archive being written and how far along it is (0-100)
+    destination?: string;
+    progress?: number;
+  };
+}
+
+export const nodeUrl = (node: KryptonNode, protocol: 'http' | 'ws' = 'http') =>
+  `${protocol}${node.useTls ? 's' : ''}://${node.fqdn}:${node.port}`;
+
+const kryptonFetch = async (url: string, init: RequestInit, fallbackError: string) => {
+  const response = await fetch(url, init);
+  if (!response.ok) throw new ApiError(fallbackError, response.status);
+  return response;
+};
+
+export const createNodeClient = (node: KryptonNode) => ({
+  state: async () => {
+    const response = await kryptonFetch(`${nodeUrl(node)}/api/v1/state`, {}, 'Failed to fetch node state');
+    return parseResponse(systemStateSchema, await response.json(), `GET ${node.fqdn}/api/v1/state`);
+  }
+});
+
+export const createServerClient = (server: KryptonServer) => {
+  const authorization = `Bearer ${server.validationToken}`;
+
+  // `path` is appended verbatim so callers keep control over the layout
+  // Krypton expects, e.g. `list/` for the server root.
+  const filesystemUrl = (operation: string, path?: string) =>
+    `${nodeUrl(server.node)}/api/v1/filesystem/${server.internalId}/${operation}${path !== undefined ? `/${path}` : ''}`;
+
+  const filesystem = {
+    list: async (path: string) => {
+      const response = await kryptonFetch(filesystemUrl('list', path), {
+        headers: { Authorization: authorization }
+      }, 'Failed to fetch directory contents');
+      const data = parseResponse(directoryListingSchema, await response.json(), `GET ${server.node.fqdn}/api/v1/filesystem/list`);
+      return data.contents;
+    },
+
+    contents: async (path: string) => {
+      const response = await kryptonFetch(filesystemUrl('contents', path), {
+        headers: { Authorization: authorization }
+      }, 'Failed to fetch file contents');
+      return response.text();
+    },
+
+    write: async (path: string, content: string) => {
+      await kryptonFetch(filesystemUrl('write', path), {
+        method: 'POST',
+        headers: {
+          Authorization: authorization,
+          'Content-Type': 'application/octet-stream'
+        },
+        body: content
+      }, 'Failed to write file');
+    },
+
+    createDirectory: async (path: string) => {
+      await kryptonFetch(filesystemUrl('create-directory', path), {
+        method: 'POST',
+        headers: { Authorization: authorization }
+      }, 'Failed to create folder');
+    },
+
+    delete: async (path: string) => {
+      await kryptonFetch(filesystemUrl('delete', path), {
+        method: 'DELETE',
+        headers: { Authorization: authorization }
+      }, 'Failed to delete file');
+    },
+
+    extract: async (directory: string, file: string) => {
+      await kryptonFetch(filesystemUrl('extract', directory), {
+        method: 'POST',
+        headers: {
+          Authorization: authorization,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ file })
+      }, 'Failed to extract archive');
+    },
+
+    compress: async (files: string[], destination: string) => {
+      await kryptonFetch(filesystemUrl('compress'), {
+        method: 'POST',
+        headers: {
+          Authorization: authorization,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ files, destination })
+      }, 'Failed to create archive');
+    },
+
+    upload: async (directory: string, files: File[]) => {
+      const formData = new FormData();
+      files.forEach(file => formData.append('files', file));
+
+      await kryptonFetch(filesystemUrl('upload', directory), {
+        method: 'POST',
+        headers: { Authorization: authorization },
+        body: formData
+      }, 'Upload failed');
+    },
+
+    downloadUrl: (path: string) =>
+      `${filesystemUrl('download', path)}?token=${server.validationToken}`
+  };
+
+  const socketUrl = () =>
+    `${nodeUrl(server.node, 'ws')}?server=${server.internalId}&token=${server.validationToken}`;
+
+  return {
+    filesystem,
+    socketUrl
+  };
+};
+
+export type ServerClient = ReturnType<typeof createServerClient>;
+
+export const sendEvent = (socket: WebSocket, message: KryptonClientEvent) => {
+  socket.send(JSON.stringify(message));
+};
+
+export const parseServerEvent = (raw: string): KryptonServerEvent => JSON.parse(raw);
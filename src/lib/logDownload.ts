@@ -0,0 +1,13 @@
+import { saveAs } from 'file-saver';
+import { stripAnsi } from './ansi';
+
+const timestamp = () => new Date().toISOString().slice(0, 19).replace(/[-:]/g, '').replace('T', '-');
+
+// Saves console lines as a .log file. Plain logs are what support wants to
+// read; raw keeps the escape sequences for replaying in a terminal.
+export const downloadLog = (lines: string[], name: string, { raw = false } = {}) => {
+  const content = lines.map(line => raw ? line : stripAnsi(line)).join('\n');
+  const safeName = name.replace(/[^a-zA-Z0-9-_]+/g, '-').replace(/^-|-$/g, '') || 'console';
+  const blob = new Blob([content + '\n'], { type: 'text/plain;charset=utf-8' });
+  saveAs(blob, `${safeName}-${timestamp()}${raw ? '.ansi' : ''}.log`);
+};
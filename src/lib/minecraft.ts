@@ -0,0 +1,68 @@
+import { findMatchRanges } from './consoleSearch';
+
+// Translation of Minecraft's legacy formatting codes (`§a`, `&l`, ...) into
+// ANSI SGR sequences, so they are rendered by the same parser as everything
+// else. Only enabled for units that opt in, as `&` is common in other output.
+
+const COLORS: Record<string, [number, number, number]> = {
+  '0': [0, 0, 0],
+  '1': [0, 0, 170],
+  '2': [0, 170, 0],
+  '3': [0, 170, 170],
+  '4': [170, 0, 0],
+  '5': [170, 0, 170],
+  '6': [255, 170, 0],
+  '7': [170, 170, 170],
+  '8': [85, 85, 85],
+  '9': [85, 85, 255],
+  a: [85, 255, 85],
+  b: [85, 255, 255],
+  c: [255, 85, 85],
+  d: [255, 85, 255],
+  e: [255, 255, 85],
+  f: [255, 255, 255]
+};
+
+const FORMATS: Record<string, string> = {
+  l: '1', // Bold
+  m: '9', // Strikethrough
+  n: '4', // Underline
+  o: '3', // Italic
+  r: '0' // Reset
+};
+
+const sgr = (params: string) => `\u001b[${params}m`;
+
+// Like in game, a color code also clears any formatting before it
+const colorSgr = ([r, g, b]: [number, number, number]) => sgr(`0;38;2;${r};${g};${b}`);
+
+// `§x§R§R§G§G§B§B` (hex colors, as sent by Spigot/Paper) or a single code.
+// `k` (obfuscated) is accepted but has no visual equivalent.
+const CODE_PATTERN = /[§&]x((?:[§&][0-9a-f]){6})|[§&]([0-9a-fk-or])/gi;
+
+// `&` codes matching `protectedPattern` (links, in practice, where `&b=2` is
+// a query parameter) are left as they are; `§` never appears there by accident.
+export const translateMinecraftCodes = (text: string, protectedPattern?: RegExp) => {
+  if (!text.includes('§') && !text.includes('&')) return text;
+
+  const ranges = protectedPattern && text.includes('&') ? findMatchRanges(text, protectedPattern) : [];
+  const isProtected = (offset: number) => ranges.some(([start, end]) => offset >= start && offset < end);
+
+  return text.replace(CODE_PATTERN, (match: string, hexDigits: string | undefined, rawCode: string | undefined, offset: number) => {
+    if (match[0] === '&' && isProtected(offset)) return match;
+
+    if (hexDigits) {
+      const hex = hexDigits.replace(/[§&]/g, '');
+      return colorSgr([
+        parseInt(hex.slice(0, 2), 16),
+        parseInt(hex.slice(2, 4), 16),
+        parseInt(hex.slice(4, 6), 16)
+      ]);
+    }
+
+    const code = rawCode!.toLowerCase();
+    if (COLORS[code]) return colorSgr(COLORS[code]);
+    if (FORMATS[code]) return sgr(FORMATS[code]);
+    return '';
+  });
+};
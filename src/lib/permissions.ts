@@ -0,0 +1,74 @@
+import type { Role, User } from './types';
+
+// Panel-wide permissions granted to users from the admin area, directly or
+// through roles. Each area has a VIEW permission for reading it and a MANAGE
+// permission for creating, editing and deleting; MANAGE implies VIEW and
+// ADMIN implies everything. The backend enforces these and lists them (with
+// labels) at /permissions; the panel only names the ones it gates on.
+
+export type Permission =
+  | 'ADMIN'
+  | 'SERVERS_VIEW'
+  | 'SERVERS_MANAGE'
+  | 'USERS_VIEW'
+  | 'USERS_MANAGE'
+  | 'NODES_VIEW'
+  | 'NODES_MANAGE';
+
+export const hasPermission = (granted: readonly string[], permission: Permission) => {
+  if (granted.includes('ADMIN') || granted.includes(permission)) return true;
+  return permission.endsWith('_VIEW') && granted.includes(permission.replace(/_VIEW$/, '_MANAGE'));
+};
+
+// The permission each admin page needs to be opened at all. Units and the
+// console wall reach every server at once, so they are left to administrators.
+export const ADMIN_ROUTE_PERMISSIONS: Record<string, Permission> = {
+  '/admin': 'SERVERS_VIEW',
+  '/admin/servers': 'SERVERS_VIEW',
+  '/admin/nodes': 'NODES_VIEW',
+  '/admin/users': 'USERS_VIEW',
+  '/admin/units': 'ADMIN',
+  '/admin/consoles': 'ADMIN'
+};
+
+// Everything a user holds: their own permissions plus those of their roles
+export const effectivePermissions = (user: User, roles: Role[]) => {
+  const permissions = new Set(user.permissions);
+  for (const role of roles) {
+    if (user.roles.includes(role.id)) role.permissions.forEach(permission => permissions.add(permission));
+  }
+  return permissions;
+};
+
+export interface PermissionChange {
+  user: User;
+  gained: string[];
+  lost: string[];
+}
+
+// Which users gain or lose which permissions if `roleId` ends up with
+// `permissions`, or is deleted when `permissions` is null. Users holding a
+// permission directly or through another role are unaffected by it.
+export const diffRoleChange = (
+  users: User[],
+  roles: Role[],
+  roleId: string,
+  permissions: string[] | null
+): PermissionChange[] => {
+  const nextRoles = permissions === null
+    ? roles.filter(role => role.id !== roleId)
+    : roles.map(role => role.id === roleId ? { ...role, permissions } : role);
+
+  return users
+    .filter(user => user.roles.includes(roleId))
+    .map(user => {
+      const before = effectivePermissions(user, roles);
+      const after = effectivePermissions(user, nextRoles);
+      return {
+        user,
+        gained: [...after].filter(permission => !before.has(permission)),
+        lost: [...before].filter(permission => !after.has(permission))
+      };
+    })
+    .filter(change => change.gained.length > 0 || change.lost.length > 0);
+};
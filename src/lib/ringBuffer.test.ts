@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { RingBuffer } from './ringBuffer';
+
+describe('RingBuffer', () => {
+  it('evicts the oldest values once full', () => {
+    const buffer = new RingBuffer<number>(3);
+    [1, 2, 3, 4, 5].forEach(value => buffer.push(value));
+    expect(buffer.toArray()).toEqual([3, 4, 5]);
+  });
+
+  it('keeps the newest values when given more than fit at once', () => {
+    const buffer = new RingBuffer<number>(3);
+    buffer.push(0);
+    buffer.pushAll([1, 2, 3, 4]);
+    expect(buffer.toArray()).toEqual([2, 3, 4]);
+  });
+
+  it('accepts arrays too large to spread into arguments', () => {
+    const values = Array.from({ length: 500_000 }, (_, index) => index);
+    const buffer = new RingBuffer<number>(values.length);
+    buffer.pushAll(values);
+    buffer.resize(values.length - 1);
+    expect(buffer.size).toBe(values.length - 1);
+    expect(buffer.toArray()[0]).toBe(1);
+  });
+});
@@ -0,0 +1,63 @@
+// Fixed-capacity FIFO. Once full, pushing a value evicts the oldest one, so
+// memory stays bounded no matter how long a console has been open.
+export class RingBuffer<T> {
+  private items: T[];
+  private start = 0;
+  private length = 0;
+  private limit: number;
+
+  constructor(capacity: number) {
+    this.limit = Math.max(1, Math.floor(capacity));
+    this.items = new Array(this.limit);
+  }
+
+  get capacity() {
+    return this.limit;
+  }
+
+  get size() {
+    return this.length;
+  }
+
+  push(value: T) {
+    const index = (this.start + this.length) % this.limit;
+    this.items[index] = value;
+
+    if (this.length < this.limit) {
+      this.length++;
+    } else {
+      this.start = (this.start + 1) % this.limit;
+    }
+  }
+
+  // Takes an array rather than spread arguments, which overflow the call
+  // stack for the tens of thousands of lines a log history can hold
+  pushAll(values: T[]) {
+    // Only the newest `capacity` values can survive anyway
+    for (let i = Math.max(0, values.length - this.limit); i < values.length; i++) {
+      this.push(values[i]);
+    }
+  }
+
+  clear() {
+    this.items = new Array(this.limit);
+    this.start = 0;
+    this.length = 0;
+  }
+
+  // Changes the capacity, keeping the newest values
+  resize(capacity: number) {
+    const values = this.toArray();
+    this.limit = Math.max(1, Math.floor(capacity));
+    this.clear();
+    this.pushAll(values);
+  }
+
+  toArray(): T[] {
+    const result = new Array<T>(this.length);
+    for (let i = 0; i < this.length; i++) {
+      result[i] = this.items[(this.start + i) % this.limit];
+    }
+    return result;
+  }
+}
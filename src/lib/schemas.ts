@@ -0,0 +1,266 @@
+import { z } from 'zod';
+
+// Schemas for every payload the panel receives. Responses are parsed against
+// these at the API boundary (see lib/api.ts) so a backend that has drifted from
+// the panel fails loudly with the offending field instead of crashing a page.
+
+export const allocationSchema = z.object({
+  id: z.string(),
+  nodeId: z.string(),
+  port: z.number(),
+  bindAddress: z.string(),
+  alias: z.string().nullish(),
+  notes: z.string().nullish(),
+  assigned: z.boolean(),
+  serverId: z.string().nullish(),
+  createdAt: z.string(),
+  updatedAt: z.string()
+});
+
+export const nodeSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  fqdn: z.string(),
+  port: z.number(),
+  // Whether Krypton on this node is served over TLS (https/wss)
+  useTls: z.boolean().default(false),
+  isOnline: z.boolean(),
+  lastChecked: z.string(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  connectionKey: z.string().optional(),
+  allocations: z.array(allocationSchema).optional()
+});
+
+export const serverStatusSchema = z.object({
+  docker_id: z.string().optional(),
+  name: z.string().optional(),
+  image: z.string().optional(),
+  state: z.string().optional(),
+  memory_limit: z.number().optional(),
+  cpu_limit: z.number().optional(),
+  startup_command: z.string().optional(),
+  // JSON encoded allocation as reported by Krypton
+  allocation: z.string().optional(),
+  status: z.object({
+    state: z.string()
+  }).optional()
+});
+
+// Unit schemas matching backend validation
+export const environmentVariableSchema = z.object({
+  name: z.string().min(1),
+  description: z.string().optional(),
+  defaultValue: z.string(),
+  required: z.boolean().default(false),
+  userViewable: z.boolean().default(true),
+  userEditable: z.boolean().default(false),
+  rules: z.string()
+});
+
+export const configFileSchema = z.object({
+  path: z.string().min(1),
+  content: z.string()
+});
+
+export const installScriptSchema = z.object({
+  dockerImage: z.string(),
+  entrypoint: z.string().default('bash'),
+  script: z.string()
+});
+
+// Units as the API returns them. Name rules are only enforced on the form
+// (unitFormSchema) so units saved before they existed still load.
+export const unitSchema = z.object({
+  id: z.string().optional(),
+  name: z.string(),
+  shortName: z.string(),
+  description: z.string(),
+  dockerImage: z.string(),
+  defaultStartupCommand: z.string(),
+  configFiles: z.array(configFileSchema).default([]),
+  environmentVariables: z.array(environmentVariableSchema).default([]),
+  installScript: installScriptSchema,
+  startup: z.object({
+    userEditable: z.boolean().default(false)
+  }).default({}),
+  // Command templates offered as tab completions in the console, e.g.
+  // `whitelist add <player>`
+  consoleCommands: z.array(z.string()).default([])
+    .transform(commands => commands.map(command => command.trim()).filter(Boolean)),
+  // Render Minecraft `§a`/`&a` formatting codes in the console
+  minecraftColorCodes: z.boolean().default(false),
+  createdAt: z.string().optional(),
+  updatedAt: z.string().optional()
+});
+
+// What the admin unit form accepts when creating or editing a unit
+export const unitFormSchema = unitSchema.extend({
+  name: z.string().min(1).max(100),
+  shortName: z.string().min(1).max(20).regex(/^[a-z0-9-]+$/)
+});
+
+// A permission the backend knows about, so new ones show up in the admin
+// area without a panel release
+export const permissionSchema = z.object({
+  id: z.string(),
+  label: z.string(),
+  description: z.string().default('')
+});
+
+// A named set of permissions that can be given to many users at once
+export const roleSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string().nullish(),
+  permissions: z.array(z.string()),
+  createdAt: z.string(),
+  updatedAt: z.string()
+});
+
+export const userSchema = z.object({
+  id: z.string(),
+  username: z.string(),
+  // Granted directly; the user also holds every permission of their roles
+  permissions: z.array(z.string()),
+  roles: z.array(z.string()).default([]),
+  twoFactorEnabled: z.boolean().default(false),
+  createdAt: z.string(),
+  updatedAt: z.string()
+});
+
+export const serverSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string().nullish(),
+  internalId: z.string(),
+  nodeId: z.string(),
+  unitId: z.string(),
+  userId: z.string(),
+  allocationId: z.string(),
+  memoryMiB: z.number(),
+  diskMiB: z.number(),
+  cpuPercent: z.number(),
+  // Most backups the owner may keep; 0 disables backups
+  backupLimit: z.number().default(0),
+  state: z.string(),
+  // Overrides the unit's default startup command when set
+  startupCommand: z.string().nullish(),
+  // Values for the unit's environment variables, by variable name
+  environment: z.record(z.string()).default({}),
+  // The viewer's permissions when they are a sub-user; absent for the owner
+  permissions: z.array(z.string()).optional(),
+  validationToken: z.string().optional(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  node: nodeSchema.optional(),
+  unit: unitSchema.optional(),
+  user: userSchema.optional(),
+  allocation: allocationSchema.nullish(),
+  status: serverStatusSchema.nullish()
+});
+
+// A panel user the owner has shared a server with
+export const subuserSchema = z.object({
+  id: z.string(),
+  serverId: z.string(),
+  userId: z.string(),
+  username: z.string(),
+  permissions: z.array(z.string()),
+  createdAt: z.string(),
+  updatedAt: z.string()
+});
+
+// One step of a schedule. `payload` is the console command, the power
+// action, or the backup name depending on `action`.
+export const scheduleTaskSchema = z.object({
+  action: z.enum(['command', 'power', 'backup']),
+  payload: z.string(),
+  // Seconds to wait after the previous step before running this one
+  offsetSeconds: z.number().min(0)
+});
+
+export const scheduleSchema = z.object({
+  id: z.string(),
+  serverId: z.string(),
+  name: z.string(),
+  cron: z.string(),
+  // IANA zone the expression is evaluated in. Schedules saved before zones
+  // were sent run in UTC.
+  timezone: z.string().default('UTC'),
+  enabled: z.boolean(),
+  // Skip runs while the server is not running
+  onlyWhenOnline: z.boolean().default(false),
+  tasks: z.array(scheduleTaskSchema),
+  lastRunAt: z.string().nullish(),
+  createdAt: z.string(),
+  updatedAt: z.string()
+});
+
+export const authStateSchema = z.object({
+  username: z.string(),
+  // Effective permissions, including those from roles
+  permissions: z.array(z.string()).default([]),
+  twoFactorEnabled: z.boolean().default(false),
+  // The panel requires 2FA, so a user without it must enroll before anything else
+  twoFactorRequired: z.boolean().default(false)
+});
+
+export const authTokenSchema = z.object({
+  token: z.string()
+});
+
+// `/auth/login` answers with a token, or with a challenge to be completed
+// with a TOTP or recovery code at `/auth/login/2fa` when 2FA is enabled
+export const loginResponseSchema = z.union([
+  authTokenSchema,
+  z.object({
+    twoFactorRequired: z.literal(true),
+    challenge: z.string()
+  })
+]);
+
+// A pending TOTP enrollment; it takes effect once a code is verified
+export const twoFactorSetupSchema = z.object({
+  secret: z.string(),
+  otpauthUri: z.string()
+});
+
+export const recoveryCodesSchema = z.object({
+  recoveryCodes: z.array(z.string())
+});
+
+export const panelSettingsSchema = z.object({
+  requireTwoFactor: z.boolean()
+});
+
+// Krypton `/api/v1/state`
+export const systemStateSchema = z.object({
+  version: z.string(),
+  kernel: z.string(),
+  osVersion: z.string(),
+  hostname: z.string(),
+  cpuCores: z.number(),
+  memoryTotal: z.number(),
+  containers: z.object({
+    total: z.number(),
+    running: z.number(),
+    stopped: z.number()
+  })
+});
+
+// Krypton `/api/v1/filesystem/:id/list`
+export const fileEntrySchema = z.object({
+  name: z.string(),
+  mode: z.string(),
+  size: z.number(),
+  isFile: z.boolean(),
+  isSymlink: z.boolean(),
+  modifiedAt: z.number(),
+  createdAt: z.number(),
+  mime: z.string()
+});
+
+export const directoryListingSchema = z.object({
+  contents: z.array(fileEntrySchema)
+});
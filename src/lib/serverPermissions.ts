@@ -0,0 +1,32 @@
+import type { Server } from './types';
+
+// What a server's owner can grant to other panel users (sub-users). The
+// backend enforces these; the panel only uses them to hide or disable
+// actions the viewer would be refused anyway.
+
+export const SERVER_PERMISSIONS = [
+  { value: 'console.read', label: 'Read console', description: 'See console output, log history and resource usage' },
+  { value: 'console.write', label: 'Send commands', description: 'Run commands in the console' },
+  { value: 'power', label: 'Power actions', description: 'Start, stop, restart and kill the server' },
+  { value: 'files.read', label: 'Read files', description: 'Browse and download files' },
+  { value: 'files.write', label: 'Write files', description: 'Create, edit, upload, compress and delete files' },
+  { value: 'startup.edit', label: 'Edit startup', description: 'Change the startup command and variables' },
+  { value: 'backups', label: 'Manage backups', description: 'Create, restore, download and delete backups' }
+] as const;
+
+export type ServerPermission = typeof SERVER_PERMISSIONS[number]['value'];
+
+export const ALL_SERVER_PERMISSIONS: ServerPermission[] = SERVER_PERMISSIONS.map(permission => permission.value);
+
+// Servers come back with the viewer's effective permissions. Owners are not
+// sub-users and get no list, which means full access.
+export const hasServerPermission = (
+  server: Pick<Server, 'permissions'> | null | undefined,
+  permission: ServerPermission
+) => {
+  if (!server) return false;
+  return !server.permissions || server.permissions.includes(permission);
+};
+
+export const isServerOwner = (server: Pick<Server, 'permissions'> | null | undefined) =>
+  !!server && !server.permissions;
@@ -0,0 +1,56 @@
+// The panel's bearer token lives in localStorage under TOKEN_KEY, which also
+// lets other tabs follow logins, refreshes and logouts via the `storage` event.
+
+export const TOKEN_KEY = 'token';
+
+// How long before expiry the token is silently exchanged for a fresh one
+export const REFRESH_MARGIN_MS = 60_000;
+
+export const getToken = () => localStorage.getItem(TOKEN_KEY);
+
+export const setToken = (token: string) => localStorage.setItem(TOKEN_KEY, token);
+
+export const clearToken = () => localStorage.removeItem(TOKEN_KEY);
+
+// Expiry of a JWT in epoch milliseconds, from its `exp` claim. The signature
+// is not checked; the API does that. Returns null for tokens that are not
+// JWTs or carry no expiry, which are treated as never expiring.
+export const getTokenExpiry = (token: string): number | null => {
+  const payload = token.split('.')[1];
+  if (!payload) return null;
+
+  try {
+    const json = atob(payload.replace(/-/g, '+').replace(/_/g, '/'));
+    const { exp } = JSON.parse(json) as { exp?: unknown };
+    return typeof exp === 'number' ? exp * 1000 : null;
+  } catch {
+    return null;
+  }
+};
+
+export const isTokenExpired = (token: string, now = Date.now()) => {
+  const expiry = getTokenExpiry(token);
+  return expiry !== null && expiry <= now;
+};
+
+// Only one tab exchanges the token; the others pick up the new one through
+// the `storage` event. localStorage has no compare-and-set, so a claim is
+// read back after writing and the tab that lost the race backs off.
+const REFRESH_LOCK_KEY = 'token-refresh-lock';
+export const REFRESH_LOCK_TTL_MS = 10_000;
+
+const tabId = Math.random().toString(36).slice(2);
+
+const ownsRefreshLock = () => localStorage.getItem(REFRESH_LOCK_KEY)?.startsWith(`${tabId}:`) ?? false;
+
+export const acquireRefreshLock = (now = Date.now()) => {
+  const [owner, since] = (localStorage.getItem(REFRESH_LOCK_KEY) ?? '').split(':');
+  if (owner && owner !== tabId && now - Number(since) < REFRESH_LOCK_TTL_MS) return false;
+
+  localStorage.setItem(REFRESH_LOCK_KEY, `${tabId}:${now}`);
+  return ownsRefreshLock();
+};
+
+export const releaseRefreshLock = () => {
+  if (ownsRefreshLock()) localStorage.removeItem(REFRESH_LOCK_KEY);
+};
@@ -0,0 +1,70 @@
+import type { KryptonServerEvent } from './krypton';
+
+// In-memory history of the `stats` events received per server. It lives at
+// module scope so graphs keep their history while the user visits other
+// pages of the panel; it is not persisted across reloads.
+
+export interface StatsSample {
+  time: number;
+  cpuPercent: number;
+  memoryUsed: number;
+  memoryLimit: number;
+  // Bytes per second, derived from the cumulative counters Krypton reports
+  rxRate: number;
+  txRate: number;
+  rxBytes: number;
+  txBytes: number;
+  diskUsed: number | null;
+}
+
+// Longest window the graphs can show
+export const STATS_RETENTION = 30 * 60 * 1000;
+
+const samples = new Map<string, StatsSample[]>();
+const listeners = new Map<string, Set<() => void>>();
+
+const EMPTY: StatsSample[] = [];
+
+const rate = (current: number, previous: number, seconds: number) =>
+  // Counters reset when the container restarts
+  seconds > 0 && current >= previous ? (current - previous) / seconds : 0;
+
+export const recordStats = (serverId: string, data: KryptonServerEvent['data'], time = Date.now()) => {
+  const history = samples.get(serverId) ?? [];
+  const previous = history[history.length - 1];
+
+  const rxBytes = data.network?.rx_bytes ?? 0;
+  const txBytes = data.network?.tx_bytes ?? 0;
+  const seconds = previous ? (time - previous.time) / 1000 : 0;
+
+  const sample: StatsSample = {
+    time,
+    cpuPercent: data.cpu_percent ?? 0,
+    memoryUsed: data.memory?.used ?? 0,
+    memoryLimit: data.memory?.limit ?? 0,
+    rxRate: previous ? rate(rxBytes, previous.rxBytes, seconds) : 0,
+    txRate: previous ? rate(txBytes, previous.txBytes, seconds) : 0,
+    rxBytes,
+    txBytes,
+    diskUsed: data.disk?.used ?? null
+  };
+
+  const cutoff = time - STATS_RETENTION;
+  const firstKept = history.findIndex(entry => entry.time >= cutoff);
+  const next = [...(firstKept === -1 ? [] : history.slice(firstKept)), sample];
+
+  samples.set(serverId, next);
+  listeners.get(serverId)?.forEach(listener => listener());
+};
+
+export const getStats = (serverId: string) => samples.get(serverId) ?? EMPTY;
+
+export const subscribeToStats = (serverId: string, listener: () => void) => {
+  const set = listeners.get(serverId) ?? new Set();
+  set.add(listener);
+  listeners.set(serverId, set);
+
+  return () => {
+    set.delete(listener);
+  };
+};
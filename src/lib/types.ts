@@ -0,0 +1,110 @@
+import type { z } from 'zod';
+import type {
+  allocationSchema,
+  authStateSchema,
+  authTokenSchema,
+  configFileSchema,
+  environmentVariableSchema,
+  fileEntrySchema,
+  installScriptSchema,
+  loginResponseSchema,
+  nodeSchema,
+  panelSettingsSchema,
+  permissionSchema,
+  roleSchema,
+  scheduleSchema,
+  scheduleTaskSchema,
+  serverSchema,
+  serverStatusSchema,
+  subuserSchema,
+  systemStateSchema,
+  twoFactorSetupSchema,
+  unitSchema,
+  userSchema
+} from './schemas';
+
+// Shared entity types returned by the Argon API. Pages should import these
+// rather than redeclaring their own copies; they are inferred from the
+// response schemas in lib/schemas.ts.
+
+export type Allocation = z.infer<typeof allocationSchema>;
+export type Node = z.infer<typeof nodeSchema>;
+export type ServerStatus = z.infer<typeof serverStatusSchema>;
+export type EnvironmentVariable = z.infer<typeof environmentVariableSchema>;
+export type ConfigFile = z.infer<typeof configFileSchema>;
+export type InstallScript = z.infer<typeof installScriptSchema>;
+export type Unit = z.infer<typeof unitSchema>;
+export type User = z.infer<typeof userSchema>;
+export type PermissionInfo = z.infer<typeof permissionSchema>;
+export type Role = z.infer<typeof roleSchema>;
+export type Server = z.infer<typeof serverSchema>;
+export type AuthState = z.infer<typeof authStateSchema>;
+export type AuthTokenResponse = z.infer<typeof authTokenSchema>;
+export type LoginResponse = z.infer<typeof loginResponseSchema>;
+export type TwoFactorSetup = z.infer<typeof twoFactorSetupSchema>;
+export type PanelSettings = z.infer<typeof panelSettingsSchema>;
+export type SystemState = z.infer<typeof systemStateSchema>;
+export type FileEntry = z.infer<typeof fileEntrySchema>;
+export type Schedule = z.infer<typeof scheduleSchema>;
+export type ScheduleTask = z.infer<typeof scheduleTaskSchema>;
+export type Subuser = z.infer<typeof subuserSchema>;
+
+// Request payloads
+
+export interface NodeInput {
+  name: string;
+  fqdn: string;
+  port: number;
+  useTls: boolean;
+}
+
+export interface AllocationInput {
+  bindAddress: string;
+  port?: number;
+  portRange?: {
+    start: number;
+    end: number;
+  };
+  alias?: string;
+  notes?: string;
+}
+
+export interface ServerInput {
+  name: string;
+  description?: string;
+  nodeId: string;
+  unitId: string;
+  userId: string;
+  allocationId: string;
+  memoryMiB: number;
+  diskMiB: number;
+  cpuPercent: number;
+  backupLimit: number;
+}
+
+export interface StartupInput {
+  startupCommand?: string | null;
+  environment: Record<string, string>;
+}
+
+export interface SubuserInput {
+  username: string;
+  permissions: string[];
+}
+
+export interface UserInput {
+  username: string;
+  password?: string;
+  permissions: string[];
+  roles: string[];
+}
+
+export interface RoleInput {
+  name: string;
+  description?: string;
+  permissions: string[];
+}
+
+export type UnitInput = Omit<Unit, 'id' | 'createdAt' | 'updatedAt'>;
+
+export type ScheduleInput = Omit<Schedule, 'id' | 'serverId' | 'lastRunAt' | 'createdAt' | 'updatedAt'>;
@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateRules, parseRules, splitRules, validateVariableValue } from './variableRules';
+
+// Messages for every rule in `rules` that `value` breaks
+const check = (value: string, rules: string) => evaluateRules(value, parseRules(rules).rules).map(error => error.message);
+
+describe('splitRules', () => {
+  it('splits on pipes and drops empty parts', () => {
+    expect(splitRules('required| string ||max:20')).toEqual(['required', 'string', 'max:20']);
+  });
+
+  it('keeps pipes inside delimited regex patterns', () => {
+    expect(splitRules('required|regex:/^(true|false)$/i|max:5')).toEqual(['required', 'regex:/^(true|false)$/i', 'max:5']);
+  });
+
+  it('ends undelimited regex patterns at the next pipe', () => {
+    expect(splitRules('regex:^a|b$|max:5')).toEqual(['regex:^a', 'b$', 'max:5']);
+  });
+});
+
+describe('parseRules', () => {
+  it('reads rule names and arguments', () => {
+    expect(parseRules('required|between:1,10|in:a,b,c|regex:/^a,b$/')).toEqual({
+      rules: [
+        { name: 'required', args: [] },
+        { name: 'between', args: ['1', '10'] },
+        { name: 'in', args: ['a', 'b', 'c'] },
+        { name: 'regex', args: ['/^a,b$/'] }
+      ],
+      errors: [],
+      unknown: []
+    });
+  });
+
+  it('lists rules it does not implement without treating them as errors', () => {
+    const parsed = parseRules('sometimes|string|digits:4');
+    expect(parsed.rules).toEqual([{ name: 'string', args: [] }]);
+    expect(parsed.unknown).toEqual(['sometimes', 'digits']);
+    expect(parsed.errors).toEqual([]);
+  });
+
+  it('reports rules with the wrong number of arguments', () => {
+    expect(parseRules('required:yes|max|between:1|in').errors).toEqual([
+      { rule: 'required', message: '"required" takes no arguments' },
+      { rule: 'max', message: '"max" needs 1 argument' },
+      { rule: 'between', message: '"between" needs 2 arguments' },
+      { rule: 'in', message: '"in" needs at least one argument' }
+    ]);
+  });
+
+  it('reports non-numeric size arguments', () => {
+    expect(parseRules('min:abc').errors).toEqual([{ rule: 'min', message: '"min" needs numeric arguments' }]);
+  });
+
+  it('reports invalid patterns', () => {
+    expect(parseRules('regex:/(/').errors).toEqual([{ rule: 'regex', message: 'Invalid pattern /(/' }]);
+  });
+});
+
+describe('evaluateRules', () => {
+  it('only checks required for empty values', () => {
+    expect(check('', 'required|integer')).toEqual(['This field is required']);
+    expect(check('  ', 'integer|min:5')).toEqual([]);
+  });
+
+  it('treats nullable and string as always satisfied', () => {
+    expect(check('anything', 'nullable|string')).toEqual([]);
+  });
+
+  it('checks integer', () => {
+    expect(check('-42', 'integer')).toEqual([]);
+    expect(check('4.2', 'integer')).toEqual(['Must be an integer']);
+  });
+
+  it('checks numeric', () => {
+    expect(check('4.2e3', 'numeric')).toEqual([]);
+    expect(check('four', 'numeric')).toEqual(['Must be a number']);
+  });
+
+  it('checks boolean', () => {
+    for (const value of ['0', '1', 'true', 'false']) expect(check(value, 'boolean')).toEqual([]);
+    expect(check('yes', 'boolean')).toEqual(['Must be true, false, 1 or 0']);
+  });
+
+  it('compares min, max and between against the number for numeric fields', () => {
+    expect(check('5', 'integer|min:10')).toEqual(['Must be at least 10']);
+    expect(check('25', 'numeric|max:20')).toEqual(['Must be at most 20']);
+    expect(check('15', 'integer|between:10,20')).toEqual([]);
+    expect(check('25', 'integer|between:10,20')).toEqual(['Must be between 10 and 20']);
+  });
+
+  it('compares min, max and between against the length otherwise', () => {
+    expect(check('abc', 'min:5')).toEqual(['Must be at least 5 characters']);
+    expect(check('abcdef', 'max:5')).toEqual(['Must be at most 5 characters']);
+    expect(check('abc', 'between:2,4')).toEqual([]);
+    expect(check('abcde', 'between:2,4')).toEqual(['Must be between 2 and 4 characters']);
+  });
+
+  it('checks in', () => {
+    expect(check('b', 'in:a,b')).toEqual([]);
+    expect(check('c', 'in:a,b')).toEqual(['Must be one of: a, b']);
+  });
+
+  it('checks regex with and without delimiters', () => {
+    expect(check('TRUE', 'regex:/^(true|false)$/i')).toEqual([]);
+    expect(check('maybe', 'regex:/^(true|false)$/i')).toEqual(['Has an invalid format']);
+    expect(check('abc', 'regex:^a')).toEqual([]);
+    expect(check('cab', 'regex:^a')).toEqual(['Has an invalid format']);
+  });
+
+  it('keeps the rules following an undelimited regex', () => {
+    expect(check('abcdef', 'regex:^a|max:5')).toEqual(['Must be at most 5 characters']);
+  });
+
+  it('checks url', () => {
+    expect(check('https://example.com/pack.zip', 'url')).toEqual([]);
+    expect(check('example.com', 'url')).toEqual(['Must be a valid URL']);
+  });
+
+  it('checks alpha_dash', () => {
+    expect(check('world_1-nether', 'alpha_dash')).toEqual([]);
+    expect(check('my world', 'alpha_dash')).toEqual(['May only contain letters, numbers, dashes and underscores']);
+  });
+
+  it('reports every rule that fails', () => {
+    expect(check('1.5', 'integer|max:1')).toEqual(['Must be an integer', 'Must be at most 1']);
+  });
+});
+
+describe('validateVariableValue', () => {
+  it('returns the first problem or null', () => {
+    expect(validateVariableValue('25565', 'required|integer|between:1,65535')).toBeNull();
+    expect(validateVariableValue('', 'required|integer')).toBe('This field is required');
+    expect(validateVariableValue('x', 'integer|min:2')).toBe('Must be an integer');
+  });
+
+  it('ignores unknown and malformed rules', () => {
+    expect(validateVariableValue('abc', 'digits:4|max')).toBeNull();
+  });
+});
@@ -0,0 +1,205 @@
+// Parser and evaluator for the Laravel-style `rules` string on unit
+// environment variables, e.g. `required|string|max:20`. Units imported from
+// Pterodactyl eggs carry these rules verbatim. The backend remains the
+// authority; this catches mistakes before a save round-trips.
+
+export type RuleName =
+  | 'required'
+  | 'nullable'
+  | 'string'
+  | 'integer'
+  | 'numeric'
+  | 'boolean'
+  | 'min'
+  | 'max'
+  | 'between'
+  | 'in'
+  | 'regex'
+  | 'url'
+  | 'alpha_dash';
+
+export interface Rule {
+  name: RuleName;
+  args: string[];
+}
+
+// A rule the value does not satisfy
+export interface RuleError {
+  rule: RuleName;
+  message: string;
+}
+
+// A problem with the rule string itself
+export interface RuleSyntaxError {
+  rule: string;
+  message: string;
+}
+
+export interface ParsedRules {
+  rules: Rule[];
+  errors: RuleSyntaxError[];
+  // Names of rules this parser doesn't implement (e.g. `sometimes`, `digits`).
+  // They are skipped rather than rejected; the backend still applies them.
+  unknown: string[];
+}
+
+// Number of arguments each rule takes; null for a comma separated list
+const ARITY: Record<RuleName, number | null> = {
+  required: 0,
+  nullable: 0,
+  string: 0,
+  integer: 0,
+  numeric: 0,
+  boolean: 0,
+  min: 1,
+  max: 1,
+  between: 2,
+  in: null,
+  regex: 1,
+  url: 0,
+  alpha_dash: 0
+};
+
+const isRuleName = (name: string): name is RuleName => Object.prototype.hasOwnProperty.call(ARITY, name);
+
+// Splits a rule string on `|`, keeping delimited `regex:` patterns that
+// themselves contain a pipe (e.g. `regex:/^(true|false)$/`) in one piece.
+// Undelimited patterns end at the next pipe, so `regex:^a|max:5` is two rules.
+export const splitRules = (rules: string) => {
+  const parts: string[] = [];
+
+  for (const segment of rules.split('|')) {
+    const previous = parts[parts.length - 1];
+    if (previous?.startsWith('regex:/') && !/^regex:\/.*\/[a-z]*$/.test(previous)) {
+      parts[parts.length - 1] = `${previous}|${segment}`;
+    } else if (segment.trim()) {
+      parts.push(segment.trim());
+    }
+  }
+
+  return parts;
+};
+
+const toRegExp = (literal: string) => {
+  const match = literal.match(/^\/(.*)\/([a-z]*)$/);
+  try {
+    return match ? new RegExp(match[1], match[2]) : new RegExp(literal);
+  } catch {
+    return null;
+  }
+};
+
+export const parseRules = (rules: string): ParsedRules => {
+  const result: ParsedRules = { rules: [], errors: [], unknown: [] };
+
+  for (const part of splitRules(rules)) {
+    const separator = part.indexOf(':');
+    const name = (separator === -1 ? part : part.slice(0, separator)).trim();
+    const argument = separator === -1 ? '' : part.slice(separator + 1);
+
+    if (!isRuleName(name)) {
+      result.unknown.push(name);
+      continue;
+    }
+
+    // Regex patterns may contain commas, so they are never split
+    const args = name === 'regex' ? [argument] : argument ? argument.split(',') : [];
+    const arity = ARITY[name];
+
+    if (arity === null ? args.length === 0 : args.length !== arity) {
+      result.errors.push({
+        rule: name,
+        message: arity === 0 ? `"${name}" takes no arguments` : `"${name}" needs ${arity ?? 'at least one'} argument${arity === 2 ? 's' : ''}`
+      });
+      continue;
+    }
+
+    if ((name === 'min' || name === 'max' || name === 'between') && args.some(arg => isNaN(Number(arg)))) {
+      result.errors.push({ rule: name, message: `"${name}" needs numeric arguments` });
+      continue;
+    }
+
+    if (name === 'regex' && !toRegExp(argument)) {
+      result.errors.push({ rule: name, message: `Invalid pattern ${argument}` });
+      continue;
+    }
+
+    result.rules.push({ name, args });
+  }
+
+  return result;
+};
+
+const hasRule = (rules: Rule[], name: RuleName) => rules.some(rule => rule.name === name);
+
+// Like Laravel, min/max/between compare numbers for numeric fields and
+// string length otherwise
+const sizeCheck = (value: string, numeric: boolean, compare: (size: number) => boolean, bound: string) => {
+  const size = numeric ? Number(value) : value.length;
+  return compare(size) ? null : numeric ? bound : `${bound} characters`;
+};
+
+const evaluateRule = (value: string, rule: Rule, numeric: boolean): string | null => {
+  const [first, second] = rule.args.map(Number);
+
+  switch (rule.name) {
+    case 'integer':
+      return /^[+-]?\d+$/.test(value) ? null : 'Must be an integer';
+
+    case 'numeric':
+      return value.trim() !== '' && isFinite(Number(value)) ? null : 'Must be a number';
+
+    case 'boolean':
+      // Laravel takes 0 and 1; eggs commonly use true and false as well
+      return ['0', '1', 'true', 'false'].includes(value) ? null : 'Must be true, false, 1 or 0';
+
+    case 'min':
+      return sizeCheck(value, numeric, size => size >= first, `Must be at least ${first}`);
+
+    case 'max':
+      return sizeCheck(value, numeric, size => size <= first, `Must be at most ${first}`);
+
+    case 'between':
+      return sizeCheck(value, numeric, size => size >= first && size <= second, `Must be between ${first} and ${second}`);
+
+    case 'in':
+      return rule.args.includes(value) ? null : `Must be one of: ${rule.args.join(', ')}`;
+
+    case 'regex':
+      return toRegExp(rule.args[0])?.test(value) === false ? 'Has an invalid format' : null;
+
+    case 'url':
+      try {
+        const url = new URL(value);
+        return url.host ? null : 'Must be a valid URL';
+      } catch {
+        return 'Must be a valid URL';
+      }
+
+    case 'alpha_dash':
+      return /^[\p{L}\p{M}\p{N}_-]+$/u.test(value) ? null : 'May only contain letters, numbers, dashes and underscores';
+
+    default:
+      return null;
+  }
+};
+
+// Every rule `value` breaks. Empty values only fail `required`; the other
+// rules are skipped for them, as Laravel does for optional fields.
+export const evaluateRules = (value: string, rules: Rule[]): RuleError[] => {
+  if (value.trim() === '') {
+    return hasRule(rules, 'required') ? [{ rule: 'required', message: 'This field is required' }] : [];
+  }
+
+  const numeric = hasRule(rules, 'numeric') || hasRule(rules, 'integer');
+
+  return rules.flatMap(rule => {
+    const message = evaluateRule(value, rule, numeric);
+    return message ? [{ rule: rule.name, message }] : [];
+  });
+};
+
+// Validates `value` against a rule string, returning the first problem as a
+// message or null when it passes. Unknown or malformed rules are ignored.
+export const validateVariableValue = (value: string, rules: string): string | null =>
+  evaluateRules(value, parseRules(rules).rules)[0]?.message ?? null;
@@ -0,0 +1,296 @@
+import { useState, useEffect } from 'react';
+import { saveAs } from 'file-saver';
+import { toDataURL } from 'qrcode';
+import { ShieldCheckIcon, ShieldExclamationIcon, ArrowDownTrayIcon } from '@heroicons/react/24/outline';
+import { useAuth } from './[auth]/Auth';
+import { api, getErrorMessage } from '../lib/api';
+import type { TwoFactorSetup } from '../lib/types';
+
+type CodeAction = 'disable' | 'regenerate';
+
+const downloadRecoveryCodes = (codes: string[], username: string) => {
+  const content = [
+    `Argon recovery codes for ${username}`,
+    'Each code can be used once to sign in without your authenticator app.',
+    '',
+    ...codes
+  ].join('\n');
+  saveAs(new Blob([content + '\n'], { type: 'text/plain;charset=utf-8' }), 'argon-recovery-codes.txt');
+};
+
+const CodeInput: React.FC<{
+  value: string,
+  onChange: (value: string) => void
+}> = ({ value, onChange }) => (
+  <input
+    type="text"
+    value={value}
+    onChange={(e) => onChange(e.target.value)}
+    className="block w-40 px-2 py-1.5 rounded-md bg-white dark:bg-gray-800 border border-gray-200
+             dark:border-gray-700 text-xs font-mono tracking-widest text-gray-700 dark:text-gray-200
+             focus:outline-none focus:ring-0 focus:border-gray-400 dark:focus:border-gray-600"
+    placeholder="123456"
+    autoComplete="one-time-code"
+    inputMode="numeric"
+    required
+  />
+);
+
+const AccountSecurityPage = () => {
+  const { user, reloadUser } = useAuth();
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [qrCode, setQrCode] = useState<string | null>(null);
+  const [code, setCode] = useState('');
+  const [action, setAction] = useState<CodeAction | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // The QR code is drawn here from the otpauth URI so the secret never
+  // leaves the browser for a third-party image service
+  useEffect(() => {
+    if (!setup) {
+      setQrCode(null);
+      return;
+    }
+
+    toDataURL(setup.otpauthUri, { margin: 1, width: 192 })
+      .then(setQrCode)
+      .catch(err => setError(getErrorMessage(err, 'Failed to render QR code')));
+  }, [setup]);
+
+  if (!user) return null;
+
+  const run = async (task: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await task();
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const startSetup = () => run(async () => {
+    setSetup(await api.auth.twoFactor.setup());
+    setCode('');
+  });
+
+  const confirmSetup = (e: React.FormEvent) => {
+    e.preventDefault();
+    return run(async () => {
+      const { recoveryCodes } = await api.auth.twoFactor.enable(code.trim());
+      setRecoveryCodes(recoveryCodes);
+      setSetup(null);
+      setCode('');
+      await reloadUser();
+    });
+  };
+
+  const confirmAction = (e: React.FormEvent) => {
+    e.preventDefault();
+    return run(async () => {
+      if (action === 'disable') {
+        await api.auth.twoFactor.disable(code.trim());
+        setRecoveryCodes(null);
+        await reloadUser();
+      } else {
+        const { recoveryCodes } = await api.auth.twoFactor.regenerateRecoveryCodes(code.trim());
+        setRecoveryCodes(recoveryCodes);
+      }
+      setAction(null);
+      setCode('');
+    });
+  };
+
+  const openAction = (next: CodeAction) => {
+    setAction(next);
+    setCode('');
+    setError(null);
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-900 p-6">
+      <div className="w-full max-w-3xl space-y-5">
+        <div className="space-y-1.5">
+          <h1 className="text-lg font-semibold text-gray-800 dark:text-gray-200">Account security</h1>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Protect your account with a one-time code from an authenticator app when you sign in.
+          </p>
+        </div>
+
+        {user.twoFactorRequired && !user.twoFactorEnabled && (
+          <div className="bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-900/30 rounded-md p-4">
+            <div className="flex items-center space-x-2">
+              <ShieldExclamationIcon className="h-4 w-4 text-amber-700 dark:text-amber-500" strokeWidth="2" />
+              <p className="text-amber-700 dark:text-amber-500 text-xs font-medium">
+                This panel requires two-factor authentication. Set it up to continue.
+              </p>
+            </div>
+          </div>
+        )}
+
+        {error && (
+          <div className="px-2 py-1.5 rounded-md bg-red-50 dark:bg-red-900/20 border border-red-100 dark:border-red-800">
+            <p className="text-xs text-red-600 dark:text-red-400">{error}</p>
+          </div>
+        )}
+
+        <div className="bg-white dark:bg-gray-800 rounded-md border border-gray-200 dark:border-gray-700 shadow-xs p-4 space-y-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <ShieldCheckIcon className={`h-5 w-5 ${
+                user.twoFactorEnabled ? 'text-green-500' : 'text-gray-400 dark:text-gray-500'
+              }`} />
+              <div>
+                <div className="text-xs font-medium text-gray-900 dark:text-gray-100">Two-factor authentication</div>
+                <div className="text-[11px] text-gray-500 dark:text-gray-400">
+                  {user.twoFactorEnabled ? 'Enabled' : 'Not enabled'}
+                </div>
+              </div>
+            </div>
+
+            {!user.twoFactorEnabled && !setup && (
+              <button
+                onClick={startSetup}
+                disabled={busy}
+                className="px-3 py-1.5 text-xs font-medium text-white bg-gray-900 dark:bg-gray-700 rounded-md
+                         hover:bg-gray-800 dark:hover:bg-gray-600 disabled:opacity-50"
+              >
+                Set up
+              </button>
+            )}
+
+            {user.twoFactorEnabled && !action && (
+              <div className="flex items-center space-x-2">
+                <button
+                  onClick={() => openAction('regenerate')}
+                  className="px-3 py-1.5 text-xs font-medium text-gray-600 dark:text-gray-300 bg-white dark:bg-gray-800
+                           border border-gray-200 dark:border-gray-700 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700"
+                >
+                  New recovery codes
+                </button>
+                {!user.twoFactorRequired && (
+                  <button
+                    onClick={() => openAction('disable')}
+                    className="px-3 py-1.5 text-xs font-medium text-red-600 dark:text-red-400 bg-white dark:bg-gray-800
+                             border border-gray-200 dark:border-gray-700 rounded-md hover:bg-red-50 dark:hover:bg-red-900/20"
+                  >
+                    Disable
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+
+          {setup && (
+            <form onSubmit={confirmSetup} className="border-t border-gray-200 dark:border-gray-700 pt-4 flex space-x-6">
+              <div className="w-48 h-48 flex-shrink-0 rounded-md border border-gray-200 dark:border-gray-700 bg-white flex items-center justify-center">
+                {qrCode && <img src={qrCode} alt="Two-factor QR code" className="w-full h-full rounded-md" />}
+              </div>
+              <div className="space-y-3">
+                <p className="text-xs text-gray-600 dark:text-gray-400">
+                  Scan the QR code with your authenticator app, then enter the code it shows. If you can't scan it,
+                  enter this key manually:
+                </p>
+                <p className="text-xs font-mono break-all text-gray-900 dark:text-gray-100">{setup.secret}</p>
+                <CodeInput value={code} onChange={setCode} />
+                <div className="flex items-center space-x-3">
+                  <button
+                    type="submit"
+                    disabled={busy}
+                    className="px-3 py-1.5 text-xs font-medium text-white bg-gray-900 dark:bg-gray-700 rounded-md
+                             hover:bg-gray-800 dark:hover:bg-gray-600 disabled:opacity-50"
+                  >
+                    {busy ? 'Verifying...' : 'Verify and enable'}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setSetup(null)}
+                    className="text-xs text-gray-500 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            </form>
+          )}
+
+          {action && (
+            <form onSubmit={confirmAction} className="border-t border-gray-200 dark:border-gray-700 pt-4 space-y-3">
+              <p className="text-xs text-gray-600 dark:text-gray-400">
+                {action === 'disable'
+                  ? 'Enter a code from your authenticator app to turn off two-factor authentication.'
+                  : 'Enter a code from your authenticator app. Your current recovery codes will stop working.'}
+              </p>
+              <CodeInput value={code} onChange={setCode} />
+              <div className="flex items-center space-x-3">
+                <button
+                  type="submit"
+                  disabled={busy}
+                  className={`px-3 py-1.5 text-xs font-medium text-white rounded-md disabled:opacity-50 ${
+                    action === 'disable'
+                      ? 'bg-red-600 hover:bg-red-700'
+                      : 'bg-gray-900 dark:bg-gray-700 hover:bg-gray-800 dark:hover:bg-gray-600'
+                  }`}
+                >
+                  {action === 'disable' ? 'Disable' : 'Generate codes'}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setAction(null)}
+                  className="text-xs text-gray-500 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100"
+                >
+                  Cancel
+                </button>
+              </div>
+            </form>
+          )}
+        </div>
+
+        {recoveryCodes && (
+          <div className="bg-white dark:bg-gray-800 rounded-md border border-gray-200 dark:border-gray-700 shadow-xs p-4 space-y-3">
+            <div className="flex items-center justify-between">
+              <div>
+                <div className="text-xs font-medium text-gray-900 dark:text-gray-100">Recovery codes</div>
+                <div className="text-[11px] text-gray-500 dark:text-gray-400">
+                  Keep these somewhere safe. Each one signs you in once if you lose your authenticator; they won't be shown again.
+                </div>
+              </div>
+              <button
+                onClick={() => downloadRecoveryCodes(recoveryCodes, user.username)}
+                className="flex items-center px-3 py-1.5 text-xs font-medium text-gray-600 dark:text-gray-300 bg-white dark:bg-gray-800
+                         border border-gray-200 dark:border-gray-700 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700"
+              >
+                <ArrowDownTrayIcon className="w-3.5 h-3.5 mr-1.5" />
+                Download
+              </button>
+            </div>
+            <div className="grid grid-cols-4 gap-2">
+              {recoveryCodes.map(recoveryCode => (
+                <code
+                  key={recoveryCode}
+                  className="px-2 py-1 text-xs text-center font-mono text-gray-800 dark:text-gray-200 bg-gray-50 dark:bg-gray-900 rounded"
+                >
+                  {recoveryCode}
+                </code>
+              ))}
+            </div>
+            <div className="flex justify-end">
+              <button
+                onClick={() => setRecoveryCodes(null)}
+                className="text-xs text-gray-500 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100"
+              >
+                I've saved them
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AccountSecurityPage;
@@ -1,8 +1,13 @@
 import { useState, useEffect } from 'react';
 import { ServerIcon, HardDriveIcon, BoxIcon, HelpCircleIcon, GithubIcon, BookOpenIcon, HeartIcon } from 'lucide-react';
 import AdminBar from '../components/AdminBar';
+import { useCan } from '../hooks/useCan';
+import { api, getErrorMessage } from '../lib/api';
 
 const AdminPage = () => {
+  // The overview is open to anyone with SERVERS_VIEW, but listing units
+  // needs ADMIN, so the units card is only shown to administrators
+  const canViewUnits = useCan('ADMIN');
   const [stats, setStats] = useState({
     servers: { total: 0, online: 0, offline: 0 },
     units: { total: 0 },
@@ -15,36 +20,30 @@ const AdminPage = () => {
   useEffect(() => {
     const fetchStats = async () => {
       try {
-        const token = localStorage.getItem('token');
-        const headers = { 'Authorization': `Bearer ${token}` };
-
-        // Fetch servers
-        const serversRes = await fetch('/api/servers', { headers });
-        const servers = await serversRes.json();
-        
-        // Fetch units
-        const unitsRes = await fetch('/api/units', { headers });
-        const units = await unitsRes.json();
+        const [servers, units] = await Promise.all([
+          api.servers.list(),
+          canViewUnits ? api.units.list() : Promise.resolve([])
+        ]);
 
         // Calculate stats
         setStats({
           servers: {
             total: servers.length,
-            online: servers.filter((s: any) => s.status?.state === 'running').length,
-            offline: servers.filter((s: any) => s.status?.state !== 'running').length
+            online: servers.filter(s => s.status?.state === 'running').length,
+            offline: servers.filter(s => s.status?.state !== 'running').length
           },
           units: {
             total: units.length
           },
           nodes: {
-            total: new Set(servers.map((s: any) => s.node?.id)).size,
-            online: new Set(servers.filter((s: any) => s.node?.isOnline).map((s: any) => s.node?.id)).size,
-            offline: new Set(servers.filter((s: any) => !s.node?.isOnline).map((s: any) => s.node?.id)).size
+            total: new Set(servers.map(s => s.node?.id)).size,
+            online: new Set(servers.filter(s => s.node?.isOnline).map(s => s.node?.id)).size,
+            offline: new Set(servers.filter(s => !s.node?.isOnline).map(s => s.node?.id)).size
           }
         });
         setVersion('1.0.0');
       } catch (err) {
-        setError(err instanceof Error ? err.message : 'An error occurred');
+        setError(getErrorMessage(err));
       } finally {
         setLoading(false);
       }
@@ -94,13 +93,13 @@ const AdminPage = () => {
         { label: 'Offline', value: stats.nodes.offline }
       ]
     },
-    {
+    ...(canViewUnits ? [{
       title: 'Units',
       icon: BoxIcon,
       stats: [
         { label: 'Total', value: stats.units.total }
       ]
-    }
+    }] : [])
   ];
 
   return (
@@ -3,6 +3,8 @@ import { Link } from 'react-router-dom';
 import { ChevronRightIcon, ServerIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
 import { useState, useEffect } from 'react';
 import LoadingSpinner from '../components/LoadingSpinner';
+import { api, getErrorMessage } from '../lib/api';
+import type { Server } from '../lib/types';
 
 {/* 
 
@@ -84,30 +86,6 @@ Never be a weddin' plan for the heartless
 Low life for life 'cause I'm heartless
 
 */}
-interface Node {
-  id: string;
-  fqdn: string;
-  port: number;
-  isOnline: boolean;
-}
-
-interface ServerStatus {
-  state: string;
-  status: any;
-}
-
-interface Server {
-  id: string;
-  name: string;
-  internalId: string;
-  state: string;
-  cpuPercent: number;
-  memoryMiB: number;
-  node: Node;
-  status: ServerStatus;
-  userId: string;
-}
-
 export default function Home() {
   const { user } = useAuth();
   const [servers, setServers] = useState<Server[]>([]);
@@ -117,21 +95,10 @@ export default function Home() {
   useEffect(() => {
     const fetchServers = async () => {
       try {
-        const token = localStorage.getItem('token');
-        const response = await fetch('/api/servers', {
-          headers: {
-            'Authorization': `Bearer ${token}`
-          }
-        });
-        
-        if (!response.ok) {
-          throw new Error('Failed to fetch servers');
-        }
-        
-        const data = await response.json();
+        const data = await api.servers.list();
         setServers(data);
       } catch (err) {
-        setError(err instanceof Error ? err.message : 'An error occurred');
+        setError(getErrorMessage(err));
       } finally {
         setLoading(false);
       }
@@ -0,0 +1,251 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { SendIcon, PlusIcon } from 'lucide-react';
+import AdminBar from '../../components/AdminBar';
+import LoadingSpinner from '../../components/LoadingSpinner';
+import ConsoleTile, { TileSender } from '../../components/ConsoleTile';
+import { api, getErrorMessage } from '../../lib/api';
+import type { Server } from '../../lib/types';
+
+type WallServer = Server & { node: NonNullable<Server['node']> };
+
+interface WallLayout {
+  serverIds: string[];
+  columns: number;
+  tileHeight: number;
+}
+
+const LAYOUT_STORAGE_KEY = 'consoleWall';
+const COLUMN_OPTIONS = [1, 2, 3, 4];
+const HEIGHT_OPTIONS = [240, 320, 480, 640];
+const DEFAULT_LAYOUT: WallLayout = { serverIds: [], columns: 2, tileHeight: 320 };
+
+const getStoredLayout = (): WallLayout => {
+  try {
+    return { ...DEFAULT_LAYOUT, ...JSON.parse(localStorage.getItem(LAYOUT_STORAGE_KEY) || '{}') };
+  } catch {
+    return DEFAULT_LAYOUT;
+  }
+};
+
+const AdminConsolesPage = () => {
+  const [servers, setServers] = useState<WallServer[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [layout, setLayout] = useState<WallLayout>(getStoredLayout);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [broadcast, setBroadcast] = useState('');
+  const [broadcastResult, setBroadcastResult] = useState<string | null>(null);
+  const [addServerId, setAddServerId] = useState('');
+  const sendersRef = useRef(new Map<string, TileSender>());
+
+  useEffect(() => {
+    const fetchServers = async () => {
+      try {
+        const data = await api.servers.list(['node']);
+        setServers(data.filter((server): server is WallServer => !!server.node));
+      } catch (err) {
+        setError(getErrorMessage(err));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchServers();
+  }, []);
+
+  useEffect(() => {
+    localStorage.setItem(LAYOUT_STORAGE_KEY, JSON.stringify(layout));
+  }, [layout]);
+
+  const registerSender = useCallback((serverId: string, sender: TileSender | null) => {
+    if (sender) {
+      sendersRef.current.set(serverId, sender);
+    } else {
+      sendersRef.current.delete(serverId);
+    }
+  }, []);
+
+  // Servers removed since the layout was saved are dropped silently
+  const wallServers = layout.serverIds
+    .map(serverId => servers.find(server => server.id === serverId))
+    .filter((server): server is WallServer => !!server);
+  const availableServers = servers.filter(server => !layout.serverIds.includes(server.id));
+
+  const addServer = () => {
+    if (!addServerId) return;
+    setLayout(prev => ({ ...prev, serverIds: [...prev.serverIds, addServerId] }));
+    setSelected(prev => new Set(prev).add(addServerId));
+    setAddServerId('');
+  };
+
+  const removeServer = (serverId: string) => {
+    setLayout(prev => ({ ...prev, serverIds: prev.serverIds.filter(id => id !== serverId) }));
+    setSelected(prev => {
+      const next = new Set(prev);
+      next.delete(serverId);
+      return next;
+    });
+  };
+
+  const setServerSelected = (serverId: string, value: boolean) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (value) next.add(serverId); else next.delete(serverId);
+      return next;
+    });
+  };
+
+  const allSelected = wallServers.length > 0 && wallServers.every(server => selected.has(server.id));
+
+  const sendBroadcast = (e: React.FormEvent) => {
+    e.preventDefault();
+    const command = broadcast.trim();
+    if (!command) return;
+
+    const targets = wallServers.filter(server => selected.has(server.id));
+    if (targets.length === 0) {
+      setBroadcastResult('Select at least one server to broadcast to');
+      return;
+    }
+
+    const failed = targets.filter(server => !sendersRef.current.get(server.id)?.(command));
+    setBroadcastResult(failed.length === 0
+      ? `Sent to ${targets.length} server${targets.length === 1 ? '' : 's'}`
+      : `Sent to ${targets.length - failed.length} of ${targets.length} servers. Failed: ${failed.map(server => server.name).join(', ')}`
+    );
+    setBroadcast('');
+  };
+
+  if (loading) return <LoadingSpinner />;
+
+  if (error) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <AdminBar />
+        <div className="p-6">
+          <div className="text-red-600 text-xs">Error: {error}</div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <AdminBar />
+      <div className="p-6 space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-lg font-semibold text-gray-900">Consoles</h1>
+            <p className="text-xs text-gray-500 mt-1">
+              Watch several servers at once and send commands to many of them.
+            </p>
+          </div>
+          <div className="flex items-center space-x-2">
+            <select
+              value={addServerId}
+              onChange={(e) => setAddServerId(e.target.value)}
+              className="px-2 py-2 text-xs text-gray-700 bg-white border border-gray-200 rounded-md focus:outline-none"
+            >
+              <option value="">Select a server...</option>
+              {availableServers.map(server => (
+                <option key={server.id} value={server.id}>{server.name}</option>
+              ))}
+            </select>
+            <button
+              onClick={addServer}
+              disabled={!addServerId}
+              className="flex items-center px-3 py-2 text-xs font-medium text-white bg-gray-900 rounded-md hover:bg-gray-800 disabled:opacity-50"
+            >
+              <PlusIcon className="w-3.5 h-3.5 mr-1.5" />
+              Add Console
+            </button>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between space-x-4">
+          <form onSubmit={sendBroadcast} className="flex flex-1 items-center space-x-2">
+            <input
+              type="text"
+              value={broadcast}
+              onChange={(e) => setBroadcast(e.target.value)}
+              placeholder={`Broadcast a command to ${selected.size} selected server${selected.size === 1 ? '' : 's'}...`}
+              className="flex-1 px-3 py-2 text-xs font-mono bg-white border border-gray-200 rounded-md focus:outline-none focus:ring-1 focus:ring-gray-400"
+            />
+            <button
+              type="submit"
+              disabled={!broadcast.trim() || selected.size === 0}
+              className="flex items-center px-3 py-2 text-xs font-medium text-white bg-gray-900 rounded-md hover:bg-gray-800 disabled:opacity-50"
+            >
+              <SendIcon className="w-3.5 h-3.5 mr-1.5" />
+              Broadcast
+            </button>
+          </form>
+
+          <div className="flex items-center space-x-3">
+            <label className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                checked={allSelected}
+                onChange={(e) => setSelected(e.target.checked ? new Set(wallServers.map(server => server.id)) : new Set())}
+                className="text-xs"
+              />
+              <span className="text-xs text-gray-600">Select all</span>
+            </label>
+            <select
+              value={layout.columns}
+              onChange={(e) => setLayout(prev => ({ ...prev, columns: Number(e.target.value) }))}
+              className="px-2 py-2 text-xs text-gray-700 bg-white border border-gray-200 rounded-md focus:outline-none"
+            >
+              {COLUMN_OPTIONS.map(columns => (
+                <option key={columns} value={columns}>{columns} column{columns === 1 ? '' : 's'}</option>
+              ))}
+            </select>
+            <select
+              value={layout.tileHeight}
+              onChange={(e) => setLayout(prev => ({ ...prev, tileHeight: Number(e.target.value) }))}
+              className="px-2 py-2 text-xs text-gray-700 bg-white border border-gray-200 rounded-md focus:outline-none"
+            >
+              {HEIGHT_OPTIONS.map(height => (
+                <option key={height} value={height}>{height}px tall</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {broadcastResult && (
+          <div className="text-xs text-gray-600">{broadcastResult}</div>
+        )}
+
+        {wallServers.length > 0 ? (
+          <div
+            className="grid gap-4"
+            style={{ gridTemplateColumns: `repeat(${layout.columns}, minmax(0, 1fr))` }}
+          >
+            {wallServers.map(server => (
+              // Tiles can also be resized individually by dragging their corner
+              <div
+                key={server.id}
+                className="resize-y overflow-hidden"
+                style={{ height: layout.tileHeight }}
+              >
+                <ConsoleTile
+                  server={server}
+                  selected={selected.has(server.id)}
+                  onSelectedChange={(value) => setServerSelected(server.id, value)}
+                  onRemove={() => removeServer(server.id)}
+                  registerSender={registerSender}
+                />
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-6 bg-white rounded-md border border-gray-200">
+            <p className="text-xs text-gray-500">Add a server to start watching its console</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AdminConsolesPage;
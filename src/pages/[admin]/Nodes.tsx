@@ -1,33 +1,13 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { ChevronRightIcon, PlusIcon, ServerIcon, TrashIcon, PencilIcon, ArrowLeftIcon, CopyIcon, CheckIcon, ChevronLeftIcon, ChevronDownIcon, AlertTriangleIcon } from 'lucide-react';
 import LoadingSpinner from '../../components/LoadingSpinner';
+import { useCan } from '../../hooks/useCan';
+import { api, ApiError, getErrorMessage } from '../../lib/api';
+import { createNodeClient, nodeUrl } from '../../lib/krypton';
+import type { AllocationInput, Node as BaseNode, NodeInput, Server, SystemState } from '../../lib/types';
 
-interface SystemState {
-  version: string;
-  kernel: string;
-  osVersion: string;
-  hostname: string;
-  cpuCores: number;
-  memoryTotal: number;
-  containers: {
-    total: number;
-    running: number;
-    stopped: number;
-  };
-}
-
-interface Node {
-  id: string;
-  name: string;
-  fqdn: string;
-  port: number;
-  isOnline: boolean;
-  lastChecked: Date;
-  createdAt: Date;
-  updatedAt: Date;
-  systemState?: SystemState;
-  connectionKey?: string;
-  allocations?: Allocation[];
+interface Node extends BaseNode {
+  systemState?: SystemState | null;
   resources?: {
     memoryAllocated: number;
     diskAllocated: number;
@@ -35,44 +15,6 @@ interface Node {
   };
 }
 
-interface Server {
-  id: string;
-  name: string;
-  internalId: string;
-  state: string;
-  cpuPercent: number;
-  memoryMiB: number;
-  diskMiB?: number;
-  userId: string;
-  status: {
-    state: string;
-  };
-  node: Node;
-}
-
-interface Allocation {
-  id: string;
-  nodeId: string;
-  port: number;
-  bindAddress: string;
-  alias?: string;
-  notes?: string;
-  assigned: boolean;
-  createdAt: Date;
-  updatedAt: Date;
-}
-
-interface AllocationFormData {
-  bindAddress: string;
-  port?: number;
-  portRange?: {
-    start: number;
-    end: number;
-  };
-  alias?: string;
-  notes?: string;
-}
-
 interface PaginationState {
   page: number;
   limit: number;
@@ -81,11 +23,7 @@ interface PaginationState {
 
 type View = 'list' | 'create' | 'view' | 'edit';
 
-interface FormData {
-  name: string;
-  fqdn: string;
-  port: number;
-}
+type FormData = NodeInput;
 
 // Alert component for displaying error/success messages
 interface AlertProps {
@@ -120,6 +58,8 @@ const Alert: React.FC<AlertProps> = ({ type, message, onDismiss }) => {
 };
 
 const AdminNodesPage = () => {
+  const canManage = useCan('NODES_MANAGE');
+  const canViewServers = useCan('SERVERS_VIEW');
   const [nodes, setNodes] = useState<Node[]>([]);
   const [servers, setServers] = useState<Server[]>([]);
   const [loading, setLoading] = useState(true);
@@ -131,10 +71,11 @@ const AdminNodesPage = () => {
   const [formData, setFormData] = useState<FormData>({
     name: '',
     fqdn: '',
-    port: 8080
+    port: 8080,
+    useTls: false
   });
   const [activeTab, setActiveTab] = useState<'overview' | 'servers' | 'configure' | 'allocations'>('overview');
-  const [allocationFormData, setAllocationFormData] = useState<AllocationFormData>({
+  const [allocationFormData, setAllocationFormData] = useState<AllocationInput>({
     bindAddress: '0.0.0.0',
   });
   const [allocationFormMode, setAllocationFormMode] = useState<'single' | 'range'>('single');
@@ -184,9 +125,7 @@ const AdminNodesPage = () => {
 
   const fetchNodeState = async (node: Node) => {
     try {
-      const response = await fetch(`http://${node.fqdn}:${node.port}/api/v1/state`);
-      if (!response.ok) throw new Error('Failed to fetch node state');
-      return await response.json();
+      return await createNodeClient(node).state();
     } catch (err) {
       console.error(`Failed to fetch state for node ${node.fqdn}:`, err);
       return null;
@@ -196,45 +135,27 @@ const AdminNodesPage = () => {
   const fetchData = async () => {
     try {
       setLoading(true);
-      const token = localStorage.getItem('token');
-      const headers = { 'Authorization': `Bearer ${token}` };
-      
-      const [nodesRes, serversRes] = await Promise.all([
-        fetch('/api/nodes', { headers }),
-        fetch('/api/servers', { headers })
-      ]);
-      
-      if (!nodesRes.ok) {
-        const errorData = await nodesRes.json();
-        throw new Error(errorData.error || 'Failed to fetch nodes');
-      }
-      
-      if (!serversRes.ok) {
-        const errorData = await serversRes.json();
-        throw new Error(errorData.error || 'Failed to fetch servers');
-      }
-      
       const [nodesData, serversData] = await Promise.all([
-        nodesRes.json(),
-        serversRes.json()
+        api.nodes.list(),
+        canViewServers ? api.servers.list() : Promise.resolve([])
       ]);
 
       // Calculate resources allocated to each node
-      const nodesWithResources = nodesData.map((node: Node) => {
-        const nodeServers = serversData.filter((s: Server) => s.node.id === node.id);
+      const nodesWithResources = nodesData.map((node): Node => {
+        const nodeServers = serversData.filter(s => s.node?.id === node.id);
         return {
           ...node,
           resources: {
-            memoryAllocated: nodeServers.reduce((sum: number, s: Server) => sum + s.memoryMiB * 1024 * 1024, 0),
-            diskAllocated: nodeServers.reduce((sum: number, s: Server) => sum + (s.diskMiB || 0) * 1024 * 1024, 0),
-            cpuAllocated: nodeServers.reduce((sum: number, s: Server) => sum + s.cpuPercent, 0),
+            memoryAllocated: nodeServers.reduce((sum, s) => sum + s.memoryMiB * 1024 * 1024, 0),
+            diskAllocated: nodeServers.reduce((sum, s) => sum + (s.diskMiB || 0) * 1024 * 1024, 0),
+            cpuAllocated: nodeServers.reduce((sum, s) => sum + s.cpuPercent, 0),
           }
         };
       });
 
       // Fetch system state for each online node
       const nodesWithState = await Promise.all(
-        nodesWithResources.map(async (node: Node) => {
+        nodesWithResources.map(async (node): Promise<Node> => {
           if (node.isOnline) {
             const systemState = await fetchNodeState(node);
             return { ...node, systemState };
@@ -264,7 +185,7 @@ const AdminNodesPage = () => {
 
       setError(null);
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'An error occurred';
+      const errorMessage = getErrorMessage(err);
       setError(errorMessage);
       showAlert('error', errorMessage);
     } finally {
@@ -275,17 +196,7 @@ const AdminNodesPage = () => {
   const fetchSingleNode = async (nodeId: string) => {
     try {
       setLoading(true);
-      const token = localStorage.getItem('token');
-      const response = await fetch(`/api/nodes/${nodeId}`, {
-        headers: { 'Authorization': `Bearer ${token}` }
-      });
-      
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Failed to fetch node');
-      }
-      
-      const nodeData = await response.json();
+      const nodeData: Node = await api.nodes.get(nodeId);
       
       // Update the node in the nodes list
       setNodes(prevNodes => 
@@ -308,8 +219,7 @@ const AdminNodesPage = () => {
       setError(null);
       return nodeData;
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'An error occurred';
-      showAlert('error', errorMessage);
+      showAlert('error', getErrorMessage(err));
       return null;
     } finally {
       setLoading(false);
@@ -321,32 +231,14 @@ const AdminNodesPage = () => {
     setFormError(null);
     
     try {
-      const token = localStorage.getItem('token');
-      const response = await fetch('/api/nodes', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify(formData)
-      });
-
-      const data = await response.json();
-      
-      if (!response.ok) {
-        const errorMessage = Array.isArray(data.error) 
-          ? data.error.map((e: any) => e.message).join(', ')
-          : data.error || 'Failed to create node';
-        
-        throw new Error(errorMessage);
-      }
+      await api.nodes.create(formData);
 
       await fetchData();
       setView('list');
-      setFormData({ name: '', fqdn: '', port: 8080 });
+      setFormData({ name: '', fqdn: '', port: 8080, useTls: false });
       showAlert('success', `Node "${formData.name}" created successfully`);
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to create node';
+      const errorMessage = getErrorMessage(err, 'Failed to create node');
       setFormError(errorMessage);
       showAlert('error', errorMessage);
     }
@@ -358,25 +250,7 @@ const AdminNodesPage = () => {
     setFormError(null);
 
     try {
-      const token = localStorage.getItem('token');
-      const response = await fetch(`/api/nodes/${selectedNode.id}`, {
-        method: 'PATCH',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify(formData)
-      });
-
-      const data = await response.json();
-
-      if (!response.ok) {
-        const errorMessage = Array.isArray(data.error) 
-          ? data.error.map((e: any) => e.message).join(', ')
-          : data.error || 'Failed to update node';
-        
-        throw new Error(errorMessage);
-      }
+      await api.nodes.update(selectedNode.id, formData);
 
       await fetchData();
       showAlert('success', `Node "${formData.name}" updated successfully`);
@@ -388,9 +262,9 @@ const AdminNodesPage = () => {
       }
       
       setView('view');
-      setFormData({ name: '', fqdn: '', port: 8080 });
+      setFormData({ name: '', fqdn: '', port: 8080, useTls: false });
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to update node';
+      const errorMessage = getErrorMessage(err, 'Failed to update node');
       setFormError(errorMessage);
       showAlert('error', errorMessage);
     }
@@ -398,24 +272,7 @@ const AdminNodesPage = () => {
 
   const handleDelete = async (nodeId: string) => {
     try {
-      const token = localStorage.getItem('token');
-      const response = await fetch(`/api/nodes/${nodeId}`, {
-        method: 'DELETE',
-        headers: {
-          'Authorization': `Bearer ${token}`
-        }
-      });
-
-      if (!response.ok) {
-        const data = await response.json();
-        
-        if (data.count && data.count > 0) {
-          showAlert('warning', `Cannot delete node with ${data.count} active servers`);
-          return;
-        }
-        
-        throw new Error(data.error || 'Failed to delete node');
-      }
+      await api.nodes.delete(nodeId);
 
       await fetchData();
       if (selectedNode?.id === nodeId) {
@@ -425,8 +282,13 @@ const AdminNodesPage = () => {
       
       showAlert('success', 'Node deleted successfully');
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to delete node';
-      showAlert('error', errorMessage);
+      const count = err instanceof ApiError ? (err.data as { count?: number } | null)?.count : undefined;
+      if (count && count > 0) {
+        showAlert('warning', `Cannot delete node with ${count} active servers`);
+        return;
+      }
+
+      showAlert('error', getErrorMessage(err, 'Failed to delete node'));
     }
   };
 
@@ -476,8 +338,8 @@ const AdminNodesPage = () => {
           comparison = Number(b.isOnline) - Number(a.isOnline);
           break;
         case 'servers':
-          const aCount = servers.filter(s => s.node.id === a.id).length;
-          const bCount = servers.filter(s => s.node.id === b.id).length;
+          const aCount = servers.filter(s => s.node?.id === a.id).length;
+          const bCount = servers.filter(s => s.node?.id === b.id).length;
           comparison = aCount - bCount;
           break;
         default:
@@ -552,6 +414,21 @@ const AdminNodesPage = () => {
         </p>
       </div>
 
+      <div className="space-y-1">
+        <label className="flex items-center space-x-2">
+          <input
+            type="checkbox"
+            checked={formData.useTls}
+            onChange={(e) => setFormData({ ...formData, useTls: e.target.checked })}
+            className="text-xs"
+          />
+          <span className="text-xs font-medium text-gray-700">Use TLS</span>
+        </label>
+        <p className="text-xs text-gray-500 mt-1">
+          Connect to Krypton over https and wss. Enable this when the node is served behind a certificate
+        </p>
+      </div>
+
       <div className="flex items-center space-x-3">
         <button
           type="submit"
@@ -564,7 +441,7 @@ const AdminNodesPage = () => {
           onClick={() => {
             setView(type === 'edit' ? 'view' : 'list');
             if (type === 'create') setSelectedNode(null);
-            setFormData({ name: '', fqdn: '', port: 8080 });
+            setFormData({ name: '', fqdn: '', port: 8080, useTls: false });
           }}
           className="px-3 py-2 text-xs font-medium text-gray-600 bg-white border border-gray-200 rounded-md hover:bg-gray-50"
         >
@@ -578,18 +455,7 @@ const AdminNodesPage = () => {
     if (!selectedNode) return;
 
     try {
-      const token = localStorage.getItem('token');
-      const response = await fetch(`/api/nodes/${selectedNode.id}/allocations/${allocationId}`, {
-        method: 'DELETE',
-        headers: {
-          'Authorization': `Bearer ${token}`
-        }
-      });
-
-      if (!response.ok) {
-        const data = await response.json();
-        throw new Error(data.error || 'Failed to delete allocation');
-      }
+      await api.allocations.delete(selectedNode.id, allocationId);
 
       // Fetch the updated node data directly
       const updatedNode = await fetchSingleNode(selectedNode.id);
@@ -619,8 +485,7 @@ const AdminNodesPage = () => {
       // Clear selected allocations
       setSelectedAllocations([]);
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to delete allocation';
-      showAlert('error', errorMessage);
+      showAlert('error', getErrorMessage(err, 'Failed to delete allocation'));
     }
   };
 
@@ -717,20 +582,7 @@ const AdminNodesPage = () => {
       setAllocationFormError(null);
   
       try {
-        const token = localStorage.getItem('token');
-        const response = await fetch(`/api/nodes/${selectedNode.id}/allocations`, {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${token}`,
-            'Content-Type': 'application/json'
-          },
-          body: JSON.stringify(allocationFormData)
-        });
-  
-        if (!response.ok) {
-          const data = await response.json();
-          throw new Error(data.error || 'Failed to create allocation');
-        }
+        await api.allocations.create(selectedNode.id, allocationFormData);
         
         // Fetch the updated node data directly
         const updatedNode = await fetchSingleNode(selectedNode.id);
@@ -750,7 +602,7 @@ const AdminNodesPage = () => {
         setAllocationFormMode('single');
         showAlert('success', 'Allocation created successfully');
       } catch (err) {
-        const errorMessage = err instanceof Error ? err.message : 'Failed to create allocation';
+        const errorMessage = getErrorMessage(err, 'Failed to create allocation');
         setAllocationFormError(errorMessage);
         showAlert('error', errorMessage);
       } finally {
@@ -790,7 +642,7 @@ const AdminNodesPage = () => {
                     {allocations.length} total • {assignedAllocations.length} in use
                   </p>
                 </div>
-                {selectedAllocations.length > 0 && (
+                {canManage && selectedAllocations.length > 0 && (
                   <button
                     onClick={handleDeleteSelected}
                     className="flex items-center px-3 py-2 text-xs font-medium text-red-600 bg-white border border-gray-200 rounded-md hover:bg-red-50"
@@ -843,12 +695,14 @@ const AdminNodesPage = () => {
                           className="flex items-center justify-between p-3 bg-white rounded-md border border-gray-200 hover:border-gray-300"
                         >
                           <div className="flex items-center space-x-3">
-                            <input
-                              type="checkbox"
-                              checked={selectedAllocations.includes(allocation.id)}
-                              onChange={() => toggleAllocation(allocation.id)}
-                              className="rounded border-gray-300"
-                            />
+                            {canManage && (
+                              <input
+                                type="checkbox"
+                                checked={selectedAllocations.includes(allocation.id)}
+                                onChange={() => toggleAllocation(allocation.id)}
+                                className="rounded border-gray-300"
+                              />
+                            )}
                             <div>
                               <div className="text-sm text-gray-900">
                                 {allocation.bindAddress}:{allocation.port}
@@ -862,12 +716,14 @@ const AdminNodesPage = () => {
                               )}
                             </div>
                           </div>
-                          <button
-                            onClick={() => handleDeleteAllocation(allocation.id)}
-                            className="p-1.5 text-gray-400 hover:text-red-600"
-                          >
-                            <TrashIcon className="w-4 h-4" />
-                          </button>
+                          {canManage && (
+                            <button
+                              onClick={() => handleDeleteAllocation(allocation.id)}
+                              className="p-1.5 text-gray-400 hover:text-red-600"
+                            >
+                              <TrashIcon className="w-4 h-4" />
+                            </button>
+                          )}
                         </div>
                       ))}
                     </div>
@@ -887,101 +743,79 @@ const AdminNodesPage = () => {
         </div>
   
         {/* Create Allocation Form - Right Side */}
-        <div>
-          <div className="bg-white border border-gray-200 rounded-md shadow-xs">
-            <div className="p-6">
-              <div className="space-y-6">
-                <div>
-                  <h3 className="text-sm font-medium text-gray-900">Create Allocation</h3>
-                  <p className="text-xs text-gray-500 mt-1">
-                    Allocate ports for your servers to use on this node.
-                  </p>
-                </div>
-  
-                {allocationFormError && (
-                  <Alert 
-                    type="error"
-                    message={allocationFormError}
-                    onDismiss={() => setAllocationFormError(null)}
-                  />
-                )}
-  
-                <form onSubmit={handleCreateAllocation} className="space-y-4">
-                  <div className="flex space-x-4">
-                    <button
-                      type="button"
-                      onClick={() => setAllocationFormMode('single')}
-                      className={`px-3 py-2 text-xs font-medium rounded-md ${
-                        allocationFormMode === 'single'
-                          ? 'bg-gray-900 text-white'
-                          : 'bg-white text-gray-600 border border-gray-200 hover:bg-gray-50'
-                      }`}
-                    >
-                      Single Port
-                    </button>
-                    <button
-                      type="button"
-                      onClick={() => setAllocationFormMode('range')}
-                      className={`px-3 py-2 text-xs font-medium rounded-md ${
-                        allocationFormMode === 'range'
-                          ? 'bg-gray-900 text-white'
-                          : 'bg-white text-gray-600 border border-gray-200 hover:bg-gray-50'
-                      }`}
-                    >
-                      Port Range
-                    </button>
+        {canManage && (
+          <div>
+            <div className="bg-white border border-gray-200 rounded-md shadow-xs">
+              <div className="p-6">
+                <div className="space-y-6">
+                  <div>
+                    <h3 className="text-sm font-medium text-gray-900">Create Allocation</h3>
+                    <p className="text-xs text-gray-500 mt-1">
+                      Allocate ports for your servers to use on this node.
+                    </p>
                   </div>
-  
-                  <div className="space-y-4">
-                    <div>
-                      <label className="block text-xs font-medium text-gray-700">
-                        Bind Address
-                      </label>
-                      <input
-                        type="text"
-                        value={allocationFormData.bindAddress}
-                        onChange={(e) => setAllocationFormData({ ...allocationFormData, bindAddress: e.target.value })}
-                        className="mt-1 block w-full px-3 py-2 text-xs border border-gray-200 rounded-md focus:outline-none focus:border-gray-400"
-                        placeholder="0.0.0.0"
-                        required
-                      />
+    
+                  {allocationFormError && (
+                    <Alert 
+                      type="error"
+                      message={allocationFormError}
+                      onDismiss={() => setAllocationFormError(null)}
+                    />
+                  )}
+    
+                  <form onSubmit={handleCreateAllocation} className="space-y-4">
+                    <div className="flex space-x-4">
+                      <button
+                        type="button"
+                        onClick={() => setAllocationFormMode('single')}
+                        className={`px-3 py-2 text-xs font-medium rounded-md ${
+                          allocationFormMode === 'single'
+                            ? 'bg-gray-900 text-white'
+                            : 'bg-white text-gray-600 border border-gray-200 hover:bg-gray-50'
+                        }`}
+                      >
+                        Single Port
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setAllocationFormMode('range')}
+                        className={`px-3 py-2 text-xs font-medium rounded-md ${
+                          allocationFormMode === 'range'
+                            ? 'bg-gray-900 text-white'
+                            : 'bg-white text-gray-600 border border-gray-200 hover:bg-gray-50'
+                        }`}
+                      >
+                        Port Range
+                      </button>
                     </div>
-  
-                    {allocationFormMode === 'single' ? (
+    
+                    <div className="space-y-4">
                       <div>
                         <label className="block text-xs font-medium text-gray-700">
-                          Port
+                          Bind Address
                         </label>
                         <input
-                          type="number"
-                          value={allocationFormData.port || ''}
-                          onChange={(e) => setAllocationFormData({ 
-                            ...allocationFormData, 
-                            port: parseInt(e.target.value),
-                            portRange: undefined
-                          })}
+                          type="text"
+                          value={allocationFormData.bindAddress}
+                          onChange={(e) => setAllocationFormData({ ...allocationFormData, bindAddress: e.target.value })}
                           className="mt-1 block w-full px-3 py-2 text-xs border border-gray-200 rounded-md focus:outline-none focus:border-gray-400"
-                          min={1}
-                          max={65535}
+                          placeholder="0.0.0.0"
                           required
                         />
                       </div>
-                    ) : (
-                      <div className="grid grid-cols-2 gap-4">
+    
+                      {allocationFormMode === 'single' ? (
                         <div>
                           <label className="block text-xs font-medium text-gray-700">
-                            Start Port
+                            Port
                           </label>
                           <input
                             type="number"
-                            value={allocationFormData.portRange?.start || ''}
-                            onChange={(e) => setAllocationFormData({
-                              ...allocationFormData,
-                              port: undefined,
-                              portRange: {
-                                start: parseInt(e.target.value),
-                                end: allocationFormData.portRange?.end || parseInt(e.target.value)
-                              }
+                            value={allocationFormData.port || ''}
+                            onChange={(e) => setAllocationFormData({ 
+                              ...allocationFormData, 
+                              port: parseInt(e.target.value),
+                              portRange: undefined
                             })}
                             className="mt-1 block w-full px-3 py-2 text-xs border border-gray-200 rounded-md focus:outline-none focus:border-gray-400"
                             min={1}
@@ -989,69 +823,93 @@ const AdminNodesPage = () => {
                             required
                           />
                         </div>
-                        <div>
-                          <label className="block text-xs font-medium text-gray-700">
-                            End Port
-                          </label>
-                          <input
-                            type="number"
-                            value={allocationFormData.portRange?.end || ''}
-                            onChange={(e) => setAllocationFormData({
-                              ...allocationFormData,
-                              port: undefined,
-                              portRange: {
-                                start: allocationFormData.portRange?.start || parseInt(e.target.value),
-                                end: parseInt(e.target.value)
-                              }
-                            })}
-                            className="mt-1 block w-full px-3 py-2 text-xs border border-gray-200 rounded-md focus:outline-none focus:border-gray-400"
-                            min={1}
-                            max={65535}
-                            required
-                          />
+                      ) : (
+                        <div className="grid grid-cols-2 gap-4">
+                          <div>
+                            <label className="block text-xs font-medium text-gray-700">
+                              Start Port
+                            </label>
+                            <input
+                              type="number"
+                              value={allocationFormData.portRange?.start || ''}
+                              onChange={(e) => setAllocationFormData({
+                                ...allocationFormData,
+                                port: undefined,
+                                portRange: {
+                                  start: parseInt(e.target.value),
+                                  end: allocationFormData.portRange?.end || parseInt(e.target.value)
+                                }
+                              })}
+                              className="mt-1 block w-full px-3 py-2 text-xs border border-gray-200 rounded-md focus:outline-none focus:border-gray-400"
+                              min={1}
+                              max={65535}
+                              required
+                            />
+                          </div>
+                          <div>
+                            <label className="block text-xs font-medium text-gray-700">
+                              End Port
+                            </label>
+                            <input
+                              type="number"
+                              value={allocationFormData.portRange?.end || ''}
+                              onChange={(e) => setAllocationFormData({
+                                ...allocationFormData,
+                                port: undefined,
+                                portRange: {
+                                  start: allocationFormData.portRange?.start || parseInt(e.target.value),
+                                  end: parseInt(e.target.value)
+                                }
+                              })}
+                              className="mt-1 block w-full px-3 py-2 text-xs border border-gray-200 rounded-md focus:outline-none focus:border-gray-400"
+                              min={1}
+                              max={65535}
+                              required
+                            />
+                          </div>
                         </div>
+                      )}
+    
+                      <div>
+                        <label className="block text-xs font-medium text-gray-700">
+                          Alias (Optional)
+                        </label>
+                        <input
+                          type="text"
+                          value={allocationFormData.alias || ''}
+                          onChange={(e) => setAllocationFormData({ ...allocationFormData, alias: e.target.value })}
+                          className="mt-1 block w-full px-3 py-2 text-xs border border-gray-200 rounded-md focus:outline-none focus:border-gray-400"
+                          placeholder="Primary game port"
+                        />
+                      </div>
+    
+                      <div>
+                        <label className="block text-xs font-medium text-gray-700">
+                          Notes (Optional)
+                        </label>
+                        <input
+                          type="text"
+                          value={allocationFormData.notes || ''}
+                          onChange={(e) => setAllocationFormData({ ...allocationFormData, notes: e.target.value })}
+                          className="mt-1 block w-full px-3 py-2 text-xs border border-gray-200 rounded-md focus:outline-none focus:border-gray-400"
+                          placeholder="Additional information"
+                        />
                       </div>
-                    )}
-  
-                    <div>
-                      <label className="block text-xs font-medium text-gray-700">
-                        Alias (Optional)
-                      </label>
-                      <input
-                        type="text"
-                        value={allocationFormData.alias || ''}
-                        onChange={(e) => setAllocationFormData({ ...allocationFormData, alias: e.target.value })}
-                        className="mt-1 block w-full px-3 py-2 text-xs border border-gray-200 rounded-md focus:outline-none focus:border-gray-400"
-                        placeholder="Primary game port"
-                      />
-                    </div>
-  
-                    <div>
-                      <label className="block text-xs font-medium text-gray-700">
-                        Notes (Optional)
-                      </label>
-                      <input
-                        type="text"
-                        value={allocationFormData.notes || ''}
-                        onChange={(e) => setAllocationFormData({ ...allocationFormData, notes: e.target.value })}
-                        className="mt-1 block w-full px-3 py-2 text-xs border border-gray-200 rounded-md focus:outline-none focus:border-gray-400"
-                        placeholder="Additional information"
-                      />
                     </div>
-                  </div>
-  
-                  <button
-                    type="submit"
-                    disabled={isCreatingAllocation}
-                    className="w-full px-3 py-2 text-xs font-medium text-white bg-gray-900 rounded-md hover:bg-gray-800 disabled:opacity-50 disabled:cursor-not-allowed"
-                  >
-                    {isCreatingAllocation ? 'Creating...' : 'Create Allocation'}
-                  </button>
-                </form>
+    
+                    <button
+                      type="submit"
+                      disabled={isCreatingAllocation}
+                      className="w-full px-3 py-2 text-xs font-medium text-white bg-gray-900 rounded-md hover:bg-gray-800 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {isCreatingAllocation ? 'Creating...' : 'Create Allocation'}
+                    </button>
+                  </form>
+                </div>
               </div>
             </div>
           </div>
-        </div>
+        )}
       </div>
     );
   };
@@ -1063,7 +921,7 @@ const AdminNodesPage = () => {
       setConnectionKey(selectedNode.connectionKey || '');
     }
 
-    const nodeServers = servers.filter(server => server.node.id === selectedNode.id);
+    const nodeServers = servers.filter(server => server.node?.id === selectedNode.id);
 
     return (
       <div className="space-y-6">
@@ -1082,29 +940,32 @@ const AdminNodesPage = () => {
               <h2 className="text-lg font-semibold text-gray-900">{selectedNode.name}</h2>
             </div>
           </div>
-          <div className="flex items-center space-x-3">
-            <button
-              onClick={() => {
-                setFormData({
-                  name: selectedNode.name,
-                  fqdn: selectedNode.fqdn,
-                  port: selectedNode.port
-                });
-                setView('edit');
-              }}
-              className="flex items-center px-3 py-2 text-xs font-medium text-gray-600 bg-white border border-gray-200 rounded-md hover:bg-gray-50"
-            >
-              <PencilIcon className="w-3.5 h-3.5 mr-1.5" />
-              Edit
-            </button>
-            <button
-              onClick={() => handleDelete(selectedNode.id)}
-              className="flex items-center px-3 py-2 text-xs font-medium text-red-600 bg-white border border-gray-200 rounded-md hover:bg-red-50"
-            >
-              <TrashIcon className="w-3.5 h-3.5 mr-1.5" />
-              Delete
-            </button>
-          </div>
+          {canManage && (
+            <div className="flex items-center space-x-3">
+              <button
+                onClick={() => {
+                  setFormData({
+                    name: selectedNode.name,
+                    fqdn: selectedNode.fqdn,
+                    port: selectedNode.port,
+                    useTls: selectedNode.useTls
+                  });
+                  setView('edit');
+                }}
+                className="flex items-center px-3 py-2 text-xs font-medium text-gray-600 bg-white border border-gray-200 rounded-md hover:bg-gray-50"
+              >
+                <PencilIcon className="w-3.5 h-3.5 mr-1.5" />
+                Edit
+              </button>
+              <button
+                onClick={() => handleDelete(selectedNode.id)}
+                className="flex items-center px-3 py-2 text-xs font-medium text-red-600 bg-white border border-gray-200 rounded-md hover:bg-red-50"
+              >
+                <TrashIcon className="w-3.5 h-3.5 mr-1.5" />
+                Delete
+              </button>
+            </div>
+          )}
         </div>
 
         <div className="flex space-x-4 border-b border-gray-200">
@@ -1138,16 +999,18 @@ const AdminNodesPage = () => {
           >
             Allocations
           </button>
-          <button
-            onClick={() => setActiveTab('configure')}
-            className={`py-2 px-1 text-xs font-medium border-b-2 ${
-              activeTab === 'configure'
-                ? 'border-gray-900 text-gray-900'
-                : 'border-transparent text-gray-500 hover:text-gray-700'
-            }`}
-          >
-            Configure
-          </button>
+          {canManage && (
+            <button
+              onClick={() => setActiveTab('configure')}
+              className={`py-2 px-1 text-xs font-medium border-b-2 ${
+                activeTab === 'configure'
+                  ? 'border-gray-900 text-gray-900'
+                  : 'border-transparent text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              Configure
+            </button>
+          )}
         </div>
 
         {activeTab === 'overview' ? (
@@ -1170,6 +1033,10 @@ const AdminNodesPage = () => {
                   <div className="text-xs text-gray-500">Port</div>
                   <div className="text-sm mt-1">{selectedNode.port}</div>
                 </div>
+                <div>
+                  <div className="text-xs text-gray-500">Daemon URL</div>
+                  <div className="text-sm font-mono mt-1">{nodeUrl(selectedNode)}</div>
+                </div>
                 <div>
                   <div className="text-xs text-gray-500">Status</div>
                   <div className="flex items-center space-x-2 mt-1">
@@ -1271,7 +1138,7 @@ const AdminNodesPage = () => {
                     <div className="flex-shrink-0">
                       <div 
                         className={`h-2 w-2 rounded-full ${
-                          server.status.state === 'running' ? 'bg-green-400' : 'bg-gray-300'
+                          server.status?.state === 'running' ? 'bg-green-400' : 'bg-gray-300'
                         }`}
                       />
                     </div>
@@ -1309,7 +1176,7 @@ const AdminNodesPage = () => {
           </div>
         ) : activeTab === 'allocations' ? (
           renderAllocationTab()
-        ) : (
+        ) : canManage ? (
           <div className="bg-white border border-gray-200 rounded-md shadow-xs">
             <div className="px-6 py-4">
               <div className="space-y-6">
@@ -1387,7 +1254,7 @@ const AdminNodesPage = () => {
               </div>
             </div>
           </div>
-        )}
+        ) : null}
       </div>
     );
   };
@@ -1447,7 +1314,7 @@ const AdminNodesPage = () => {
           </thead>
           <tbody className="divide-y divide-gray-200 bg-white">
             {sortedNodes.map((node) => {
-              const nodeServers = servers.filter(server => server.node.id === node.id);
+              const nodeServers = servers.filter(server => server.node?.id === node.id);
               return (
                 <tr 
                   key={node.id} 
@@ -1490,7 +1357,8 @@ const AdminNodesPage = () => {
                           setFormData({
                             name: node.name,
                             fqdn: node.fqdn,
-                            port: node.port
+                            port: node.port,
+                            useTls: node.useTls
                           });
                           setSelectedNode(node);
                           setView('edit');
@@ -1564,13 +1432,15 @@ const AdminNodesPage = () => {
                   >
                     Refresh
                   </button>
-                  <button
-                    onClick={() => setView('create')}
-                    className="flex items-center px-3 py-2 text-xs font-medium text-white bg-gray-900 rounded-md hover:bg-gray-800"
-                  >
-                    <PlusIcon className="w-3.5 h-3.5 mr-1.5" />
-                    Create Node
-                  </button>
+                  {canManage && (
+                    <button
+                      onClick={() => setView('create')}
+                      className="flex items-center px-3 py-2 text-xs font-medium text-white bg-gray-900 rounded-md hover:bg-gray-800"
+                    >
+                      <PlusIcon className="w-3.5 h-3.5 mr-1.5" />
+                      Create Node
+                    </button>
+                  )}
                 </div>
               </div>
 
@@ -2,93 +2,17 @@ import React, { useState, useEffect } from 'react';
 import { ChevronRightIcon, PlusIcon, TrashIcon, PencilIcon, ArrowLeftIcon } from 'lucide-react';
 import AdminBar from '../../components/AdminBar';
 import LoadingSpinner from '../../components/LoadingSpinner';
+import { useCan } from '../../hooks/useCan';
+import { api, getErrorMessage } from '../../lib/api';
+import type { Node, Server, ServerInput, Unit, User } from '../../lib/types';
 
-interface Node {
-  id: string;
-  name: string;
-  fqdn: string;
-  port: number;
-  isOnline: boolean;
-  lastChecked: Date;
-  createdAt: Date;
-  updatedAt: Date;
-  allocations?: Allocation[];
-}
-
-interface Unit {
-  id: string;
-  name: string;
-  shortName: string;
-  description: string;
-  dockerImage: string;
-  defaultStartupCommand: string;
-  configFiles: Record<string, string>;
-  environmentVariables: Record<string, string>;
-  installScript: string[];
-  startup: {
-    command: string;
-    parameters: string[];
-  };
-  recommendedRequirements?: {
-    memoryMiB: number;
-    diskMiB: number;
-    cpuPercent: number;
-  };
-  createdAt: Date;
-  updatedAt: Date;
-}
-
-interface User {
-  id: string;
-  username: string;
-  permissions: string[];
-}
-
-interface Allocation {
-  id: string;
-  nodeId: string;
-  port: number;
-  bindAddress: string;
-  alias?: string;
-  notes?: string;
-  assigned: boolean;
-  serverId?: string;
-}
-
-interface Server {
-  id: string;
-  name: string;
-  internalId: string;
-  nodeId: string;
-  unitId: string;
-  userId: string;
-  allocationId: string;
-  memoryMiB: number;
-  diskMiB: number;
-  cpuPercent: number;
-  state: string;
-  createdAt: Date;
-  updatedAt: Date;
-  node?: Node;
-  unit?: Unit;
-  user?: User;
-  status?: any;
-}
-
-interface FormData {
-  name: string;
-  nodeId: string;
-  unitId: string;
-  userId: string;
-  allocationId: string;
-  memoryMiB: number;
-  diskMiB: number;
-  cpuPercent: number;
-}
+type FormData = ServerInput;
 
 type View = 'list' | 'create' | 'view' | 'edit';
 
 const AdminServersPage = () => {
+  const canManage = useCan('SERVERS_MANAGE');
+
   // Core state
   const [servers, setServers] = useState<Server[]>([]);
   const [nodes, setNodes] = useState<Node[]>([]);
@@ -108,7 +32,8 @@ const AdminServersPage = () => {
     allocationId: '',
     memoryMiB: 1024,
     diskMiB: 10240,
-    cpuPercent: 100
+    cpuPercent: 100,
+    backupLimit: 3
   });
   const [formError, setFormError] = useState<string | null>(null);
   
@@ -139,26 +64,12 @@ const AdminServersPage = () => {
 
   const fetchData = async () => {
     try {
-      const token = localStorage.getItem('token');
-      const headers = { 'Authorization': `Bearer ${token}` };
-      
-      const [serversRes, nodesRes, unitsRes, usersRes] = await Promise.all([
-        fetch('/api/servers?include[node]=true&include[unit]=true&include[user]=true', { headers }),
-        fetch('/api/nodes', { headers }),
-        fetch('/api/units', { headers }),
-        fetch('/api/users', { headers })
-      ]);
-      
-      if (!serversRes.ok) throw new Error('Failed to fetch servers');
-      if (!nodesRes.ok) throw new Error('Failed to fetch nodes');
-      if (!unitsRes.ok) throw new Error('Failed to fetch units');
-      if (!usersRes.ok) throw new Error('Failed to fetch users');
-      
+      // Nodes and users only feed the create/edit form
       const [serversData, nodesData, unitsData, usersData] = await Promise.all([
-        serversRes.json(),
-        nodesRes.json(),
-        unitsRes.json(),
-        usersRes.json()
+        api.servers.list(['node', 'unit', 'user']),
+        canManage ? api.nodes.list() : Promise.resolve([]),
+        api.units.list(),
+        canManage ? api.users.list() : Promise.resolve([])
       ]);
 
       setServers(serversData);
@@ -166,7 +77,7 @@ const AdminServersPage = () => {
       setUnits(unitsData);
       setUsers(usersData);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'An error occurred');
+      setError(getErrorMessage(err));
     } finally {
       setLoading(false);
     }
@@ -177,20 +88,7 @@ const AdminServersPage = () => {
     setFormError(null);
     
     try {
-      const token = localStorage.getItem('token');
-      const response = await fetch('/api/servers', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify(formData)
-      });
-
-      if (!response.ok) {
-        const data = await response.json();
-        throw new Error(data.error || 'Failed to create server');
-      }
+      await api.servers.create(formData);
 
       await fetchData();
       setView('list');
@@ -202,10 +100,11 @@ const AdminServersPage = () => {
         allocationId: '',
         memoryMiB: 1024,
         diskMiB: 10240,
-        cpuPercent: 100
+        cpuPercent: 100,
+        backupLimit: 3
       });
     } catch (err) {
-      setFormError(err instanceof Error ? err.message : 'Failed to create server');
+      setFormError(getErrorMessage(err, 'Failed to create server'));
     }
   };
 
@@ -215,20 +114,7 @@ const AdminServersPage = () => {
     setFormError(null);
 
     try {
-      const token = localStorage.getItem('token');
-      const response = await fetch(`/api/servers/${selectedServer.id}`, {
-        method: 'PATCH',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify(formData)
-      });
-
-      if (!response.ok) {
-        const data = await response.json();
-        throw new Error(data.error || 'Failed to update server');
-      }
+      await api.servers.update(selectedServer.id, formData);
 
       await fetchData();
       setView('list');
@@ -241,27 +127,17 @@ const AdminServersPage = () => {
         allocationId: '',
         memoryMiB: 1024,
         diskMiB: 10240,
-        cpuPercent: 100
+        cpuPercent: 100,
+        backupLimit: 3
       });
     } catch (err) {
-      setFormError(err instanceof Error ? err.message : 'Failed to update server');
+      setFormError(getErrorMessage(err, 'Failed to update server'));
     }
   };
 
   const handleDelete = async (serverId: string) => {
     try {
-      const token = localStorage.getItem('token');
-      const response = await fetch(`/api/servers/${serverId}`, {
-        method: 'DELETE',
-        headers: {
-          'Authorization': `Bearer ${token}`
-        }
-      });
-
-      if (!response.ok) {
-        const data = await response.json();
-        throw new Error(data.error || 'Failed to delete server');
-      }
+      await api.servers.delete(serverId);
 
       await fetchData();
       if (selectedServer?.id === serverId) {
@@ -269,7 +145,7 @@ const AdminServersPage = () => {
         setSelectedServer(null);
       }
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to delete server');
+      setError(getErrorMessage(err, 'Failed to delete server'));
     }
   };
 
@@ -393,7 +269,7 @@ const AdminServersPage = () => {
         </div>
       )}
 
-      <div className="grid grid-cols-3 gap-4">
+      <div className="grid grid-cols-4 gap-4">
         <div className="space-y-1">
           <label className="block text-xs font-medium text-gray-700">
             Memory (MiB)
@@ -436,6 +312,21 @@ const AdminServersPage = () => {
             required
           />
         </div>
+
+        <div className="space-y-1">
+          <label className="block text-xs font-medium text-gray-700">
+            Backups
+          </label>
+          <input
+            type="number"
+            value={formData.backupLimit}
+            onChange={(e) => setFormData({ ...formData, backupLimit: parseInt(e.target.value) })}
+            className="block w-full px-3 py-2 text-xs border border-gray-200 rounded-md focus:outline-none focus:border-gray-400"
+            min={0}
+            required
+          />
+          <p className="text-xs text-gray-500">0 disables backups</p>
+        </div>
       </div>
 
       <div className="flex items-center space-x-3">
@@ -458,7 +349,8 @@ const AdminServersPage = () => {
               allocationId: '',
               memoryMiB: 1024,
               diskMiB: 10240,
-              cpuPercent: 100
+              cpuPercent: 100,
+              backupLimit: 3
             });
           }}
           className="px-3 py-2 text-xs font-medium text-gray-600 bg-white border border-gray-200 rounded-md hover:bg-gray-50"
@@ -490,34 +382,37 @@ const AdminServersPage = () => {
               <p className="text-xs text-gray-500">{selectedServer.internalId}</p>
             </div>
           </div>
-          <div className="flex items-center space-x-3">
-            <button
-              onClick={() => {
-                setFormData({
-                  name: selectedServer.name,
-                  nodeId: selectedServer.nodeId,
-                  unitId: selectedServer.unitId,
-                  userId: selectedServer.userId,
-                  allocationId: selectedServer.allocationId,
-                  memoryMiB: selectedServer.memoryMiB,
-                  diskMiB: selectedServer.diskMiB,
-                  cpuPercent: selectedServer.cpuPercent
-                });
-                setView('edit');
-              }}
-              className="flex items-center px-3 py-2 text-xs font-medium text-gray-600 bg-white border border-gray-200 rounded-md hover:bg-gray-50"
-            >
-              <PencilIcon className="w-3.5 h-3.5 mr-1.5" />
-              Edit
-            </button>
-            <button
-              onClick={() => handleDelete(selectedServer.id)}
-              className="flex items-center px-3 py-2 text-xs font-medium text-red-600 bg-white border border-gray-200 rounded-md hover:bg-red-50"
-            >
-              <TrashIcon className="w-3.5 h-3.5 mr-1.5" />
-              Delete
-            </button>
-          </div>
+          {canManage && (
+            <div className="flex items-center space-x-3">
+              <button
+                onClick={() => {
+                  setFormData({
+                    name: selectedServer.name,
+                    nodeId: selectedServer.nodeId,
+                    unitId: selectedServer.unitId,
+                    userId: selectedServer.userId,
+                    allocationId: selectedServer.allocationId,
+                    memoryMiB: selectedServer.memoryMiB,
+                    diskMiB: selectedServer.diskMiB,
+                    cpuPercent: selectedServer.cpuPercent,
+                    backupLimit: selectedServer.backupLimit
+                  });
+                  setView('edit');
+                }}
+                className="flex items-center px-3 py-2 text-xs font-medium text-gray-600 bg-white border border-gray-200 rounded-md hover:bg-gray-50"
+              >
+                <PencilIcon className="w-3.5 h-3.5 mr-1.5" />
+                Edit
+              </button>
+              <button
+                onClick={() => handleDelete(selectedServer.id)}
+                className="flex items-center px-3 py-2 text-xs font-medium text-red-600 bg-white border border-gray-200 rounded-md hover:bg-red-50"
+              >
+                <TrashIcon className="w-3.5 h-3.5 mr-1.5" />
+                Delete
+              </button>
+            </div>
+          )}
         </div>
 
         <div className="bg-white border border-gray-200 rounded-md shadow-xs">
@@ -538,7 +433,7 @@ const AdminServersPage = () => {
 
               <div className="pt-4 border-t border-gray-100">
                 <div className="text-xs font-medium text-gray-900 mb-3">Resources</div>
-                <div className="grid grid-cols-3 gap-4">
+                <div className="grid grid-cols-4 gap-4">
                   <div>
                     <div className="text-xs text-gray-500">Memory</div>
                     <div className="text-sm mt-1">{selectedServer.memoryMiB} MiB</div>
@@ -551,6 +446,12 @@ const AdminServersPage = () => {
                     <div className="text-xs text-gray-500">CPU</div>
                     <div className="text-sm mt-1">{selectedServer.cpuPercent}%</div>
                   </div>
+                  <div>
+                    <div className="text-xs text-gray-500">Backups</div>
+                    <div className="text-sm mt-1">
+                      {selectedServer.backupLimit > 0 ? `Up to ${selectedServer.backupLimit}` : 'Disabled'}
+                    </div>
+                  </div>
                 </div>
               </div>
 
@@ -626,13 +527,15 @@ const AdminServersPage = () => {
                     Manage all servers running on your nodes.
                   </p>
                 </div>
-                <button
-                  onClick={() => setView('create')}
-                  className="flex items-center px-3 py-2 text-xs font-medium text-white bg-gray-900 rounded-md hover:bg-gray-800"
-                >
-                  <PlusIcon className="w-3.5 h-3.5 mr-1.5" />
-                  Create Server
-                </button>
+                {canManage && (
+                  <button
+                    onClick={() => setView('create')}
+                    className="flex items-center px-3 py-2 text-xs font-medium text-white bg-gray-900 rounded-md hover:bg-gray-800"
+                  >
+                    <PlusIcon className="w-3.5 h-3.5 mr-1.5" />
+                    Create Server
+                  </button>
+                )}
               </div>
 
               <div className="space-y-2">
@@ -4,49 +4,35 @@ import { z } from 'zod';
 import AdminBar from '../../components/AdminBar';
 import LoadingSpinner from '../../components/LoadingSpinner';
 import { saveAs } from 'file-saver';
+import { api, getErrorMessage } from '../../lib/api';
+import { unitFormSchema } from '../../lib/schemas';
+import { evaluateRules, parseRules } from '../../lib/variableRules';
+import type { Unit, UnitInput } from '../../lib/types';
 
-// Schemas matching backend validation
-const environmentVariableSchema = z.object({
-  name: z.string().min(1),
-  description: z.string().optional(),
-  defaultValue: z.string(),
-  required: z.boolean().default(false),
-  userViewable: z.boolean().default(true),
-  userEditable: z.boolean().default(false),
-  rules: z.string()
-});
-
-const configFileSchema = z.object({
-  path: z.string().min(1),
-  content: z.string()
-});
-
-const installScriptSchema = z.object({
-  dockerImage: z.string(),
-  entrypoint: z.string().default('bash'),
-  script: z.string()
-});
-
-const unitSchema = z.object({
-  id: z.string().optional(),
-  name: z.string().min(1).max(100),
-  shortName: z.string().min(1).max(20).regex(/^[a-z0-9-]+$/),
-  description: z.string(),
-  dockerImage: z.string(),
-  defaultStartupCommand: z.string(),
-  configFiles: z.array(configFileSchema).default([]),
-  environmentVariables: z.array(environmentVariableSchema).default([]),
-  installScript: installScriptSchema,
-  startup: z.object({
-    userEditable: z.boolean().default(false)
-  }).default({}),
-  createdAt: z.date().optional(),
-  updatedAt: z.date().optional()
-});
-
-type Unit = z.infer<typeof unitSchema>;
 type View = 'list' | 'create' | 'view' | 'edit';
 
+// Problems with a variable's rule string and with its default value under
+// those rules. An empty default is allowed so required variables can leave
+// the value to the server owner. Rules the panel doesn't know are only
+// warned about, since imported eggs use many the backend understands.
+const checkVariable = (variable: Unit['environmentVariables'][number]) => {
+  const { rules, errors, unknown } = parseRules(variable.rules);
+  return {
+    ruleErrors: errors.map(error => error.message),
+    ruleWarnings: unknown.map(name => `"${name}" isn't checked here`),
+    defaultErrors: variable.defaultValue ? evaluateRules(variable.defaultValue, rules).map(error => error.message) : []
+  };
+};
+
+const findVariableError = (variables: Unit['environmentVariables']) => {
+  for (const variable of variables) {
+    const { ruleErrors, defaultErrors } = checkVariable(variable);
+    const message = ruleErrors[0] ?? defaultErrors[0];
+    if (message) return `${variable.name || 'Unnamed variable'}: ${message}`;
+  }
+  return null;
+};
+
 // Environment Variables Form Component
 const EnvironmentVariableForm: React.FC<{
   variables: Unit['environmentVariables'],
@@ -85,86 +71,99 @@ const EnvironmentVariableForm: React.FC<{
         </button>
       </div>
 
-      {variables.map((variable, index) => (
-        <div key={index} className="border border-gray-200 rounded-md p-3 space-y-3">
-          <div className="flex justify-between items-start">
-            <div className="grow space-y-3">
-              <div className="grid grid-cols-2 gap-2">
+      {variables.map((variable, index) => {
+        const { ruleErrors, ruleWarnings, defaultErrors } = checkVariable(variable);
+
+        return (
+          <div key={index} className="border border-gray-200 rounded-md p-3 space-y-3">
+            <div className="flex justify-between items-start">
+              <div className="grow space-y-3">
+                <div className="grid grid-cols-2 gap-2">
+                  <input
+                    type="text"
+                    value={variable.name}
+                    onChange={(e) => updateVariable(index, 'name', e.target.value)}
+                    className="block w-full px-3 py-2 text-xs border border-gray-200 rounded-md"
+                    placeholder="Variable Name"
+                  />
+                  <input
+                    type="text"
+                    value={variable.defaultValue}
+                    onChange={(e) => updateVariable(index, 'defaultValue', e.target.value)}
+                    className="block w-full px-3 py-2 text-xs border border-gray-200 rounded-md"
+                    placeholder="Default Value"
+                  />
+                </div>
+                {defaultErrors.length > 0 && (
+                  <p className="text-xs text-red-600">Default value: {defaultErrors.join(', ')}</p>
+                )}
+                
                 <input
                   type="text"
-                  value={variable.name}
-                  onChange={(e) => updateVariable(index, 'name', e.target.value)}
+                  value={variable.description || ''}
+                  onChange={(e) => updateVariable(index, 'description', e.target.value)}
                   className="block w-full px-3 py-2 text-xs border border-gray-200 rounded-md"
-                  placeholder="Variable Name"
+                  placeholder="Description (optional)"
                 />
+                
                 <input
                   type="text"
-                  value={variable.defaultValue}
-                  onChange={(e) => updateVariable(index, 'defaultValue', e.target.value)}
+                  value={variable.rules}
+                  onChange={(e) => updateVariable(index, 'rules', e.target.value)}
                   className="block w-full px-3 py-2 text-xs border border-gray-200 rounded-md"
-                  placeholder="Default Value"
+                  placeholder="Validation Rules (e.g., string|max:20)"
                 />
-              </div>
-              
-              <input
-                type="text"
-                value={variable.description || ''}
-                onChange={(e) => updateVariable(index, 'description', e.target.value)}
-                className="block w-full px-3 py-2 text-xs border border-gray-200 rounded-md"
-                placeholder="Description (optional)"
-              />
-              
-              <input
-                type="text"
-                value={variable.rules}
-                onChange={(e) => updateVariable(index, 'rules', e.target.value)}
-                className="block w-full px-3 py-2 text-xs border border-gray-200 rounded-md"
-                placeholder="Validation Rules (e.g., string|max:20)"
-              />
+                {ruleErrors.length > 0 && (
+                  <p className="text-xs text-red-600">{ruleErrors.join(', ')}</p>
+                )}
+                {ruleWarnings.length > 0 && (
+                  <p className="text-xs text-amber-600">{ruleWarnings.join(', ')}</p>
+                )}
 
-              <div className="flex space-x-4">
-                <label className="flex items-center space-x-2">
-                  <input
-                    type="checkbox"
-                    checked={variable.required}
-                    onChange={(e) => updateVariable(index, 'required', e.target.checked)}
-                    className="text-xs"
-                  />
-                  <span className="text-xs">Required</span>
-                </label>
-                
-                <label className="flex items-center space-x-2">
-                  <input
-                    type="checkbox"
-                    checked={variable.userViewable}
-                    onChange={(e) => updateVariable(index, 'userViewable', e.target.checked)}
-                    className="text-xs"
-                  />
-                  <span className="text-xs">User Viewable</span>
-                </label>
-                
-                <label className="flex items-center space-x-2">
-                  <input
-                    type="checkbox"
-                    checked={variable.userEditable}
-                    onChange={(e) => updateVariable(index, 'userEditable', e.target.checked)}
-                    className="text-xs"
-                  />
-                  <span className="text-xs">User Editable</span>
-                </label>
+                <div className="flex space-x-4">
+                  <label className="flex items-center space-x-2">
+                    <input
+                      type="checkbox"
+                      checked={variable.required}
+                      onChange={(e) => updateVariable(index, 'required', e.target.checked)}
+                      className="text-xs"
+                    />
+                    <span className="text-xs">Required</span>
+                  </label>
+                  
+                  <label className="flex items-center space-x-2">
+                    <input
+                      type="checkbox"
+                      checked={variable.userViewable}
+                      onChange={(e) => updateVariable(index, 'userViewable', e.target.checked)}
+                      className="text-xs"
+                    />
+                    <span className="text-xs">User Viewable</span>
+                  </label>
+                  
+                  <label className="flex items-center space-x-2">
+                    <input
+                      type="checkbox"
+                      checked={variable.userEditable}
+                      onChange={(e) => updateVariable(index, 'userEditable', e.target.checked)}
+                      className="text-xs"
+                    />
+                    <span className="text-xs">User Editable</span>
+                  </label>
+                </div>
               </div>
+              
+              <button
+                type="button"
+                onClick={() => removeVariable(index)}
+                className="ml-2 p-1 text-gray-400 hover:text-red-500"
+              >
+                <TrashIcon className="w-4 h-4" />
+              </button>
             </div>
-            
-            <button
-              type="button"
-              onClick={() => removeVariable(index)}
-              className="ml-2 p-1 text-gray-400 hover:text-red-500"
-            >
-              <TrashIcon className="w-4 h-4" />
-            </button>
           </div>
-        </div>
-      ))}
+        );
+      })}
 
       {variables.length === 0 && (
         <div className="text-center py-4 border border-gray-200 border-dashed rounded-md">
@@ -270,7 +269,9 @@ const AdminUnitsPage: React.FC = () => {
     },
     startup: {
       userEditable: false
-    }
+    },
+    consoleCommands: [],
+    minecraftColorCodes: false
   });
   const [formError, setFormError] = useState<string | null>(null);
 
@@ -280,18 +281,11 @@ const AdminUnitsPage: React.FC = () => {
 
   const fetchUnits = async () => {
     try {
-      const token = localStorage.getItem('token');
-      const response = await fetch('/api/units', {
-        headers: { 'Authorization': `Bearer ${token}` }
-      });
-      
-      if (!response.ok) throw new Error('Failed to fetch units');
-      
-      const data = await response.json();
+      const data = await api.units.list();
       setUnits(data);
       setLoading(false);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'An error occurred');
+      setError(getErrorMessage(err));
       setLoading(false);
     }
   };
@@ -299,24 +293,17 @@ const AdminUnitsPage: React.FC = () => {
   const handleCreate = async (e: React.FormEvent) => {
     e.preventDefault();
     setFormError(null);
+
+    const variableError = findVariableError(formData.environmentVariables);
+    if (variableError) {
+      setFormError(variableError);
+      return;
+    }
     
     try {
-      const validatedData = unitSchema.omit({ id: true, createdAt: true, updatedAt: true }).parse(formData);
+      const validatedData = unitFormSchema.omit({ id: true, createdAt: true, updatedAt: true }).parse(formData);
       
-      const token = localStorage.getItem('token');
-      const response = await fetch('/api/units', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify(validatedData)
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Failed to create unit');
-      }
+      await api.units.create(validatedData);
 
       await fetchUnits();
       setView('list');
@@ -325,7 +312,7 @@ const AdminUnitsPage: React.FC = () => {
       if (err instanceof z.ZodError) {
         setFormError('Invalid input. Please check your data.');
       } else {
-        setFormError(err instanceof Error ? err.message : 'Failed to create unit');
+        setFormError(getErrorMessage(err, 'Failed to create unit'));
       }
     }
   };
@@ -335,23 +322,16 @@ const AdminUnitsPage: React.FC = () => {
     if (!selectedUnit) return;
     setFormError(null);
 
+    const variableError = findVariableError(formData.environmentVariables);
+    if (variableError) {
+      setFormError(variableError);
+      return;
+    }
+
     try {
-      const validatedData = unitSchema.partial().omit({ id: true, createdAt: true, updatedAt: true }).parse(formData);
+      const validatedData = unitFormSchema.partial().omit({ id: true, createdAt: true, updatedAt: true }).parse(formData);
       
-      const token = localStorage.getItem('token');
-      const response = await fetch(`/api/units/${selectedUnit.id}`, {
-        method: 'PATCH',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify(validatedData)
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Failed to update unit');
-      }
+      await api.units.update(selectedUnit.id!, validatedData);
 
       await fetchUnits();
       setView('list');
@@ -360,23 +340,14 @@ const AdminUnitsPage: React.FC = () => {
       if (err instanceof z.ZodError) {
         setFormError('Invalid input. Please check your data.');
       } else {
-        setFormError(err instanceof Error ? err.message : 'Failed to update unit');
+        setFormError(getErrorMessage(err, 'Failed to update unit'));
       }
     }
   };
 
   const handleDelete = async (unitId: string) => {
     try {
-      const token = localStorage.getItem('token');
-      const response = await fetch(`/api/units/${unitId}`, {
-        method: 'DELETE',
-        headers: { 'Authorization': `Bearer ${token}` }
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Failed to delete unit');
-      }
+      await api.units.delete(unitId);
 
       await fetchUnits();
       if (selectedUnit?.id === unitId) {
@@ -384,7 +355,7 @@ const AdminUnitsPage: React.FC = () => {
         setSelectedUnit(null);
       }
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to delete unit');
+      setError(getErrorMessage(err, 'Failed to delete unit'));
     }
   };
 
@@ -404,7 +375,9 @@ const AdminUnitsPage: React.FC = () => {
       },
       startup: {
         userEditable: false
-      }
+      },
+      consoleCommands: [],
+      minecraftColorCodes: false
     });
     setSelectedUnit(null);
   };
@@ -419,7 +392,9 @@ const AdminUnitsPage: React.FC = () => {
       configFiles: unit.configFiles,
       environmentVariables: unit.environmentVariables,
       installScript: unit.installScript,
-      startup: unit.startup
+      startup: unit.startup,
+      consoleCommands: unit.consoleCommands,
+      minecraftColorCodes: unit.minecraftColorCodes
     };
     
     const blob = new Blob([JSON.stringify(exportData, null, 2)], {
@@ -438,27 +413,14 @@ const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
   reader.onload = async (e) => {
     try {
       const content = e.target?.result as string;
-      const importedUnit = JSON.parse(content);
-      
-      const token = localStorage.getItem('token');
-      const response = await fetch('/api/units', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`
-        },
-        body: JSON.stringify(importedUnit)
-      });
+      const importedUnit: UnitInput = JSON.parse(content);
       
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Import failed');
-      }
+      await api.units.create(importedUnit);
       
       await fetchUnits();
       setView('list');
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to import unit');
+      setError(getErrorMessage(err, 'Failed to import unit'));
     }
   };
   
@@ -483,7 +445,7 @@ const handleImportEgg = async (e: React.ChangeEvent<HTMLInputElement>) => {
                     .replace('}}', '%')
       
       // Convert Pterodactyl egg to Argon unit
-      const unit = {
+      const unit: UnitInput = {
         name: egg.name,
         shortName: egg.name.toLowerCase().replace(/[^a-z0-9-]/g, '-'),
         description: egg.description,
@@ -506,28 +468,17 @@ const handleImportEgg = async (e: React.ChangeEvent<HTMLInputElement>) => {
         },
         startup: {
           userEditable: true
-        }
+        },
+        consoleCommands: [],
+        minecraftColorCodes: false
       };
 
-      const token = localStorage.getItem('token');
-      const response = await fetch('/api/units', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`
-        },
-        body: JSON.stringify(unit)
-      });
-      
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Import failed');
-      }
+      await api.units.create(unit);
       
       await fetchUnits();
       setView('list');
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to import Pterodactyl egg');
+      setError(getErrorMessage(err, 'Failed to import Pterodactyl egg'));
     }
   };
   
@@ -605,6 +556,20 @@ const handleImportEgg = async (e: React.ChangeEvent<HTMLInputElement>) => {
         />
       </div>
 
+      <div className="space-y-1">
+        <label className="block text-xs font-medium text-gray-700">Console Commands</label>
+        <textarea
+          value={formData.consoleCommands.join('\n')}
+          onChange={(e) => setFormData({ ...formData, consoleCommands: e.target.value.split('\n') })}
+          className="block w-full px-3 py-2 text-xs border border-gray-200 rounded-md font-mono"
+          placeholder={'whitelist add <player>\nsay <message>'}
+          rows={4}
+        />
+        <p className="text-xs text-gray-500 mt-1">
+          One command per line. Offered as tab completions in the server console; use &lt;name&gt; for arguments
+        </p>
+      </div>
+
       {/* Environment Variables */}
       <EnvironmentVariableForm 
         variables={formData.environmentVariables}
@@ -679,6 +644,20 @@ const handleImportEgg = async (e: React.ChangeEvent<HTMLInputElement>) => {
         </div>
       </div>
 
+      {/* Console */}
+      <div className="space-y-1">
+        <label className="block text-xs font-medium text-gray-700">Console</label>
+        <label className="flex items-center space-x-2">
+          <input
+            type="checkbox"
+            checked={formData.minecraftColorCodes}
+            onChange={(e) => setFormData({ ...formData, minecraftColorCodes: e.target.checked })}
+            className="text-xs"
+          />
+          <span className="text-xs">Translate Minecraft color codes (§a, &amp;a)</span>
+        </label>
+      </div>
+
       {/* Action Buttons */}
       <div className="flex items-center space-x-3">
         <button
@@ -734,7 +713,9 @@ const handleImportEgg = async (e: React.ChangeEvent<HTMLInputElement>) => {
                   configFiles: selectedUnit.configFiles || [],
                   environmentVariables: selectedUnit.environmentVariables || [],
                   installScript: selectedUnit.installScript,
-                  startup: selectedUnit.startup
+                  startup: selectedUnit.startup,
+                  consoleCommands: selectedUnit.consoleCommands || [],
+                  minecraftColorCodes: selectedUnit.minecraftColorCodes
                 });
                 setView('edit');
               }}
@@ -779,6 +760,17 @@ const handleImportEgg = async (e: React.ChangeEvent<HTMLInputElement>) => {
             </div>
           </div>
 
+          {selectedUnit.consoleCommands.length > 0 && (
+            <div className="pt-4 border-t border-gray-100">
+              <div className="text-xs font-medium text-gray-900 mb-3">Console Commands</div>
+              <div className="space-y-1">
+                {selectedUnit.consoleCommands.map((command, index) => (
+                  <div key={index} className="text-sm font-mono">{command}</div>
+                ))}
+              </div>
+            </div>
+          )}
+
           <div className="pt-4 border-t border-gray-100">
             <div className="text-xs font-medium text-gray-900 mb-3">Environment Variables</div>
             {selectedUnit.environmentVariables.length > 0 ? (
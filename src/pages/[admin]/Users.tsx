@@ -1,14 +1,11 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { ChevronRightIcon, PlusIcon, UserIcon, TrashIcon, PencilIcon, ArrowLeftIcon, ChevronLeftIcon, ChevronDownIcon, AlertTriangleIcon, ShieldIcon } from 'lucide-react';
 import LoadingSpinner from '../../components/LoadingSpinner';
-
-interface User {
-  id: string;
-  username: string;
-  permissions: string[];
-  createdAt: Date;
-  updatedAt: Date;
-}
+import { useCan } from '../../hooks/useCan';
+import { useAuth } from '../[auth]/Auth';
+import { api, getErrorMessage } from '../../lib/api';
+import { diffRoleChange, PermissionChange } from '../../lib/permissions';
+import type { PanelSettings, PermissionInfo, Role, RoleInput, User, UserInput } from '../../lib/types';
 
 interface PaginationState {
   page: number;
@@ -18,11 +15,9 @@ interface PaginationState {
 
 type View = 'list' | 'create' | 'view' | 'edit';
 
-interface FormData {
-  username: string;
-  password: string;
-  permissions: string[];
-}
+type Section = 'users' | 'roles';
+
+type FormData = Required<UserInput>;
 
 // Alert component for displaying error/success messages
 interface AlertProps {
@@ -56,7 +51,299 @@ const Alert: React.FC<AlertProps> = ({ type, message, onDismiss }) => {
   );
 };
 
+// Roles tab: named permission sets shared by many users
+interface RolesTabProps {
+  roles: Role[];
+  users: User[];
+  availablePermissions: PermissionInfo[];
+  canManage: boolean;
+  onChange: () => Promise<void>;
+  showAlert: (type: 'error' | 'success' | 'warning', message: string) => void;
+}
+
+const EMPTY_ROLE: RoleInput = { name: '', description: '', permissions: [] };
+
+const RolesTab: React.FC<RolesTabProps> = ({ roles, users, availablePermissions, canManage, onChange, showAlert }) => {
+  const [editingRole, setEditingRole] = useState<Role | null>(null);
+  const [creating, setCreating] = useState(false);
+  const [formData, setFormData] = useState<RoleInput>(EMPTY_ROLE);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [deletingRole, setDeletingRole] = useState<Role | null>(null);
+
+  const labelFor = (permission: string) => availablePermissions.find(p => p.id === permission)?.label ?? permission;
+
+  const openForm = (role: Role | null) => {
+    setEditingRole(role);
+    setCreating(!role);
+    setFormData(role
+      ? { name: role.name, description: role.description ?? '', permissions: role.permissions }
+      : EMPTY_ROLE);
+    setFormError(null);
+  };
+
+  const closeForm = () => {
+    setEditingRole(null);
+    setCreating(false);
+    setFormData(EMPTY_ROLE);
+  };
+
+  const togglePermission = (permission: string) => {
+    setFormData(prev => ({
+      ...prev,
+      permissions: prev.permissions.includes(permission)
+        ? prev.permissions.filter(p => p !== permission)
+        : [...prev.permissions, permission]
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setFormError(null);
+
+    try {
+      if (editingRole) {
+        await api.roles.update(editingRole.id, formData);
+      } else {
+        await api.roles.create(formData);
+      }
+
+      await onChange();
+      showAlert('success', `Role "${formData.name}" ${editingRole ? 'updated' : 'created'} successfully`);
+      closeForm();
+    } catch (err) {
+      setFormError(getErrorMessage(err, `Failed to ${editingRole ? 'update' : 'create'} role`));
+    }
+  };
+
+  const handleDelete = async (role: Role) => {
+    try {
+      await api.roles.delete(role.id);
+      await onChange();
+      setDeletingRole(null);
+      showAlert('success', `Role "${role.name}" deleted successfully`);
+    } catch (err) {
+      showAlert('error', getErrorMessage(err, 'Failed to delete role'));
+    }
+  };
+
+  const renderChanges = (changes: PermissionChange[], emptyMessage: string) => (
+    changes.length > 0 ? (
+      <div className="space-y-2">
+        {changes.map(({ user, gained, lost }) => (
+          <div key={user.id} className="flex items-start justify-between text-xs">
+            <span className="font-medium text-gray-900">{user.username}</span>
+            <div className="flex flex-wrap justify-end gap-1 ml-4">
+              {gained.map(permission => (
+                <span key={permission} className="px-2 py-0.5 rounded-full bg-green-50 text-green-700">
+                  + {labelFor(permission)}
+                </span>
+              ))}
+              {lost.map(permission => (
+                <span key={permission} className="px-2 py-0.5 rounded-full bg-red-50 text-red-700">
+                  − {labelFor(permission)}
+                </span>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+    ) : (
+      <p className="text-xs text-gray-500">{emptyMessage}</p>
+    )
+  );
+
+  if (creating || editingRole) {
+    const changes = editingRole ? diffRoleChange(users, roles, editingRole.id, formData.permissions) : [];
+    const members = editingRole ? users.filter(user => user.roles.includes(editingRole.id)).length : 0;
+
+    return (
+      <div className="grid grid-cols-2 gap-6">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {formError && (
+            <Alert
+              type="error"
+              message={formError}
+              onDismiss={() => setFormError(null)}
+            />
+          )}
+
+          <div className="space-y-1">
+            <label className="block text-xs font-medium text-gray-700">Name</label>
+            <input
+              type="text"
+              value={formData.name}
+              onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+              className="block w-full px-3 py-2 text-xs border border-gray-200 rounded-md focus:outline-none focus:border-gray-400"
+              placeholder="Support"
+              required
+              maxLength={100}
+            />
+          </div>
+
+          <div className="space-y-1">
+            <label className="block text-xs font-medium text-gray-700">Description</label>
+            <input
+              type="text"
+              value={formData.description}
+              onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+              className="block w-full px-3 py-2 text-xs border border-gray-200 rounded-md focus:outline-none focus:border-gray-400"
+              placeholder="Can look at servers and users but not change them"
+            />
+          </div>
+
+          <div className="space-y-1">
+            <label className="block text-xs font-medium text-gray-700">Permissions</label>
+            <div className="mt-2 space-y-2 border border-gray-200 rounded-md p-3">
+              {availablePermissions.map(permission => (
+                <div key={permission.id} className="flex items-start space-x-2">
+                  <input
+                    type="checkbox"
+                    id={`role-permission-${permission.id}`}
+                    checked={formData.permissions.includes(permission.id)}
+                    onChange={() => togglePermission(permission.id)}
+                    className="mt-0.5"
+                  />
+                  <div className="flex-1">
+                    <label htmlFor={`role-permission-${permission.id}`} className="text-xs font-medium text-gray-700 cursor-pointer">
+                      {permission.label}
+                    </label>
+                    <p className="text-xs text-gray-500">{permission.description}</p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex items-center space-x-3">
+            <button
+              type="submit"
+              className="px-3 py-2 text-xs font-medium text-white bg-gray-900 rounded-md hover:bg-gray-800"
+            >
+              {editingRole ? 'Update Role' : 'Create Role'}
+            </button>
+            <button
+              type="button"
+              onClick={closeForm}
+              className="px-3 py-2 text-xs font-medium text-gray-600 bg-white border border-gray-200 rounded-md hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+
+        {editingRole && (
+          <div className="bg-white border border-gray-200 rounded-md shadow-xs self-start">
+            <div className="px-6 py-4 space-y-4">
+              <div>
+                <h3 className="text-sm font-medium text-gray-900">Changes on save</h3>
+                <p className="text-xs text-gray-500 mt-1">
+                  {members} {members === 1 ? 'user has' : 'users have'} this role. Permissions a user also holds
+                  directly or through another role are not affected.
+                </p>
+              </div>
+              {renderChanges(changes, "No user's permissions change")}
+            </div>
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {canManage && (
+        <div className="flex justify-end">
+          <button
+            onClick={() => openForm(null)}
+            className="flex items-center px-3 py-2 text-xs font-medium text-white bg-gray-900 rounded-md hover:bg-gray-800"
+          >
+            <PlusIcon className="w-3.5 h-3.5 mr-1.5" />
+            Create Role
+          </button>
+        </div>
+      )}
+
+      {roles.map(role => {
+        const members = users.filter(user => user.roles.includes(role.id));
+
+        return (
+          <div key={role.id} className="bg-white border border-gray-200 rounded-md shadow-xs">
+            <div className="px-6 py-4 space-y-3">
+              <div className="flex items-start justify-between">
+                <div>
+                  <div className="text-sm font-medium text-gray-900">{role.name}</div>
+                  <div className="text-xs text-gray-500 mt-1">
+                    {role.description ? `${role.description} • ` : ''}
+                    {members.length} {members.length === 1 ? 'user' : 'users'}
+                  </div>
+                </div>
+                {canManage && (
+                  <div className="flex items-center space-x-2">
+                    <button
+                      onClick={() => openForm(role)}
+                      className="p-1 text-gray-400 hover:text-gray-600"
+                    >
+                      <PencilIcon className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => setDeletingRole(role)}
+                      className="p-1 text-gray-400 hover:text-red-600"
+                    >
+                      <TrashIcon className="w-4 h-4" />
+                    </button>
+                  </div>
+                )}
+              </div>
+
+              <div className="flex flex-wrap gap-1">
+                {role.permissions.map(permission => (
+                  <span key={permission} className="px-2 py-1 text-xs rounded-full bg-gray-100 text-gray-700">
+                    {labelFor(permission)}
+                  </span>
+                ))}
+              </div>
+
+              {deletingRole?.id === role.id && (
+                <div className="border-t border-gray-200 pt-3 space-y-3">
+                  <p className="text-xs font-medium text-gray-900">Delete this role?</p>
+                  {renderChanges(
+                    diffRoleChange(users, roles, role.id, null),
+                    'No user loses any permissions'
+                  )}
+                  <div className="flex items-center space-x-3">
+                    <button
+                      onClick={() => handleDelete(role)}
+                      className="px-3 py-2 text-xs font-medium text-white bg-red-600 rounded-md hover:bg-red-700"
+                    >
+                      Delete Role
+                    </button>
+                    <button
+                      onClick={() => setDeletingRole(null)}
+                      className="px-3 py-2 text-xs font-medium text-gray-600 bg-white border border-gray-200 rounded-md hover:bg-gray-50"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+        );
+      })}
+
+      {roles.length === 0 && (
+        <div className="text-center py-6 bg-white rounded-md border border-gray-200">
+          <p className="text-xs text-gray-500">No roles yet</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
 const AdminUsersPage = () => {
+  const canManage = useCan('USERS_MANAGE');
+  const isAdmin = useCan('ADMIN');
+  const { reloadUser } = useAuth();
   const [users, setUsers] = useState<User[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -65,7 +352,8 @@ const AdminUsersPage = () => {
   const [formData, setFormData] = useState<FormData>({
     username: '',
     password: '',
-    permissions: ['SERVERS_VIEW', 'SERVERS_MANAGE']
+    permissions: ['SERVERS_VIEW', 'SERVERS_MANAGE'],
+    roles: []
   });
   const [activeTab, setActiveTab] = useState<'overview' | 'permissions'>('overview');
   const [formError, setFormError] = useState<string | null>(null);
@@ -73,19 +361,15 @@ const AdminUsersPage = () => {
   const [tableSortField, setTableSortField] = useState<string>('username');
   const [tableSortDirection, setTableSortDirection] = useState<'asc' | 'desc'>('asc');
 
-  // Available permissions
-  const availablePermissions = [
-    { id: 'ADMIN', label: 'Administrator', description: 'Full access to all system features' },
-    { id: 'SERVERS_VIEW', label: 'View Servers', description: 'Can view server information' },
-    { id: 'SERVERS_MANAGE', label: 'Manage Servers', description: 'Can create, edit, and delete servers' },
-    { id: 'USERS_VIEW', label: 'View Users', description: 'Can view user information' },
-    { id: 'USERS_MANAGE', label: 'Manage Users', description: 'Can create, edit, and delete users' },
-    { id: 'NODES_VIEW', label: 'View Nodes', description: 'Can view node information' },
-    { id: 'NODES_MANAGE', label: 'Manage Nodes', description: 'Can create, edit, and delete nodes' }
-  ];
+  // Loaded from the backend so new permissions appear without a panel release
+  const [availablePermissions, setAvailablePermissions] = useState<PermissionInfo[]>([]);
+  const [roles, setRoles] = useState<Role[]>([]);
+  const [section, setSection] = useState<Section>('users');
+  const [settings, setSettings] = useState<PanelSettings | null>(null);
 
   useEffect(() => {
     fetchData();
+    fetchSettings();
   }, []);
 
   // Show alert message
@@ -109,29 +393,18 @@ const AdminUsersPage = () => {
   const fetchData = async () => {
     try {
       setLoading(true);
-      const token = localStorage.getItem('token');
-      const headers = { 'Authorization': `Bearer ${token}` };
-      
-      const response = await fetch('/api/users', { headers });
-      
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Failed to fetch users');
-      }
-      
-      const usersData = await response.json();
+      const [usersData, permissionsData, rolesData] = await Promise.all([
+        api.users.list(),
+        api.permissions.list(),
+        api.roles.list()
+      ]);
       
-      // Convert string dates to Date objects
-      const formattedUsers = usersData.map((user: any) => ({
-        ...user,
-        createdAt: new Date(user.createdAt),
-        updatedAt: new Date(user.updatedAt)
-      }));
-      
-      setUsers(formattedUsers);
+      setUsers(usersData);
+      setAvailablePermissions(permissionsData);
+      setRoles(rolesData);
       setError(null);
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'An error occurred';
+      const errorMessage = getErrorMessage(err);
       setError(errorMessage);
       showAlert('error', errorMessage);
     } finally {
@@ -139,43 +412,55 @@ const AdminUsersPage = () => {
     }
   };
 
+  // Panel-wide settings are only readable by administrators. They are loaded
+  // on their own so the user list still works when they can't be fetched;
+  // the 2FA card is simply left out.
+  const fetchSettings = async () => {
+    if (!isAdmin) return;
+
+    try {
+      setSettings(await api.settings.get());
+    } catch (err) {
+      setSettings(null);
+      showAlert('warning', getErrorMessage(err, 'Failed to load panel settings'));
+    }
+  };
+
+  const toggleRequireTwoFactor = async () => {
+    if (!settings) return;
+
+    try {
+      const updated = await api.settings.update({ requireTwoFactor: !settings.requireTwoFactor });
+      setSettings(updated);
+      showAlert('success', updated.requireTwoFactor
+        ? 'Two-factor authentication is now required for all users'
+        : 'Two-factor authentication is no longer required');
+      // The requirement applies to the signed-in admin too
+      reloadUser().catch(error => console.error('Auth state check failed:', error));
+    } catch (err) {
+      showAlert('error', getErrorMessage(err, 'Failed to update panel settings'));
+    }
+  };
+
   const fetchSingleUser = async (userId: string) => {
     try {
       setLoading(true);
-      const token = localStorage.getItem('token');
-      const response = await fetch(`/api/users/${userId}`, {
-        headers: { 'Authorization': `Bearer ${token}` }
-      });
-      
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Failed to fetch user');
-      }
-      
-      const userData = await response.json();
-      
-      // Convert string dates to Date objects
-      const formattedUser = {
-        ...userData,
-        createdAt: new Date(userData.createdAt),
-        updatedAt: new Date(userData.updatedAt)
-      };
+      const userData = await api.users.get(userId);
       
       // Update the user in the users list
       setUsers(prevUsers => 
-        prevUsers.map(user => user.id === userId ? formattedUser : user)
+        prevUsers.map(user => user.id === userId ? userData : user)
       );
       
       // Update selected user if this is the one we're viewing
       if (selectedUser && selectedUser.id === userId) {
-        setSelectedUser(formattedUser);
+        setSelectedUser(userData);
       }
       
       setError(null);
-      return formattedUser;
+      return userData;
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'An error occurred';
-      showAlert('error', errorMessage);
+      showAlert('error', getErrorMessage(err));
       return null;
     } finally {
       setLoading(false);
@@ -187,32 +472,14 @@ const AdminUsersPage = () => {
     setFormError(null);
     
     try {
-      const token = localStorage.getItem('token');
-      const response = await fetch('/api/users', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify(formData)
-      });
-
-      const data = await response.json();
-      
-      if (!response.ok) {
-        const errorMessage = Array.isArray(data.error) 
-          ? data.error.map((e: any) => e.message).join(', ')
-          : data.error || 'Failed to create user';
-        
-        throw new Error(errorMessage);
-      }
+      await api.users.create(formData);
 
       await fetchData();
       setView('list');
-      setFormData({ username: '', password: '', permissions: ['SERVERS_VIEW', 'SERVERS_MANAGE'] });
+      setFormData({ username: '', password: '', permissions: ['SERVERS_VIEW', 'SERVERS_MANAGE'], roles: [] });
       showAlert('success', `User "${formData.username}" created successfully`);
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to create user';
+      const errorMessage = getErrorMessage(err, 'Failed to create user');
       setFormError(errorMessage);
       showAlert('error', errorMessage);
     }
@@ -224,32 +491,14 @@ const AdminUsersPage = () => {
     setFormError(null);
 
     try {
-      const token = localStorage.getItem('token');
-      const payload = { ...formData };
+      const payload: UserInput = { ...formData };
       
       // If password is empty, remove it from the payload
       if (!payload.password) {
-        delete (payload as any).password;
+        delete payload.password;
       }
       
-      const response = await fetch(`/api/users/${selectedUser.id}`, {
-        method: 'PATCH',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify(payload)
-      });
-
-      const data = await response.json();
-
-      if (!response.ok) {
-        const errorMessage = Array.isArray(data.error) 
-          ? data.error.map((e: any) => e.message).join(', ')
-          : data.error || 'Failed to update user';
-        
-        throw new Error(errorMessage);
-      }
+      await api.users.update(selectedUser.id, payload);
 
       await fetchData();
       showAlert('success', `User "${formData.username}" updated successfully`);
@@ -261,9 +510,9 @@ const AdminUsersPage = () => {
       }
       
       setView('view');
-      setFormData({ username: '', password: '', permissions: ['SERVERS_VIEW', 'SERVERS_MANAGE'] });
+      setFormData({ username: '', password: '', permissions: ['SERVERS_VIEW', 'SERVERS_MANAGE'], roles: [] });
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to update user';
+      const errorMessage = getErrorMessage(err, 'Failed to update user');
       setFormError(errorMessage);
       showAlert('error', errorMessage);
     }
@@ -271,18 +520,7 @@ const AdminUsersPage = () => {
 
   const handleDelete = async (userId: string) => {
     try {
-      const token = localStorage.getItem('token');
-      const response = await fetch(`/api/users/${userId}`, {
-        method: 'DELETE',
-        headers: {
-          'Authorization': `Bearer ${token}`
-        }
-      });
-
-      if (!response.ok) {
-        const data = await response.json();
-        throw new Error(data.error || 'Failed to delete user');
-      }
+      await api.users.delete(userId);
 
       await fetchData();
       if (selectedUser?.id === userId) {
@@ -292,8 +530,7 @@ const AdminUsersPage = () => {
       
       showAlert('success', 'User deleted successfully');
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to delete user';
-      showAlert('error', errorMessage);
+      showAlert('error', getErrorMessage(err, 'Failed to delete user'));
     }
   };
 
@@ -318,7 +555,7 @@ const AdminUsersPage = () => {
           comparison = a.permissions.length - b.permissions.length;
           break;
         case 'createdAt':
-          comparison = a.createdAt.getTime() - b.createdAt.getTime();
+          comparison = new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
           break;
         default:
           comparison = 0;
@@ -344,6 +581,15 @@ const AdminUsersPage = () => {
     });
   };
 
+  const toggleRole = (roleId: string) => {
+    setFormData(prevData => ({
+      ...prevData,
+      roles: prevData.roles.includes(roleId)
+        ? prevData.roles.filter(r => r !== roleId)
+        : [...prevData.roles, roleId]
+    }));
+  };
+
   const renderForm = (type: 'create' | 'edit') => (
     <form onSubmit={type === 'create' ? handleCreate : handleEdit} className="space-y-4 max-w-lg">
       {formError && (
@@ -416,6 +662,33 @@ const AdminUsersPage = () => {
         </div>
       </div>
 
+      {roles.length > 0 && (
+        <div className="space-y-1">
+          <label className="block text-xs font-medium text-gray-700">
+            Roles
+          </label>
+          <div className="mt-2 space-y-2 border border-gray-200 rounded-md p-3">
+            {roles.map(role => (
+              <div key={role.id} className="flex items-start space-x-2">
+                <input
+                  type="checkbox"
+                  id={`role-${role.id}`}
+                  checked={formData.roles.includes(role.id)}
+                  onChange={() => toggleRole(role.id)}
+                  className="mt-0.5"
+                />
+                <div className="flex-1">
+                  <label htmlFor={`role-${role.id}`} className="text-xs font-medium text-gray-700 cursor-pointer">
+                    {role.name}
+                  </label>
+                  {role.description && <p className="text-xs text-gray-500">{role.description}</p>}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       <div className="flex items-center space-x-3">
         <button
           type="submit"
@@ -428,7 +701,7 @@ const AdminUsersPage = () => {
           onClick={() => {
             setView(type === 'edit' ? 'view' : 'list');
             if (type === 'create') setSelectedUser(null);
-            setFormData({ username: '', password: '', permissions: ['SERVERS_VIEW', 'SERVERS_MANAGE'] });
+            setFormData({ username: '', password: '', permissions: ['SERVERS_VIEW', 'SERVERS_MANAGE'], roles: [] });
           }}
           className="px-3 py-2 text-xs font-medium text-gray-600 bg-white border border-gray-200 rounded-md hover:bg-gray-50"
         >
@@ -457,6 +730,20 @@ const AdminUsersPage = () => {
     );
   };
 
+  const renderRoleBadges = (roleIds: string[]) => (
+    <div className="flex flex-wrap gap-1">
+      {roles.filter(role => roleIds.includes(role.id)).map(role => (
+        <span
+          key={role.id}
+          className="px-2 py-1 text-xs rounded-full bg-blue-50 text-blue-700"
+          title={role.description ?? undefined}
+        >
+          {role.name}
+        </span>
+      ))}
+    </div>
+  );
+
   const renderUserView = () => {
     if (!selectedUser) return null;
 
@@ -477,29 +764,32 @@ const AdminUsersPage = () => {
               <h2 className="text-lg font-semibold text-gray-900">{selectedUser.username}</h2>
             </div>
           </div>
-          <div className="flex items-center space-x-3">
-            <button
-              onClick={() => {
-                setFormData({
-                  username: selectedUser.username,
-                  password: '',
-                  permissions: selectedUser.permissions
-                });
-                setView('edit');
-              }}
-              className="flex items-center px-3 py-2 text-xs font-medium text-gray-600 bg-white border border-gray-200 rounded-md hover:bg-gray-50"
-            >
-              <PencilIcon className="w-3.5 h-3.5 mr-1.5" />
-              Edit
-            </button>
-            <button
-              onClick={() => handleDelete(selectedUser.id)}
-              className="flex items-center px-3 py-2 text-xs font-medium text-red-600 bg-white border border-gray-200 rounded-md hover:bg-red-50"
-            >
-              <TrashIcon className="w-3.5 h-3.5 mr-1.5" />
-              Delete
-            </button>
-          </div>
+          {canManage && (
+            <div className="flex items-center space-x-3">
+              <button
+                onClick={() => {
+                  setFormData({
+                    username: selectedUser.username,
+                    password: '',
+                    permissions: selectedUser.permissions,
+                    roles: selectedUser.roles
+                  });
+                  setView('edit');
+                }}
+                className="flex items-center px-3 py-2 text-xs font-medium text-gray-600 bg-white border border-gray-200 rounded-md hover:bg-gray-50"
+              >
+                <PencilIcon className="w-3.5 h-3.5 mr-1.5" />
+                Edit
+              </button>
+              <button
+                onClick={() => handleDelete(selectedUser.id)}
+                className="flex items-center px-3 py-2 text-xs font-medium text-red-600 bg-white border border-gray-200 rounded-md hover:bg-red-50"
+              >
+                <TrashIcon className="w-3.5 h-3.5 mr-1.5" />
+                Delete
+              </button>
+            </div>
+          )}
         </div>
 
         <div className="flex space-x-4 border-b border-gray-200">
@@ -543,16 +833,28 @@ const AdminUsersPage = () => {
                     {renderPermissionBadges(selectedUser.permissions)}
                   </div>
                 </div>
+                {selectedUser.roles.length > 0 && (
+                  <div>
+                    <div className="text-xs text-gray-500">Roles</div>
+                    <div className="mt-1">
+                      {renderRoleBadges(selectedUser.roles)}
+                    </div>
+                  </div>
+                )}
+                <div>
+                  <div className="text-xs text-gray-500">Two-Factor Authentication</div>
+                  <div className="text-sm mt-1">{selectedUser.twoFactorEnabled ? 'Enabled' : 'Not enabled'}</div>
+                </div>
                 <div>
                   <div className="text-xs text-gray-500">Created At</div>
                   <div className="text-sm mt-1">
-                    {selectedUser.createdAt.toLocaleString()}
+                    {new Date(selectedUser.createdAt).toLocaleString()}
                   </div>
                 </div>
                 <div>
                   <div className="text-xs text-gray-500">Updated At</div>
                   <div className="text-sm mt-1">
-                    {selectedUser.updatedAt.toLocaleString()}
+                    {new Date(selectedUser.updatedAt).toLocaleString()}
                   </div>
                 </div>
               </div>
@@ -663,41 +965,50 @@ const AdminUsersPage = () => {
                   <div className="flex items-center">
                     <UserIcon className="h-4 w-4 text-gray-400 mr-2" />
                     <span className="font-medium">{user.username}</span>
+                    {user.twoFactorEnabled && (
+                      <span title="Two-factor authentication enabled">
+                        <ShieldIcon className="h-3.5 w-3.5 text-green-500 ml-1.5" />
+                      </span>
+                    )}
                   </div>
                 </td>
-                <td className="p-3 text-xs">
+                <td className="p-3 text-xs space-y-1">
+                  {renderRoleBadges(user.roles)}
                   {renderPermissionBadges(user.permissions)}
                 </td>
                 <td className="p-3 text-xs text-gray-500">
-                  {user.createdAt.toLocaleDateString()}
+                  {new Date(user.createdAt).toLocaleDateString()}
                 </td>
                 <td className="p-3 text-right whitespace-nowrap">
-                  <div className="flex items-center justify-end space-x-2" onClick={(e) => e.stopPropagation()}>
-                    <button
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        setFormData({
-                          username: user.username,
-                          password: '',
-                          permissions: user.permissions
-                        });
-                        setSelectedUser(user);
-                        setView('edit');
-                      }}
-                      className="p-1 text-gray-400 hover:text-gray-600"
-                    >
-                      <PencilIcon className="w-4 h-4" />
-                    </button>
-                    <button
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        handleDelete(user.id);
-                      }}
-                      className="p-1 text-gray-400 hover:text-red-600"
-                    >
-                      <TrashIcon className="w-4 h-4" />
-                    </button>
-                  </div>
+                  {canManage && (
+                    <div className="flex items-center justify-end space-x-2" onClick={(e) => e.stopPropagation()}>
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setFormData({
+                            username: user.username,
+                            password: '',
+                            permissions: user.permissions,
+                            roles: user.roles
+                          });
+                          setSelectedUser(user);
+                          setView('edit');
+                        }}
+                        className="p-1 text-gray-400 hover:text-gray-600"
+                      >
+                        <PencilIcon className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleDelete(user.id);
+                        }}
+                        className="p-1 text-gray-400 hover:text-red-600"
+                      >
+                        <TrashIcon className="w-4 h-4" />
+                      </button>
+                    </div>
+                  )}
                 </td>
               </tr>
             ))}
@@ -742,7 +1053,7 @@ const AdminUsersPage = () => {
                 <div>
                   <h1 className="text-lg font-semibold text-gray-900">Users</h1>
                   <p className="text-xs text-gray-500 mt-1">
-                    Manage users and their permissions for accessing the panel.
+                    Manage users, roles and their permissions for accessing the panel.
                   </p>
                 </div>
                 <div className="flex space-x-3">
@@ -752,19 +1063,81 @@ const AdminUsersPage = () => {
                   >
                     Refresh
                   </button>
-                  <button
-                    onClick={() => setView('create')}
-                    className="flex items-center px-3 py-2 text-xs font-medium text-white bg-gray-900 rounded-md hover:bg-gray-800"
-                  >
-                    <PlusIcon className="w-3.5 h-3.5 mr-1.5" />
-                    Create User
-                  </button>
+                  {canManage && section === 'users' && (
+                    <button
+                      onClick={() => setView('create')}
+                      className="flex items-center px-3 py-2 text-xs font-medium text-white bg-gray-900 rounded-md hover:bg-gray-800"
+                    >
+                      <PlusIcon className="w-3.5 h-3.5 mr-1.5" />
+                      Create User
+                    </button>
+                  )}
                 </div>
               </div>
 
-              <div className="bg-white border border-gray-200 rounded-md shadow-xs">
-                {renderUserTable()}
+              <div className="flex space-x-4 border-b border-gray-200">
+                <button
+                  onClick={() => setSection('users')}
+                  className={`py-2 px-1 text-xs font-medium border-b-2 ${
+                    section === 'users'
+                      ? 'border-gray-900 text-gray-900'
+                      : 'border-transparent text-gray-500 hover:text-gray-700'
+                  }`}
+                >
+                  Users
+                </button>
+                <button
+                  onClick={() => setSection('roles')}
+                  className={`py-2 px-1 text-xs font-medium border-b-2 ${
+                    section === 'roles'
+                      ? 'border-gray-900 text-gray-900'
+                      : 'border-transparent text-gray-500 hover:text-gray-700'
+                  }`}
+                >
+                  Roles
+                </button>
               </div>
+
+              {section === 'users' ? (
+                <div className="space-y-4">
+                  {isAdmin && settings && (
+                    <div className="bg-white border border-gray-200 rounded-md shadow-xs">
+                      <div className="px-6 py-4 flex items-center justify-between">
+                        <div>
+                          <div className="text-sm font-medium text-gray-900">Require two-factor authentication</div>
+                          <p className="text-xs text-gray-500 mt-1">
+                            Users without 2FA must set it up before they can use the panel.
+                            {' '}{users.filter(user => !user.twoFactorEnabled).length} of {users.length} haven't yet.
+                          </p>
+                        </div>
+                        <button
+                          onClick={toggleRequireTwoFactor}
+                          className={`px-3 py-2 text-xs font-medium rounded-md ${
+                            settings.requireTwoFactor
+                              ? 'text-gray-600 bg-white border border-gray-200 hover:bg-gray-50'
+                              : 'text-white bg-gray-900 hover:bg-gray-800'
+                          }`}
+                        >
+                          {settings.requireTwoFactor ? 'Stop requiring' : 'Require'}
+                        </button>
+                      </div>
+                    </div>
+                  )}
+
+                  <div className="bg-white border border-gray-200 rounded-md shadow-xs">
+                    {renderUserTable()}
+                  </div>
+                </div>
+              ) : (
+                <RolesTab
+                  roles={roles}
+                  users={users}
+                  availablePermissions={availablePermissions}
+                  canManage={canManage}
+                  onChange={fetchData}
+                  showAlert={showAlert}
+                />
+              )}
             </div>
           )}
 
@@ -1,102 +1,259 @@
-import React, { createContext, useContext, useState, useEffect } from 'react';
-import { Navigate, useNavigate, Link } from 'react-router-dom';
-import { Eye, EyeOff } from 'lucide-react';
-
-interface User {
-  username: string;
-}
+import React, { createContext, useContext, useState, useEffect, useRef } from 'react';
+import { Navigate, useNavigate, useLocation, Link, Location } from 'react-router-dom';
+import { AnimatePresence, motion } from 'framer-motion';
+import { Eye, EyeOff, Clock } from 'lucide-react';
+import { api, getErrorMessage, setUnauthorizedHandler } from '../../lib/api';
+import { hasPermission, Permission } from '../../lib/permissions';
+import {
+  TOKEN_KEY,
+  REFRESH_MARGIN_MS,
+  REFRESH_LOCK_TTL_MS,
+  getToken,
+  setToken,
+  clearToken,
+  getTokenExpiry,
+  isTokenExpired,
+  acquireRefreshLock,
+  releaseRefreshLock
+} from '../../lib/session';
+import type { AuthState } from '../../lib/types';
+import Forbidden from '../Forbidden';
 
 interface AuthContextType {
-  user: User | null;
-  login: (username: string, password: string) => Promise<{ success: boolean; error?: string }>;
+  user: AuthState | null;
+  // Resolves with a `challenge` instead of signing in when the account has 2FA
+  login: (username: string, password: string) => Promise<{ success: boolean; error?: string; challenge?: string }>;
+  verifyTwoFactor: (challenge: string, code: string) => Promise<{ success: boolean; error?: string }>;
   register: (username: string, password: string) => Promise<{ success: boolean; error?: string }>;
   logout: () => void;
+  reloadUser: () => Promise<void>;
+}
+
+// Route state carried to /login so the user lands back where they were
+interface LoginState {
+  from?: Location;
 }
 
+// setTimeout fires immediately for delays that do not fit in 32 bits
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
 const AuthContext = createContext<AuthContextType | null>(null);
 
+const SessionExpiredModal: React.FC<{
+  onSignIn: () => void,
+  onSignOut: () => void
+}> = ({ onSignIn, onSignOut }) => (
+  <motion.div
+    initial={{ opacity: 0 }}
+    animate={{ opacity: 1 }}
+    exit={{ opacity: 0 }}
+    className="fixed inset-0 bg-gray-900/50 dark:bg-gray-900/70 flex items-center justify-center z-50"
+  >
+    <motion.div
+      initial={{ scale: 0.95, opacity: 0 }}
+      animate={{ scale: 1, opacity: 1 }}
+      exit={{ scale: 0.95, opacity: 0 }}
+      transition={{ duration: 0.1 }}
+      className="w-[400px] bg-white dark:bg-gray-800 rounded-xl shadow-xl p-6"
+    >
+      <div className="flex items-center space-x-2 mb-2">
+        <Clock className="w-4 h-4 text-gray-500 dark:text-gray-400" />
+        <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100">Session expired</h3>
+      </div>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+        Your session has ended. Sign in again to pick up where you left off.
+      </p>
+      <div className="flex justify-end space-x-3">
+        <button
+          onClick={onSignOut}
+          className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-200
+                   hover:text-gray-900 dark:hover:text-gray-100 transition-colors duration-100"
+        >
+          Sign out
+        </button>
+        <button
+          onClick={onSignIn}
+          className="px-4 py-2 text-sm font-medium text-white bg-gray-900 dark:bg-gray-700 rounded-md
+                   hover:bg-gray-800 dark:hover:bg-gray-600 transition-colors duration-100"
+        >
+          Sign in again
+        </button>
+      </div>
+    </motion.div>
+  </motion.div>
+);
+
 export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-    const [user, setUser] = useState<User | null>(null);
+    const [user, setUser] = useState<AuthState | null>(null);
     const [loading, setLoading] = useState(true);
+    const [sessionExpired, setSessionExpired] = useState(false);
+    const refreshTimer = useRef<number>();
     const navigate = useNavigate();
+    const location = useLocation();
   
     useEffect(() => {
+      setUnauthorizedHandler(expireSession);
       checkAuthState();
+
+      // Another tab signed in, refreshed its token or signed out
+      const handleStorage = (e: StorageEvent) => {
+        if (e.key !== TOKEN_KEY && e.key !== null) return;
+
+        const token = getToken();
+        if (!token) {
+          endSession();
+          return;
+        }
+
+        setSessionExpired(false);
+        scheduleRefresh(token);
+        loadUser().catch(error => console.error('Auth state check failed:', error));
+      };
+
+      window.addEventListener('storage', handleStorage);
+      return () => {
+        setUnauthorizedHandler(null);
+        window.removeEventListener('storage', handleStorage);
+        window.clearTimeout(refreshTimer.current);
+      };
     }, []);
   
+    const loadUser = async () => {
+      setUser(await api.auth.state());
+    };
+
+    // Exchanges the token shortly before it expires. If that fails the current
+    // token is used until it runs out, at which point the session expires.
+    const scheduleRefresh = (token: string) => {
+      window.clearTimeout(refreshTimer.current);
+      const expiry = getTokenExpiry(token);
+      if (expiry === null) return;
+
+      const delay = Math.min(Math.max(expiry - REFRESH_MARGIN_MS - Date.now(), 0), MAX_TIMEOUT_MS);
+      refreshTimer.current = window.setTimeout(() => refreshSession(token), delay);
+    };
+
+    const refreshSession = async (token: string) => {
+      // Another tab may have refreshed already; follow its token instead
+      const current = getToken();
+      if (!current) return;
+      if (current !== token) {
+        scheduleRefresh(current);
+        return;
+      }
+
+      if (!acquireRefreshLock()) {
+        // Another tab is refreshing. Its new token normally arrives through the
+        // storage event first; this retry only matters if that tab fails.
+        window.clearTimeout(refreshTimer.current);
+        refreshTimer.current = window.setTimeout(() => refreshSession(token), REFRESH_LOCK_TTL_MS);
+        return;
+      }
+
+      try {
+        const data = await api.auth.refresh();
+        setToken(data.token);
+        scheduleRefresh(data.token);
+      } catch (error) {
+        console.error('Session refresh failed:', error);
+        const expiry = getTokenExpiry(token);
+        if (expiry === null || getToken() !== token) return;
+        refreshTimer.current = window.setTimeout(expireSession, Math.min(Math.max(expiry - Date.now(), 0), MAX_TIMEOUT_MS));
+      } finally {
+        releaseRefreshLock();
+      }
+    };
+
+    // The token stops working but the page stays put behind the expired
+    // modal. The token is left in storage so other tabs are not signed out;
+    // they notice the expiry on their own.
+    const expireSession = () => {
+      window.clearTimeout(refreshTimer.current);
+      setSessionExpired(true);
+    };
+
+    const endSession = () => {
+      window.clearTimeout(refreshTimer.current);
+      setUser(null);
+      setSessionExpired(false);
+      navigate('/login');
+    };
+
     const checkAuthState = async () => {
       try {
-        const token = localStorage.getItem('token');
+        const token = getToken();
         if (!token) {
           setLoading(false);
           return;
         }
-  
-        const response = await fetch('/api/auth/state', {
-          headers: {
-            'Authorization': `Bearer ${token}`
-          }
-        });
-  
-        if (response.ok) {
-          const data = await response.json();
-          setUser({ username: data.username });
-        } else {
-          localStorage.removeItem('token');
+
+        if (isTokenExpired(token)) {
+          clearToken();
+          setLoading(false);
+          return;
         }
+  
+        await loadUser();
+        scheduleRefresh(token);
       } catch (error) {
         console.error('Auth state check failed:', error);
-        localStorage.removeItem('token');
+        clearToken();
       }
       setLoading(false);
     };
+
+    const startSession = async (token: string) => {
+      setToken(token);
+      await loadUser();
+      scheduleRefresh(token);
+      setSessionExpired(false);
+
+      const from = (location.state as LoginState | null)?.from;
+      navigate(from ? `${from.pathname}${from.search}${from.hash}` : '/servers', { replace: true });
+    };
   
     const login = async (username: string, password: string) => {
       try {
-        const response = await fetch('/api/auth/login', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ username, password })
-        });
+        const data = await api.auth.login(username, password);
+        if ('challenge' in data) return { success: false, challenge: data.challenge };
+
+        await startSession(data.token);
+        return { success: true };
+      } catch (error) {
+        return { success: false, error: getErrorMessage(error) };
+      }
+    };
   
-        const data = await response.json();
-        
-        if (!response.ok) throw new Error(data.error);
-        
-        localStorage.setItem('token', data.token);
-        setUser({ username });
-        navigate('/servers');
+    const verifyTwoFactor = async (challenge: string, code: string) => {
+      try {
+        const data = await api.auth.loginTwoFactor(challenge, code);
+        await startSession(data.token);
         return { success: true };
       } catch (error) {
-        return { success: false, error: error instanceof Error ? error.message : 'An error occurred' };
+        return { success: false, error: getErrorMessage(error) };
       }
     };
   
     const register = async (username: string, password: string) => {
       try {
-        const response = await fetch('/api/auth/register', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ username, password })
-        });
-  
-        const data = await response.json();
-        
-        if (!response.ok) throw new Error(data.error);
-        
-        localStorage.setItem('token', data.token);
-        setUser({ username });
-        navigate('/servers');
+        const data = await api.auth.register(username, password);
+        await startSession(data.token);
         return { success: true };
       } catch (error) {
-        return { success: false, error: error instanceof Error ? error.message : 'An error occurred' };
+        return { success: false, error: getErrorMessage(error) };
       }
     };
   
+    // Removing the token also signs out every other open tab
     const logout = () => {
-      localStorage.removeItem('token');
+      clearToken();
+      endSession();
+    };
+
+    const signInAgain = () => {
+      navigate('/login', { state: { from: location } });
       setUser(null);
-      navigate('/login');
+      setSessionExpired(false);
     };
   
     if (loading) {
@@ -108,8 +265,13 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
 
   return (
-    <AuthContext.Provider value={{ user, login, register, logout }}>
+    <AuthContext.Provider value={{ user, login, verifyTwoFactor, register, logout, reloadUser: loadUser }}>
       {children}
+      <AnimatePresence>
+        {sessionExpired && user && (
+          <SessionExpiredModal onSignIn={signInAgain} onSignOut={logout} />
+        )}
+      </AnimatePresence>
     </AuthContext.Provider>
   );
 };
@@ -122,9 +284,28 @@ export const useAuth = () => {
   return context;
 };
 
+export const SECURITY_PATH = '/account/security';
+
+// Users the panel requires 2FA from are kept on the security page until they enroll
+const needsTwoFactorEnrollment = (user: AuthState) => user.twoFactorRequired && !user.twoFactorEnabled;
+
 export const ProtectedRoute: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const { user } = useAuth();
-  if (!user) return <Navigate to="/login" />;
+  const location = useLocation();
+  if (!user) return <Navigate to="/login" state={{ from: location }} replace />;
+  if (needsTwoFactorEnrollment(user) && location.pathname !== SECURITY_PATH) return <Navigate to={SECURITY_PATH} replace />;
+  return <>{children}</>;
+};
+
+export const RequirePermission: React.FC<{
+  permission: Permission,
+  children: React.ReactNode
+}> = ({ permission, children }) => {
+  const { user } = useAuth();
+  const location = useLocation();
+  if (!user) return <Navigate to="/login" state={{ from: location }} replace />;
+  if (needsTwoFactorEnrollment(user)) return <Navigate to={SECURITY_PATH} replace />;
+  if (!hasPermission(user.permissions, permission)) return <Forbidden />;
   return <>{children}</>;
 };
 
@@ -134,20 +315,117 @@ export const AuthPage: React.FC<{ mode: 'login' | 'register' }> = ({ mode }) =>
   const [error, setError] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [showPassword, setShowPassword] = useState(false);
-  const { login, register } = useAuth();
+  const [challenge, setChallenge] = useState<string | null>(null);
+  const [code, setCode] = useState('');
+  const { login, verifyTwoFactor, register } = useAuth();
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
     setError('');
 
-    const result = await (mode === 'login' ? login(username, password) : register(username, password));
+    const result: { success: boolean; error?: string; challenge?: string } =
+      await (mode === 'login' ? login(username, password) : register(username, password));
+    if (result.challenge) {
+      setChallenge(result.challenge);
+      setPassword('');
+    } else if (!result.success && result.error) {
+      setError(result.error);
+    }
+    setIsLoading(false);
+  };
+
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!challenge) return;
+    setIsLoading(true);
+    setError('');
+
+    const result = await verifyTwoFactor(challenge, code.trim());
     if (!result.success && result.error) {
       setError(result.error);
+      setCode('');
     }
     setIsLoading(false);
   };
 
+  const cancelVerify = () => {
+    setChallenge(null);
+    setCode('');
+    setError('');
+  };
+
+  if (challenge) {
+    return (
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex flex-col items-center justify-center p-4">
+        <div className="w-full max-w-sm">
+          <div className="mb-4">
+            <h2 className="text-xl font-semibold text-gray-700 dark:text-gray-200">
+              Two-factor authentication
+            </h2>
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+              Enter the code from your authenticator app, or one of your recovery codes.
+            </p>
+          </div>
+
+          <form onSubmit={handleVerify} className="space-y-3">
+            {error && (
+              <div className="px-2 py-1.5 rounded-md bg-red-50 dark:bg-red-900/20 border border-red-100 dark:border-red-800">
+                <p className="text-xs text-red-600 dark:text-red-400">{error}</p>
+              </div>
+            )}
+
+            <div>
+              <label htmlFor="code" className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1.5">
+                Authentication code
+              </label>
+              <input
+                id="code"
+                type="text"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                className="block w-full px-2 py-1.5 rounded-md bg-white dark:bg-gray-800 border border-gray-200 
+                         dark:border-gray-700 text-xs font-mono tracking-widest text-gray-700 dark:text-gray-200
+                         focus:outline-none focus:ring-0 focus:border-gray-400 dark:focus:border-gray-600 
+                         transition-colors duration-200"
+                placeholder="123456"
+                autoComplete="one-time-code"
+                autoFocus
+                required
+              />
+            </div>
+
+            <button
+              type="submit"
+              disabled={isLoading}
+              className="w-full bg-white dark:bg-gray-800 text-xs font-medium text-gray-700 dark:text-gray-200 
+                       py-1.5 px-2 rounded-md border border-gray-200 dark:border-gray-700
+                       hover:bg-gray-50 dark:hover:bg-gray-700 shadow-xs 
+                       focus:outline-none focus:ring-0 focus:border-gray-400 dark:focus:border-gray-600
+                       transition-colors duration-200 flex items-center justify-center"
+            >
+              {isLoading ? (
+                <div className="w-3.5 h-3.5 border border-gray-300 dark:border-gray-600 
+                             border-t-gray-600 dark:border-t-gray-300 rounded-full animate-spin" />
+              ) : (
+                'Verify'
+              )}
+            </button>
+          </form>
+
+          <div className="mt-4 text-center">
+            <button
+              onClick={cancelVerify}
+              className="text-xs text-gray-500 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white"
+            >
+              Use a different account
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex flex-col items-center justify-center p-4">
       <div className="w-full max-w-sm">
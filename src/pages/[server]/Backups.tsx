@@ -0,0 +1,418 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { AnimatePresence, motion } from 'framer-motion';
+import { ChevronRight, AlertCircle, Archive, Download, RotateCcw, Trash2, Plus, Lock } from 'lucide-react';
+import LoadingSpinner from '../../components/LoadingSpinner';
+import { useKryptonSocket } from '../../hooks/useKryptonSocket';
+import { api, getErrorMessage } from '../../lib/api';
+import { createServerClient, KryptonServerEvent } from '../../lib/krypton';
+import { hasServerPermission } from '../../lib/serverPermissions';
+import {
+  Backup,
+  BACKUP_DIRECTORY,
+  IGNORE_FILE,
+  backupFileName,
+  backupPath,
+  collectBackupPaths,
+  parseIgnorePatterns,
+  toBackup
+} from '../../lib/backups';
+import type { Server } from '../../lib/types';
+
+type ServerDetails = Server & { node: NonNullable<Server['node']> };
+
+interface PendingBackup {
+  destination: string;
+  stage: 'scanning' | 'compressing';
+  // Reported by Krypton over the websocket; null until the first update
+  progress: number | null;
+}
+
+interface Confirmation {
+  type: 'restore' | 'delete';
+  backup: Backup;
+}
+
+const formatBytes = (bytes: number): string => {
+  if (bytes === 0) return '0 B';
+  const k = 1024;
+  const sizes = ['B', 'KB', 'MB', 'GB', 'TB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return `${parseFloat((bytes / Math.pow(k, i)).toFixed(2))} ${sizes[i]}`;
+};
+
+const ServerBackupsPage = () => {
+  const { id } = useParams();
+  const navigate = useNavigate();
+  const [server, setServer] = useState<ServerDetails | null>(null);
+  const [backups, setBackups] = useState<Backup[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [ignoreText, setIgnoreText] = useState('');
+  const [savedIgnoreText, setSavedIgnoreText] = useState('');
+  const [pending, setPending] = useState<PendingBackup | null>(null);
+  const [confirmation, setConfirmation] = useState<Confirmation | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+
+  const canManageBackups = hasServerPermission(server, 'backups');
+  const client = useMemo(() => server && canManageBackups ? createServerClient(server) : null, [server, canManageBackups]);
+
+  useEffect(() => {
+    const fetchServer = async () => {
+      try {
+        const data = await api.servers.get(id!, ['node']);
+
+        if (!data.node?.fqdn || !data.node?.port) {
+          throw new Error('Server node information is missing');
+        }
+
+        setServer(data as ServerDetails);
+        // Nothing else to load for sub-users who can't see backups
+        if (!hasServerPermission(data, 'backups')) setLoading(false);
+      } catch (err) {
+        setError(getErrorMessage(err));
+        setLoading(false);
+      }
+    };
+
+    fetchServer();
+  }, [id]);
+
+  const fetchBackups = useCallback(async () => {
+    if (!client) return;
+
+    try {
+      const root = await client.filesystem.list('');
+      const hasBackups = root.some(entry => entry.name === BACKUP_DIRECTORY && !entry.isFile);
+      const entries = hasBackups ? await client.filesystem.list(BACKUP_DIRECTORY) : [];
+
+      setBackups(entries
+        .filter(entry => entry.isFile && entry.name.endsWith('.zip'))
+        .map(toBackup)
+        .sort((a, b) => b.createdAt - a.createdAt));
+
+      if (root.some(entry => entry.name === IGNORE_FILE && entry.isFile)) {
+        const text = await client.filesystem.contents(IGNORE_FILE);
+        setIgnoreText(text);
+        setSavedIgnoreText(text);
+      }
+      setError(null);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to fetch backups'));
+    } finally {
+      setLoading(false);
+    }
+  }, [client]);
+
+  useEffect(() => {
+    fetchBackups();
+  }, [fetchBackups]);
+
+  const handleSocketEvent = useCallback((message: KryptonServerEvent) => {
+    if (message.event !== 'compress_progress' || message.data.progress === undefined) return;
+
+    setPending(prev => prev && prev.destination === message.data.destination
+      ? { ...prev, stage: 'compressing', progress: message.data.progress ?? null }
+      : prev);
+  }, []);
+
+  useKryptonSocket(server, { onEvent: handleSocketEvent });
+
+  const limit = server?.backupLimit ?? 0;
+  const limitReached = backups.length >= limit;
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!client || pending || limitReached) return;
+
+    const destination = `${BACKUP_DIRECTORY}/${backupFileName(name || 'backup')}`;
+    setPending({ destination, stage: 'scanning', progress: null });
+    setError(null);
+
+    try {
+      if (ignoreText !== savedIgnoreText) {
+        await client.filesystem.write(IGNORE_FILE, ignoreText);
+        setSavedIgnoreText(ignoreText);
+      }
+
+      if (backups.length === 0) {
+        // Only missing before the first backup; Krypton rejects existing directories
+        await client.filesystem.createDirectory(BACKUP_DIRECTORY).catch(() => {});
+      }
+
+      const paths = await collectBackupPaths(client, parseIgnorePatterns(ignoreText));
+      if (paths.length === 0) {
+        throw new Error('Nothing to back up: every file is ignored');
+      }
+
+      setPending(prev => prev && { ...prev, stage: 'compressing' });
+      await client.filesystem.compress(paths, destination);
+
+      setName('');
+      await fetchBackups();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to create backup'));
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const handleDownload = (backup: Backup) => {
+    if (!client) return;
+    window.open(client.filesystem.downloadUrl(backupPath(backup)), '_blank');
+  };
+
+  const handleConfirm = async () => {
+    if (!client || !confirmation) return;
+    const { type, backup } = confirmation;
+
+    setBusy(backup.fileName);
+    setConfirmation(null);
+    setError(null);
+    try {
+      if (type === 'restore') {
+        // Extracts over the server root, replacing files that are in the backup
+        await client.filesystem.extract('', backupPath(backup));
+      } else {
+        await client.filesystem.delete(backupPath(backup));
+        await fetchBackups();
+      }
+    } catch (err) {
+      setError(getErrorMessage(err, `Failed to ${type} backup`));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  if (loading) return <LoadingSpinner />;
+
+  return (
+    <div className="min-h-screen px-8 py-8 bg-gray-50 dark:bg-gray-900">
+      <div className="max-w-[1500px] mx-auto p-4 space-y-6">
+        <div className="space-y-3">
+          {/* Breadcrumb */}
+          <div className="flex items-center text-sm text-gray-600 dark:text-gray-400">
+            <button
+              onClick={() => navigate('/servers')}
+              className="hover:text-gray-900 dark:hover:text-gray-200"
+            >
+              Servers
+            </button>
+            <ChevronRight className="w-4 h-4 mx-1" />
+            <button
+              onClick={() => navigate(`/servers/${id}/console`)}
+              className="hover:text-gray-900 dark:hover:text-gray-200"
+            >
+              {server?.name}
+            </button>
+            <ChevronRight className="w-4 h-4 mx-1" />
+            <span className="text-gray-900 dark:text-gray-100 font-medium">Backups</span>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-2xl font-semibold text-gray-900 dark:text-gray-100">Backups</h1>
+              {canManageBackups && (
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                  {limit > 0 ? `${backups.length} of ${limit} backups used` : 'Backups are disabled for this server'}
+                </p>
+              )}
+            </div>
+            {error && (
+              <div className="flex items-center px-3 py-1.5 text-xs text-red-700 dark:text-red-400 bg-red-50 dark:bg-red-900/20
+                            border border-red-100 dark:border-red-800 rounded-md">
+                <AlertCircle className="w-3.5 h-3.5 mr-1.5" />
+                {error}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {server && !canManageBackups ? (
+          <div className="flex flex-col items-center justify-center py-12 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-xl
+                        text-gray-500 dark:text-gray-400">
+            <Lock className="w-8 h-8 mb-2 text-gray-400 dark:text-gray-500" />
+            <p className="text-sm">You don't have permission to manage this server's backups</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-3 gap-6">
+            {/* Backup list */}
+            <div className="col-span-2 space-y-2">
+              {pending && (
+                <div className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-xl px-6 py-4 space-y-2">
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="font-medium text-gray-900 dark:text-gray-100">
+                      {pending.destination.slice(BACKUP_DIRECTORY.length + 1)}
+                    </span>
+                    <span className="text-xs text-gray-500 dark:text-gray-400">
+                      {pending.stage === 'scanning'
+                        ? 'Collecting files...'
+                        : pending.progress !== null ? `${Math.round(pending.progress)}%` : 'Compressing...'}
+                    </span>
+                  </div>
+                  <div className="h-1.5 bg-gray-100 dark:bg-gray-700 rounded-full overflow-hidden">
+                    <div
+                      className={`h-full bg-gray-900 dark:bg-gray-300 transition-all duration-300 ${pending.progress === null ? 'w-1/3 animate-pulse' : ''}`}
+                      style={pending.progress !== null ? { width: `${pending.progress}%` } : undefined}
+                    />
+                  </div>
+                </div>
+              )}
+
+              {backups.map(backup => (
+                <div
+                  key={backup.fileName}
+                  className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-xl px-6 h-16 flex items-center justify-between"
+                >
+                  <div className="flex items-center space-x-3 min-w-0">
+                    <Archive className="w-4 h-4 text-gray-400 dark:text-gray-500 flex-shrink-0" />
+                    <div className="min-w-0">
+                      <div className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">{backup.name}</div>
+                      <div className="text-xs text-gray-500 dark:text-gray-400">
+                        {formatBytes(backup.size)} • {new Date(backup.createdAt).toLocaleString()}
+                      </div>
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-1">
+                    {busy === backup.fileName ? (
+                      <div className="w-4 h-4 border-2 border-gray-300 dark:border-gray-600 border-t-gray-900 dark:border-t-gray-200 rounded-full animate-spin" />
+                    ) : (
+                      <>
+                        <button
+                          onClick={() => handleDownload(backup)}
+                          title="Download"
+                          className="p-2 text-gray-400 dark:text-gray-500 hover:text-gray-600 dark:hover:text-gray-300 rounded-md
+                                   hover:bg-gray-100 dark:hover:bg-gray-700/50"
+                        >
+                          <Download className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => setConfirmation({ type: 'restore', backup })}
+                          title="Restore"
+                          className="p-2 text-gray-400 dark:text-gray-500 hover:text-gray-600 dark:hover:text-gray-300 rounded-md
+                                   hover:bg-gray-100 dark:hover:bg-gray-700/50"
+                        >
+                          <RotateCcw className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => setConfirmation({ type: 'delete', backup })}
+                          title="Delete"
+                          className="p-2 text-gray-400 dark:text-gray-500 hover:text-red-500 rounded-md
+                                   hover:bg-gray-100 dark:hover:bg-gray-700/50"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </>
+                    )}
+                  </div>
+                </div>
+              ))}
+
+              {backups.length === 0 && !pending && (
+                <div className="text-center py-6 bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700">
+                  <p className="text-xs text-gray-500 dark:text-gray-400">No backups yet</p>
+                </div>
+              )}
+            </div>
+
+            {/* Create */}
+            <form
+              onSubmit={handleCreate}
+              className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-xl p-6 space-y-4 self-start"
+            >
+              <h2 className="text-sm font-medium text-gray-900 dark:text-gray-100">Create Backup</h2>
+              <div className="space-y-1">
+                <label className="block text-xs font-medium text-gray-700 dark:text-gray-300">Name</label>
+                <input
+                  type="text"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="backup"
+                  className="block w-full px-3 py-2 text-xs text-gray-900 dark:text-gray-100 bg-white dark:bg-gray-900
+                           border border-gray-200 dark:border-gray-700 rounded-md focus:outline-none focus:ring-1 focus:ring-gray-400"
+                />
+              </div>
+              <div className="space-y-1">
+                <label className="block text-xs font-medium text-gray-700 dark:text-gray-300">Ignored Files</label>
+                <textarea
+                  value={ignoreText}
+                  onChange={(e) => setIgnoreText(e.target.value)}
+                  rows={6}
+                  placeholder={'# One pattern per line\nlogs/\n*.log\n!latest.log'}
+                  className="block w-full px-3 py-2 text-xs font-mono text-gray-900 dark:text-gray-100 bg-white dark:bg-gray-900
+                           border border-gray-200 dark:border-gray-700 rounded-md focus:outline-none focus:ring-1 focus:ring-gray-400"
+                />
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  Uses .gitignore syntax and is saved to {IGNORE_FILE}.
+                </p>
+              </div>
+              <button
+                type="submit"
+                disabled={!!pending || limitReached}
+                className="flex items-center justify-center w-full px-4 py-2 text-sm font-medium text-white bg-gray-900 dark:bg-gray-700
+                         rounded-md hover:bg-gray-800 dark:hover:bg-gray-600 transition-colors duration-100
+                         disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Plus className="w-3.5 h-3.5 mr-1.5" />
+                {pending ? 'Creating...' : 'Create Backup'}
+              </button>
+              {limitReached && limit > 0 && (
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  Delete a backup to make room for a new one.
+                </p>
+              )}
+            </form>
+          </div>
+        )}
+      </div>
+
+      <AnimatePresence>
+        {confirmation && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-gray-900/50 dark:bg-gray-900/70 flex items-center justify-center z-50"
+            onClick={() => setConfirmation(null)}
+          >
+            <motion.div
+              initial={{ scale: 0.95, opacity: 0 }}
+              animate={{ scale: 1, opacity: 1 }}
+              exit={{ scale: 0.95, opacity: 0 }}
+              transition={{ duration: 0.1 }}
+              onClick={(e) => e.stopPropagation()}
+              className="w-[400px] bg-white dark:bg-gray-800 rounded-xl shadow-xl p-6"
+            >
+              <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100 mb-2">
+                {confirmation.type === 'restore' ? 'Restore' : 'Delete'} {confirmation.backup.name}?
+              </h3>
+              <p className="text-sm text-gray-600 dark:text-gray-400 mb-6">
+                {confirmation.type === 'restore'
+                  ? 'Files in the backup will overwrite the current ones. Stop the server before restoring.'
+                  : 'This backup will be permanently deleted.'}
+              </p>
+              <div className="flex justify-end space-x-3">
+                <button
+                  onClick={() => setConfirmation(null)}
+                  className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-200
+                           hover:text-gray-900 dark:hover:text-gray-100 transition-colors duration-100"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleConfirm}
+                  className="px-4 py-2 text-sm font-medium text-white bg-red-600 rounded-md hover:bg-red-700 transition-colors duration-100"
+                >
+                  {confirmation.type === 'restore' ? 'Restore' : 'Delete'}
+                </button>
+              </div>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+export default ServerBackupsPage;
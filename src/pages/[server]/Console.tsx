@@ -1,66 +1,47 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { 
   SendIcon, Play, Square, RefreshCw,
-  ChevronRight, AlertCircle, Globe, Hash, Terminal
+  ChevronRight, AlertCircle, Globe, Hash, Terminal,
+  Pin, PinOff, ArrowDown, Search, Download, History, Skull,
+  Maximize2, Minimize2, ExternalLink, Type, Lock
 } from 'lucide-react';
+import { AnimatePresence, motion } from 'framer-motion';
 import LoadingSpinner from '../../components/LoadingSpinner';
-import AnsiParser from '../../components/AnsiParser';
-
-interface Node {
-  id: string;
-  name: string;
-  fqdn: string;
-  port: number;
-  isOnline: boolean;
-  lastChecked: string;
-}
-
-interface ServerStatus {
-  docker_id: string;
-  name: string;
-  image: string;
-  state: string;
-  memory_limit: number;
-  cpu_limit: number;
-  startup_command: string;
-  allocation: string;
-}
+import ConnectionStatusPill from '../../components/ConnectionStatusPill';
+import ConsoleCommandInput from '../../components/ConsoleCommandInput';
+import ConsoleOutput from '../../components/ConsoleOutput';
+import ConsoleSearchBar from '../../components/ConsoleSearchBar';
+import LogHistoryModal from '../../components/LogHistoryModal';
+import ResourceChart, { ChartSeries } from '../../components/ResourceChart';
+import ServerStatePill from '../../components/ServerStatePill';
+import { useKryptonSocket } from '../../hooks/useKryptonSocket';
+import { useConsoleFollow } from '../../hooks/useConsoleFollow';
+import { useConsoleSearch } from '../../hooks/useConsoleSearch';
+import { useCommandHistory } from '../../hooks/useCommandHistory';
+import { useLogHistory } from '../../hooks/useLogHistory';
+import { useServerStats } from '../../hooks/useServerStats';
+import { usePowerState, isRunningState } from '../../hooks/usePowerState';
+import {
+  useConsoleAppearance,
+  FONT_SIZE_OPTIONS,
+  LINE_HEIGHT_OPTIONS
+} from '../../hooks/useConsoleAppearance';
+import {
+  useConsoleBuffer,
+  getStoredScrollback,
+  setStoredScrollback,
+  SCROLLBACK_OPTIONS
+} from '../../hooks/useConsoleBuffer';
+import { api, getErrorMessage } from '../../lib/api';
+import { getCompletionProviders } from '../../lib/commandCompletion';
+import { downloadLog } from '../../lib/logDownload';
+import { recordStats } from '../../lib/statsStore';
+import { hasServerPermission } from '../../lib/serverPermissions';
+import type { KryptonServerEvent, PowerAction } from '../../lib/krypton';
+import type { Server } from '../../lib/types';
 
-interface ServerDetails {
-  id: string;
-  internalId: string;
-  name: string;
-  memoryMiB: number;
-  diskMiB: number;
-  cpuPercent: number;
-  state: string;
-  createdAt: string;
-  validationToken: string;
-  node: Node;
-  status: ServerStatus;
-}
-
-interface ConsoleMessage {
-  event: string;
-  data: {
-    message?: string;
-    status?: string;
-    state?: string;
-    logs?: string[];
-    action?: string;
-    cpu_percent?: number;
-    memory?: {
-      used: number;
-      limit: number;
-      percent: number;
-    };
-    network?: {
-      rx_bytes: number;
-      tx_bytes: number;
-    };
-  };
-}
+type ServerDetails = Server & { node: NonNullable<Server['node']> };
 
 const formatBytes = (bytes: number | undefined, decimals = 2): string => {
   if (!bytes || bytes === 0) return '0 Bytes';
@@ -71,238 +52,557 @@ const formatBytes = (bytes: number | undefined, decimals = 2): string => {
   return parseFloat((bytes / Math.pow(k, i)).toFixed(dm)) + ' ' + sizes[i];
 };
 
-const ServerConsolePage = () => {
+// Minutes of history the resource graphs can show
+const CHART_WINDOWS = [5, 15, 30];
+
+const CPU_SERIES: ChartSeries[] = [{ label: 'CPU', color: '#6366f1', value: sample => sample.cpuPercent }];
+const MEMORY_SERIES: ChartSeries[] = [{ label: 'Memory', color: '#10b981', value: sample => sample.memoryUsed }];
+const NETWORK_SERIES: ChartSeries[] = [
+  { label: 'In', color: '#0ea5e9', value: sample => sample.rxRate },
+  { label: 'Out', color: '#f59e0b', value: sample => sample.txRate }
+];
+const DISK_SERIES: ChartSeries[] = [{ label: 'Disk', color: '#a855f7', value: sample => sample.diskUsed }];
+
+const CONFIRM_POWER_STORAGE_KEY = 'confirmPowerActions';
+
+// Alt+<key> triggers a power action
+const POWER_SHORTCUTS: Record<string, PowerAction> = {
+  KeyS: 'start',
+  KeyR: 'restart',
+  KeyX: 'stop',
+  KeyK: 'kill'
+};
+
+interface ServerConsolePageProps {
+  // Rendered on its own in a separate window, without the rest of the page
+  popout?: boolean;
+}
+
+const ServerConsolePage = ({ popout = false }: ServerConsolePageProps) => {
   const { id } = useParams();
   const navigate = useNavigate();
   const [server, setServer] = useState<ServerDetails | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [messages, setMessages] = useState<string[]>([]);
+  const [scrollback, setScrollback] = useState(getStoredScrollback);
+  const { lines: messages, append: appendMessage, replace: replaceMessages } = useConsoleBuffer(scrollback);
   const [command, setCommand] = useState('');
-  const [connected, setConnected] = useState(false);
-  const [powerLoading, setPowerLoading] = useState(false);
-  const [liveStats, setLiveStats] = useState<{
-    cpuPercent: number;
-    memory: { used: number; limit: number; percent: number };
-    network: { rxBytes: number; txBytes: number };
-  }>({
-    cpuPercent: 0,
-    memory: { used: 0, limit: 0, percent: 0 },
-    network: { rxBytes: 0, txBytes: 0 }
-  });
+  const commandHistory = useCommandHistory(id);
+  const [showLogHistory, setShowLogHistory] = useState(false);
+  // Hooks that need the socket (log history, power state) also need to see
+  // its events; they register here once the socket exists
+  const socketListenersRef = useRef<((message: KryptonServerEvent) => void)[]>([]);
+  const [confirmAction, setConfirmAction] = useState<PowerAction | null>(null);
+  const [confirmPowerActions, setConfirmPowerActions] = useState(
+    () => localStorage.getItem(CONFIRM_POWER_STORAGE_KEY) !== 'false'
+  );
+  const stats = useServerStats(id);
+  const [chartWindow, setChartWindow] = useState(CHART_WINDOWS[0]);
   
-  const wsRef = useRef<WebSocket | null>(null);
   const consoleRef = useRef<HTMLDivElement>(null);
+  const frameRef = useRef<HTMLDivElement>(null);
+  const [fullscreen, setFullscreen] = useState(false);
+  const appearance = useConsoleAppearance();
 
   useEffect(() => {
     const fetchServer = async () => {
       try {
-        const token = localStorage.getItem('token');
-        const response = await fetch(`/api/servers/${id}?include[node]=true&include[status]=true`, {
-          headers: {
-            'Authorization': `Bearer ${token}`
-          }
-        });
-        
-        if (!response.ok) throw new Error('Failed to fetch server');
-        const data = await response.json();
+        const data = await api.servers.get(id!, ['node', 'status', 'unit']);
         
         if (!data.node?.fqdn || !data.node?.port) {
           throw new Error('Server node information is missing');
         }
         
-        setServer(data);
-        initWebSocket(data);
-
-
+        setServer(data as ServerDetails);
       } catch (err) {
-        setError(err instanceof Error ? err.message : 'An error occurred');
+        setError(getErrorMessage(err));
       } finally {
         setLoading(false);
       }
     };
 
     fetchServer();
-
-    return () => {
-      if (wsRef.current) {
-        wsRef.current.close();
-      }
-    };
   }, [id]);
 
-  useEffect(() => {
-    if (consoleRef.current) {
-      consoleRef.current.scrollTop = consoleRef.current.scrollHeight;
-    }
-  }, [messages]);
+  const handleSocketEvent = useCallback((message: KryptonServerEvent) => {
+    socketListenersRef.current.forEach(listener => listener(message));
 
-  const initWebSocket = (serverData: ServerDetails) => {
-    const token = localStorage.getItem('token');
-    if (!token) {
-      setError('Authentication token not found');
-      return;
-    }
-  
-    // Close any existing WebSocket connection before creating a new one
-    if (wsRef.current) {
-      wsRef.current.close();
-    }
-  
-    const wsUrl = `ws://${serverData.node.fqdn}:${serverData.node.port}?server=${serverData.internalId}&token=${serverData.validationToken}`;
-    
-    const ws = new WebSocket(wsUrl);
-    wsRef.current = ws;
-  
-    ws.onopen = () => {
-      console.log('WebSocket connected');
-      setConnected(true);
-      setError(null);
-    };
-  
-    ws.onmessage = (event) => {
-      const message: ConsoleMessage = JSON.parse(event.data);
+    switch (message.event) {
+      case 'console_output':
+        if (typeof message.data.message === 'string') {
+          appendMessage(message.data.message);
+        }
+        break;
       
-      switch (message.event) {
-        case 'console_output':
-          if (typeof message.data.message === 'string') {
-            // @ts-ignore
-            setMessages(prev => [...prev, message.data.message]);
-          }
-          break;
-        
-        case 'auth_success':
-          if (message.data.logs) {
-            setMessages(message.data.logs.map(log => log));
-          }
-          break;
-        
-        case 'stats':
-          if (message.data.cpu_percent !== undefined) {
-            setLiveStats({
-              cpuPercent: message.data.cpu_percent || 0,
-              memory: message.data.memory || { used: 0, limit: 0, percent: 0 },
-              network: message.data.network 
-                ? { rxBytes: message.data.network.rx_bytes, txBytes: message.data.network.tx_bytes }
-                : { rxBytes: 0, txBytes: 0 }
-            });
-          }
-          
-          if (message.data.state) {
-            setServer(prev => prev ? { ...prev, state: message.data.state || prev.state } : null);
-          }
-          break;
-        
-        case 'power_status':
-          if (message.data.status !== undefined) {
-            // @ts-ignore
-            setMessages(prev => [...prev, message.data.status.toString()]);
-          }
-          setPowerLoading(false);
-          break;
+      case 'auth_success':
+        if (message.data.logs) {
+          replaceMessages(message.data.logs);
+        }
+        break;
+      
+      case 'stats':
+        if (message.data.cpu_percent !== undefined && id) {
+          recordStats(id, message.data);
+        }
         
-        case 'error':
-          const errorMsg = message.data.message || 'An unknown error occurred';
-          setError(errorMsg);
-          setMessages(prev => [...prev, `Error: ${errorMsg}`]);
-          setPowerLoading(false);
-          break;
-      }
-    };
-  
-    ws.onclose = () => {
-      console.log('WebSocket disconnected');
-      setConnected(false);
-      setTimeout(() => {
-        if (!wsRef.current || wsRef.current.readyState === WebSocket.CLOSED) {
-          initWebSocket(serverData);
+        if (message.data.state) {
+          setServer(prev => prev ? { ...prev, state: message.data.state || prev.state } : null);
         }
-      }, 5000);
-    };
-  
-    ws.onerror = (error) => {
-      console.error('WebSocket error:', error);
-      setError('We\'re having trouble connecting to your server...');
-    };
+        break;
+      
+      case 'power_status':
+        if (message.data.status !== undefined) {
+          appendMessage(message.data.status.toString());
+        }
+        break;
+      
+      case 'error':
+        const errorMsg = message.data.message || 'An unknown error occurred';
+        setError(errorMsg);
+        appendMessage(`Error: ${errorMsg}`);
+        break;
+    }
+  }, [id, appendMessage, replaceMessages]);
+
+  const completionProviders = useMemo(() => getCompletionProviders(server?.unit), [server?.unit]);
+
+  const search = useConsoleSearch(messages, consoleRef, appearance.rowHeight);
+  const follow = useConsoleFollow(consoleRef, search.visibleLines);
+
+  const handleConsoleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'f') {
+      e.preventDefault();
+      search.setOpen(true);
+    }
   };
 
+  const socket = useKryptonSocket(server, { onEvent: handleSocketEvent });
+  const connected = socket.status === 'connected';
+
+  // Sub-users only get the parts of the console they were granted
+  const canReadConsole = hasServerPermission(server, 'console.read');
+  const canSendCommands = hasServerPermission(server, 'console.write');
+  const canUsePower = hasServerPermission(server, 'power');
+
+  const logHistory = useLogHistory(socket.send);
+  const power = usePowerState(server?.state, socket.send);
+  socketListenersRef.current = [logHistory.handleEvent, power.handleEvent];
+
   const sendCommand = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!command.trim() || !wsRef.current) {
+    if (!canSendCommands) return;
+
+    if (!command.trim() || !connected) {
       // Add visual feedback for why command wasn't sent
-      setMessages(prev => [...prev, '\x1b[33m[System] Cannot send command - WebSocket not connected or empty command\x1b[0m']);
+      appendMessage('\x1b[33m[System] Cannot send command - WebSocket not connected or empty command\x1b[0m');
       return;
     }
   
     if (!isServerActive) {
-      setMessages(prev => [...prev, '\x1b[33m[System] Cannot send command - server is not running\x1b[0m']);
+      appendMessage('\x1b[33m[System] Cannot send command - server is not running\x1b[0m');
       return;
     }
   
-    try {
-      wsRef.current.send(JSON.stringify({
-        event: 'send_command',
-        data: command
-      }));
-  
-      // Log successful send
-      setMessages(prev => [...prev, '\x1b[32m$ \x1b[0m' + command + '\x1b[0m']);
-      setCommand('');
-    } catch (error) {
-      // Log any errors
-      setMessages(prev => [...prev, `\x1b[31m[System] Failed to send command: ${error}\x1b[0m`]);
+    if (!socket.send({ event: 'send_command', data: command })) {
+      appendMessage('\x1b[31m[System] Failed to send command - connection was lost\x1b[0m');
+      return;
     }
+
+    // Log successful send
+    appendMessage('\x1b[32m$ \x1b[0m' + command + '\x1b[0m');
+    commandHistory.push(command);
+    setCommand('');
   };
   
-  // Add this function to verify WebSocket state
-  const checkWebSocketStatus = () => {
-    if (!wsRef.current) {
-      return 'No WebSocket connection';
-    }
-    
-    switch (wsRef.current.readyState) {
-      case WebSocket.CONNECTING:
-        return 'Connecting...';
-      case WebSocket.OPEN:
-        return 'Connected';
-      case WebSocket.CLOSING:
-        return 'Closing...';
-      case WebSocket.CLOSED:
-        return 'Closed';
-      default:
-        return 'Unknown';
+  const canRunPowerAction = (action: PowerAction) => {
+    if (!server || !connected || !canUsePower) return false;
+    // Only offered once a stop or restart has stalled, for the shortcut as well as the button
+    if (action === 'kill') return power.killAvailable;
+    if (power.pending) return false;
+    return action === 'start' ? !isRunningState(server.state) : isRunningState(server.state);
+  };
+
+  const handlePowerAction = (action: PowerAction, { confirmed = false } = {}) => {
+    if (!canRunPowerAction(action)) return;
+
+    if (!confirmed && confirmPowerActions && action !== 'start') {
+      setConfirmAction(action);
+      return;
     }
+
+    setConfirmAction(null);
+    power.run(action);
+  };
+
+  const updateConfirmPowerActions = (value: boolean) => {
+    setConfirmPowerActions(value);
+    localStorage.setItem(CONFIRM_POWER_STORAGE_KEY, String(value));
   };
 
-  const handlePowerAction = async (action: 'start' | 'stop' | 'restart') => {
-    if (!server || powerLoading || !wsRef.current) return;
-    
-    setPowerLoading(true);
+  // Power shortcuts work anywhere on the page, including the command input
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!e.altKey || e.ctrlKey || e.metaKey || !POWER_SHORTCUTS[e.code]) return;
+      e.preventDefault();
+      handlePowerAction(POWER_SHORTCUTS[e.code]);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  useEffect(() => {
+    const handleFullscreenChange = () => {
+      setFullscreen(document.fullscreenElement !== null && document.fullscreenElement === frameRef.current);
+    };
+
+    document.addEventListener('fullscreenchange', handleFullscreenChange);
+    return () => document.removeEventListener('fullscreenchange', handleFullscreenChange);
+  }, []);
+
+  const toggleFullscreen = async () => {
     try {
-      wsRef.current.send(JSON.stringify({
-        event: 'power_action',
-        data: { action }
-      }));
+      if (document.fullscreenElement) {
+        await document.exitFullscreen();
+      } else {
+        await frameRef.current?.requestFullscreen();
+      }
     } catch (err) {
-      setError(err instanceof Error ? err.message : `Failed to ${action} server`);
-      setPowerLoading(false);
+      setError(getErrorMessage(err, 'Fullscreen is not available'));
     }
   };
 
-  const getStateColor = (state: string) => {
-    switch (state?.toLowerCase()) {
-      case 'running': return 'text-green-500 dark:text-green-400';
-      case 'stopped': return 'text-red-500 dark:text-red-400';
-      case 'installing': return 'text-yellow-500 dark:text-yellow-400';
-      default: return 'text-gray-500 dark:text-gray-400';
-    }
+  const openPopout = () => {
+    window.open(`/servers/${id}/console/popout`, `console-${id}`, 'width=1000,height=700');
   };
 
   if (loading) return <LoadingSpinner />;
 
   const isServerActive = server?.state?.toLowerCase() === 'running';
+  const latestStats = stats.length > 0 ? stats[stats.length - 1] : null;
+  const memoryLimit = latestStats?.memoryLimit || server?.status?.memory_limit || (server?.memoryMiB || 0) * 1024 * 1024;
+  const diskLimit = (server?.diskMiB || 0) * 1024 * 1024;
+  const chartWindowMs = chartWindow * 60 * 1000;
   let allocation = server?.status?.allocation ? JSON.parse(server.status.allocation) : null;
 
+  // Fullscreen and pop-out consoles fill their container instead of the fixed box
+  const fillsContainer = fullscreen || popout;
+
+  const consoleFrame = (
+    <div
+      ref={frameRef}
+      tabIndex={0}
+      onKeyDown={handleConsoleKeyDown}
+      className={`bg-gray-900 focus:outline-none ${fillsContainer
+        ? 'flex flex-col h-full min-h-0'
+        : `border-2 border-gray-50 dark:border-gray-900 rounded-2xl ring-2 ring-gray-50 dark:ring-gray-900 
+           ring-offset-1 ring-offset-gray-300 dark:ring-offset-gray-800`}`}
+    >
+      <div className="flex items-center justify-between px-4 pt-3">
+        {popout ? (
+          <div className="flex items-center space-x-3 text-xs">
+            <span className="font-medium text-gray-300">{server?.name}</span>
+            <ServerStatePill state={server?.state} pending={power.pending} connected={connected} />
+          </div>
+        ) : (
+          <span className="text-xs font-medium text-gray-500">Console</span>
+        )}
+        <div className="flex items-center space-x-2">
+          {canReadConsole && (
+            <>
+              <button
+                onClick={() => search.open ? search.close() : search.setOpen(true)}
+                title="Search (Ctrl+F)"
+                className={`flex items-center px-2 py-1 text-xs rounded-md border border-white/5 transition-colors duration-200 ${
+                  search.open ? 'text-gray-200 bg-gray-800' : 'text-gray-500 hover:text-gray-300'
+                }`}
+              >
+                <Search className="w-3 h-3 mr-1" />
+                Search
+              </button>
+              <button
+                onClick={() => setShowLogHistory(true)}
+                disabled={!connected}
+                title="Browse older output"
+                className="flex items-center px-2 py-1 text-xs text-gray-500 hover:text-gray-300 rounded-md border border-white/5 
+                         transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <History className="w-3 h-3 mr-1" />
+                History
+              </button>
+              <div className="relative group">
+                <button
+                  disabled={messages.length === 0}
+                  className="flex items-center px-2 py-1 text-xs text-gray-500 hover:text-gray-300 rounded-md border border-white/5 
+                           transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <Download className="w-3 h-3 mr-1" />
+                  Download
+                </button>
+                {messages.length > 0 && (
+                  <div className="absolute right-0 top-full pt-1 hidden group-hover:block group-focus-within:block z-10">
+                    <div className="w-44 py-1 bg-gray-800 border border-white/10 rounded-md shadow-xs">
+                      <button
+                        onClick={() => downloadLog(messages.map(line => line.text), server?.name ?? 'console')}
+                        className="block w-full px-3 py-1.5 text-left text-xs text-gray-300 hover:bg-gray-700"
+                      >
+                        Plain text
+                      </button>
+                      <button
+                        onClick={() => downloadLog(messages.map(line => line.text), server?.name ?? 'console', { raw: true })}
+                        className="block w-full px-3 py-1.5 text-left text-xs text-gray-300 hover:bg-gray-700"
+                      >
+                        Raw (with color codes)
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </div>
+              <button
+                onClick={() => follow.setPinned(!follow.pinned)}
+                title={follow.pinned ? 'Stop following new output' : 'Follow new output'}
+                className={`flex items-center px-2 py-1 text-xs rounded-md border border-white/5 transition-colors duration-200 ${
+                  follow.pinned ? 'text-gray-200 bg-gray-800' : 'text-gray-500 hover:text-gray-300'
+                }`}
+              >
+                {follow.pinned ? <Pin className="w-3 h-3 mr-1" /> : <PinOff className="w-3 h-3 mr-1" />}
+                {follow.pinned ? 'Following' : 'Paused'}
+              </button>
+            </>
+          )}
+          <div className="relative group">
+            <button
+              title="Text size"
+              className="flex items-center px-2 py-1 text-xs text-gray-500 hover:text-gray-300 rounded-md border border-white/5 
+                       transition-colors duration-200"
+            >
+              <Type className="w-3 h-3" />
+            </button>
+            <div className="absolute right-0 top-full pt-1 hidden group-hover:block group-focus-within:block z-10">
+              <div className="w-48 p-3 space-y-2 bg-gray-800 border border-white/10 rounded-md shadow-xs">
+                <label className="flex items-center justify-between text-xs text-gray-400">
+                  Font size
+                  <select
+                    value={appearance.fontSize}
+                    onChange={(e) => appearance.update({ fontSize: Number(e.target.value) })}
+                    className="px-2 py-1 text-xs text-gray-300 bg-gray-900/60 border border-white/5 rounded-md focus:outline-none"
+                  >
+                    {FONT_SIZE_OPTIONS.map(size => (
+                      <option key={size} value={size}>{size}px</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="flex items-center justify-between text-xs text-gray-400">
+                  Line height
+                  <select
+                    value={appearance.lineHeight}
+                    onChange={(e) => appearance.update({ lineHeight: Number(e.target.value) })}
+                    className="px-2 py-1 text-xs text-gray-300 bg-gray-900/60 border border-white/5 rounded-md focus:outline-none"
+                  >
+                    {LINE_HEIGHT_OPTIONS.map(height => (
+                      <option key={height} value={height}>{height}</option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+            </div>
+          </div>
+          {!popout && (
+            <button
+              onClick={openPopout}
+              title="Open in a new window"
+              className="flex items-center px-2 py-1 text-xs text-gray-500 hover:text-gray-300 rounded-md border border-white/5 
+                       transition-colors duration-200"
+            >
+              <ExternalLink className="w-3 h-3" />
+            </button>
+          )}
+          <button
+            onClick={toggleFullscreen}
+            title={fullscreen ? 'Exit fullscreen' : 'Fullscreen'}
+            className="flex items-center px-2 py-1 text-xs text-gray-500 hover:text-gray-300 rounded-md border border-white/5 
+                     transition-colors duration-200"
+          >
+            {fullscreen ? <Minimize2 className="w-3 h-3" /> : <Maximize2 className="w-3 h-3" />}
+          </button>
+        </div>
+      </div>
+      <ConsoleSearchBar search={search} />
+      <div className={`relative ${fillsContainer ? 'flex-1 min-h-0' : ''}`}>
+        <ConsoleOutput
+          ref={consoleRef}
+          lines={canReadConsole ? search.visibleLines : []}
+          highlight={search.pattern}
+          activeLineId={search.activeLineId}
+          minecraftColorCodes={server?.unit?.minecraftColorCodes}
+          rowHeight={appearance.rowHeight}
+          onScroll={follow.onScroll}
+          style={{
+            fontFamily: 'Coinbase Mono, ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, monospace',
+            fontSize: appearance.fontSize
+          }}
+          className={`${fillsContainer ? 'h-full' : 'h-[400px]'} p-4 text-gray-300`}
+        >
+          {!canReadConsole ? (
+            <div className="absolute inset-0 flex flex-col items-center justify-center text-gray-500">
+              <Lock className="w-8 h-8 mb-2 opacity-80" />
+              <p className="text-sm text-gray-400/90 font-medium">Console output is hidden</p>
+              <p className="text-xs mt-1">You don't have permission to read this server's console</p>
+            </div>
+          ) : messages.length > 0 ? (
+            <div className="absolute inset-0 flex flex-col items-center justify-center text-gray-500">
+              <p className="text-sm text-gray-400/90 font-medium">No matching lines</p>
+              <p className="text-xs mt-1">Try a different search or log level</p>
+            </div>
+          ) : (
+            <div className="absolute inset-0 flex flex-col items-center justify-center text-gray-500 mt-4">
+              <Terminal className="w-12 h-12 mb-2 ring-2 ring-gray-900 border-4 border-gray-900 ring-offset-1 
+                               ring-offset-gray-800 opacity-80 bg-gray-700/50 rounded-xl p-3" />
+              <p className="text-sm mt-4 text-gray-400/90 font-medium">No console output available</p>
+              <p className="text-xs mt-1">Perform an action to see some logs here!</p>
+            </div>
+          )}
+        </ConsoleOutput>
+        {follow.newLines > 0 && (
+          <button
+            onClick={follow.jumpToLatest}
+            className="absolute bottom-3 left-1/2 -translate-x-1/2 flex items-center px-3 py-1.5 text-xs font-medium
+                     text-gray-200 bg-gray-700 border border-white/10 rounded-full shadow-xs hover:bg-gray-600"
+          >
+            <ArrowDown className="w-3.5 h-3.5 mr-1.5" />
+            {follow.newLines} new {follow.newLines === 1 ? 'line' : 'lines'} — jump to latest
+          </button>
+        )}
+      </div>
+
+      <div className="bg-gray-800 p-2 m-2 rounded-b-xl rounded-t-md">
+        <form onSubmit={sendCommand} className="flex items-center space-x-3">
+          <ConsoleCommandInput
+            value={command}
+            onChange={setCommand}
+            history={commandHistory.history}
+            providers={completionProviders}
+            placeholder={canSendCommands ? '$ server~' : "You don't have permission to send commands"}
+            disabled={!canSendCommands}
+            className="flex-1 min-w-0 bg-gray-800 text-gray-100 rounded-md text-sm transition px-3 py-2 
+                     focus:outline-none focus:ring-1 focus:ring-transparent placeholder:text-gray-500"
+          />
+          <div className="flex items-center space-x-2">
+            <select
+              value={scrollback}
+              onChange={(e) => {
+                const value = Number(e.target.value);
+                setScrollback(value);
+                setStoredScrollback(value);
+              }}
+              title="Scrollback"
+              className="px-2 py-1 text-xs text-gray-400 bg-gray-900/60 border border-white/5 rounded-md focus:outline-none"
+            >
+              {SCROLLBACK_OPTIONS.map(option => (
+                <option key={option} value={option}>
+                  {option.toLocaleString()} lines
+                </option>
+              ))}
+            </select>
+            <ConnectionStatusPill
+              status={socket.status}
+              retryAt={socket.retryAt}
+              reconnectNow={socket.reconnectNow}
+            />
+            <button
+              type="submit"
+              disabled={!connected || !isServerActive || !canSendCommands}
+              className="flex items-center px-3 py-2 cursor-pointer border border-white/5 text-xs font-medium 
+                       text-gray-300 bg-gray-800 rounded-md hover:bg-gray-700 disabled:opacity-50 
+                       disabled:cursor-not-allowed transition-colors duration-200"
+            >
+              <SendIcon className="w-3.5 h-3.5 mr-1.5" />
+              Send
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+
+  const modals = (
+    <AnimatePresence>
+      {confirmAction && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 bg-gray-900/50 dark:bg-gray-900/70 flex items-center justify-center z-50"
+          onClick={() => setConfirmAction(null)}
+        >
+          <motion.div
+            initial={{ scale: 0.95, opacity: 0 }}
+            animate={{ scale: 1, opacity: 1 }}
+            exit={{ scale: 0.95, opacity: 0 }}
+            transition={{ duration: 0.1 }}
+            onClick={(e) => e.stopPropagation()}
+            className="w-[400px] bg-white dark:bg-gray-800 rounded-xl shadow-xl p-6"
+          >
+            <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100 mb-2">
+              {confirmAction.charAt(0).toUpperCase() + confirmAction.slice(1)} {server?.name}?
+            </h3>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+              {confirmAction === 'kill'
+                ? 'The server process will be terminated immediately. Unsaved data will be lost.'
+                : 'Players connected to the server will be disconnected.'}
+            </p>
+            <label className="flex items-center space-x-2 mb-6">
+              <input
+                type="checkbox"
+                checked={!confirmPowerActions}
+                onChange={(e) => updateConfirmPowerActions(!e.target.checked)}
+                className="text-xs"
+              />
+              <span className="text-xs text-gray-600 dark:text-gray-400">Don't ask again</span>
+            </label>
+            <div className="flex justify-end space-x-3">
+              <button
+                onClick={() => setConfirmAction(null)}
+                className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-200 
+                         hover:text-gray-900 dark:hover:text-gray-100 transition-colors duration-100"
+              >
+                Cancel
+              </button>
+              <button
+                autoFocus
+                onClick={() => handlePowerAction(confirmAction, { confirmed: true })}
+                className={`px-4 py-2 text-sm font-medium text-white rounded-md transition-colors duration-100 ${
+                  confirmAction === 'restart'
+                    ? 'bg-gray-900 dark:bg-gray-700 hover:bg-gray-800 dark:hover:bg-gray-600'
+                    : 'bg-red-600 hover:bg-red-700'
+                }`}
+              >
+                {confirmAction.charAt(0).toUpperCase() + confirmAction.slice(1)}
+              </button>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+      {showLogHistory && (
+        <LogHistoryModal
+          history={logHistory}
+          serverName={server?.name ?? 'console'}
+          minecraftColorCodes={server?.unit?.minecraftColorCodes}
+          onClose={() => setShowLogHistory(false)}
+        />
+      )}
+    </AnimatePresence>
+  );
+
+  if (popout) {
+    return (
+      <div className="h-screen p-3 bg-gray-900 flex flex-col">
+        {consoleFrame}
+        {modals}
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen px-8 py-8 bg-gray-50 dark:bg-gray-900">
       <div className="max-w-[1500px] mx-auto p-4 space-y-6">
@@ -324,42 +624,60 @@ const ServerConsolePage = () => {
           <div className="flex items-center justify-between">
             <h1 className="text-2xl font-semibold text-gray-900 dark:text-gray-100">{server?.name}</h1>
             <div className="flex items-center space-x-3">
-              {error && (
+              {(error || power.error) && (
                 <div className="flex items-center px-3 py-1.5 text-xs text-red-700 dark:text-red-400 bg-red-50 dark:bg-red-900/20 
                               border border-red-100 dark:border-red-800 rounded-md">
                   <AlertCircle className="w-3.5 h-3.5 mr-1.5" />
-                  {error}
+                  {error || power.error}
+                </div>
+              )}
+              {canUsePower && (
+                <div className="flex items-center space-x-2">
+                  <button
+                    onClick={() => handlePowerAction('start')}
+                    disabled={!canRunPowerAction('start')}
+                    title="Start (Alt+S)"
+                    className="flex items-center px-4 py-4 cursor-pointer text-xs font-medium text-gray-700 dark:text-gray-200 
+                             bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-xl 
+                             hover:bg-gray-50 dark:hover:bg-gray-700/50 disabled:opacity-50 transition-all duration-200"
+                  >
+                    <Play className="w-4 h-4 text-gray-700 dark:text-gray-300" />
+                  </button>
+                  <button
+                    onClick={() => handlePowerAction('restart')}
+                    disabled={!canRunPowerAction('restart')}
+                    title="Restart (Alt+R)"
+                    className="flex items-center px-4 py-4 cursor-pointer text-xs font-medium text-gray-700 dark:text-gray-200 
+                             bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-xl 
+                             hover:bg-gray-50 dark:hover:bg-gray-700/50 disabled:opacity-50 transition-all duration-200"
+                  >
+                    <RefreshCw className={`w-4 h-4 text-gray-700 dark:text-gray-300 ${power.pending === 'restart' ? 'animate-spin' : ''}`} />
+                  </button>
+                  <button
+                    onClick={() => handlePowerAction('stop')}
+                    disabled={!canRunPowerAction('stop')}
+                    title="Stop (Alt+X)"
+                    className="flex items-center px-4 py-4 cursor-pointer text-xs font-medium text-gray-700 dark:text-gray-200 
+                             bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-xl 
+                             hover:bg-gray-50 dark:hover:bg-gray-700/50 disabled:opacity-50 transition-all duration-200"
+                  >
+                    <Square className="w-4 h-4 text-gray-700 dark:text-gray-300" />
+                  </button>
+                  {power.killAvailable && (
+                    <button
+                      onClick={() => handlePowerAction('kill')}
+                      disabled={!canRunPowerAction('kill')}
+                      title="Kill (Alt+K)"
+                      className="flex items-center px-4 py-4 cursor-pointer text-xs font-medium text-red-600 dark:text-red-400 
+                               bg-white dark:bg-gray-800 border border-red-200 dark:border-red-800 rounded-xl 
+                               hover:bg-red-50 dark:hover:bg-red-900/20 disabled:opacity-50 transition-all duration-200"
+                    >
+                      <Skull className="w-4 h-4 mr-1.5" />
+                      Kill
+                    </button>
+                  )}
                 </div>
               )}
-              <div className="flex items-center space-x-2">
-                <button
-                  onClick={() => handlePowerAction('start')}
-                  disabled={powerLoading || isServerActive}
-                  className="flex items-center px-4 py-4 cursor-pointer text-xs font-medium text-gray-700 dark:text-gray-200 
-                           bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-xl 
-                           hover:bg-gray-50 dark:hover:bg-gray-700/50 disabled:opacity-50 transition-all duration-200"
-                >
-                  <Play className="w-4 h-4 text-gray-700 dark:text-gray-300" />
-                </button>
-                <button
-                  onClick={() => handlePowerAction('restart')}
-                  disabled={powerLoading || !isServerActive}
-                  className="flex items-center px-4 py-4 cursor-pointer text-xs font-medium text-gray-700 dark:text-gray-200 
-                           bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-xl 
-                           hover:bg-gray-50 dark:hover:bg-gray-700/50 disabled:opacity-50 transition-all duration-200"
-                >
-                  <RefreshCw className="w-4 h-4 text-gray-700 dark:text-gray-300" />
-                </button>
-                <button
-                  onClick={() => handlePowerAction('stop')}
-                  disabled={powerLoading || !isServerActive}
-                  className="flex items-center px-4 py-4 cursor-pointer text-xs font-medium text-gray-700 dark:text-gray-200 
-                           bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-xl 
-                           hover:bg-gray-50 dark:hover:bg-gray-700/50 disabled:opacity-50 transition-all duration-200"
-                >
-                  <Square className="w-4 h-4 text-gray-700 dark:text-gray-300" />
-                </button>
-              </div>
             </div>
           </div>
 
@@ -371,127 +689,113 @@ const ServerConsolePage = () => {
             </div>
             <div className="flex items-center text-gray-500 dark:text-gray-400">
               <Globe className="w-4 h-4 mr-1.5" />
-              {/* @ts-ignore */}
-              <span>{server?.allocation.alias ? server?.allocation.alias : server?.allocation.bindAddress}:{allocation?.port || 'unknown'}</span>
-            </div>
-            <div className={`flex items-center ${getStateColor(server?.state || '')}`}>
-              <div className={`w-2 h-2 rounded-full mr-2 ${
-                server?.state?.toLowerCase() === 'running' ? 'bg-green-500 dark:bg-green-400' :
-                server?.state?.toLowerCase() === 'stopped' ? 'bg-red-500 dark:bg-red-400' :
-                server?.state?.toLowerCase() === 'installed' ? 'bg-gray-500 dark:bg-gray-400' :
-                'bg-yellow-500 dark:bg-yellow-400'
-              }`} />
-              <span>
-                {/* @ts-ignore */}
-                {(server?.state.charAt(0).toUpperCase() + server?.state.slice(1)).replace('Installed', 'Connecting...')}
-              </span>
+              <span>{server?.allocation?.alias ? server.allocation.alias : server?.allocation?.bindAddress}:{allocation?.port || 'unknown'}</span>
             </div>
+            <ServerStatePill state={server?.state} pending={power.pending} connected={connected} />
           </div>
         </div>
 
-        {/* Stats Row */}
-        <div className="grid grid-cols-4 gap-6 border-t border-b border-gray-200/50 dark:border-gray-700/50 py-8">
-          <div className="border-r border-gray-200 dark:border-gray-700">
-            <p className="text-sm font-medium text-gray-500 dark:text-gray-400">CPU Usage</p>
-            <div className="flex items-baseline mt-1">
-              <p className="text-2xl font-semibold text-gray-900 dark:text-gray-100">
-                {isServerActive ? `${liveStats.cpuPercent.toFixed(1)}%` : '-'}
-              </p>
+        {/* Stats Row; resource usage falls under console.read */}
+        {canReadConsole && (
+          <div className="border-t border-b border-gray-200/50 dark:border-gray-700/50 py-6">
+            <div className="flex justify-end mb-2">
+              <select
+                value={chartWindow}
+                onChange={(e) => setChartWindow(Number(e.target.value))}
+                className="px-2 py-1 text-xs text-gray-600 dark:text-gray-300 bg-white dark:bg-gray-800 border border-gray-200 
+                         dark:border-gray-700 rounded-md focus:outline-none"
+              >
+                {CHART_WINDOWS.map(minutes => (
+                  <option key={minutes} value={minutes}>Last {minutes} minutes</option>
+                ))}
+              </select>
             </div>
-          </div>
+            <div className="grid grid-cols-4 gap-6">
+              <div className="border-r border-gray-200 dark:border-gray-700 pr-6">
+                <p className="text-sm font-medium text-gray-500 dark:text-gray-400">CPU Usage</p>
+                <div className="flex items-baseline mt-1">
+                  <p className="text-2xl font-semibold text-gray-900 dark:text-gray-100">
+                    {isServerActive && latestStats ? `${latestStats.cpuPercent.toFixed(1)}%` : '-'}
+                  </p>
+                </div>
+                <ResourceChart
+                  samples={stats}
+                  series={CPU_SERIES}
+                  windowMs={chartWindowMs}
+                  format={(value) => `${value.toFixed(1)}%`}
+                />
+              </div>
 
-          <div className="border-r border-gray-200 dark:border-gray-700">
-            <p className="text-sm font-medium text-gray-500 dark:text-gray-400">Memory</p>
-            <div className="flex items-baseline mt-1">
-              <p className="text-2xl font-semibold text-gray-900 dark:text-gray-100">
-                {isServerActive ? formatBytes(liveStats.memory.used) : '-'}
-              </p>
-              {isServerActive && (
-                <span className="ml-2 text-sm font-medium text-gray-500 dark:text-gray-400">
-                  / {formatBytes(server?.status.memory_limit)}
-                </span>
-              )}
-            </div>
-          </div>
+              <div className="border-r border-gray-200 dark:border-gray-700 pr-6">
+                <p className="text-sm font-medium text-gray-500 dark:text-gray-400">Memory</p>
+                <div className="flex items-baseline mt-1">
+                  <p className="text-2xl font-semibold text-gray-900 dark:text-gray-100">
+                    {isServerActive && latestStats ? formatBytes(latestStats.memoryUsed) : '-'}
+                  </p>
+                  {isServerActive && (
+                    <span className="ml-2 text-sm font-medium text-gray-500 dark:text-gray-400">
+                      / {formatBytes(memoryLimit)}
+                    </span>
+                  )}
+                </div>
+                <ResourceChart
+                  samples={stats}
+                  series={MEMORY_SERIES}
+                  windowMs={chartWindowMs}
+                  format={(value) => formatBytes(value)}
+                  max={memoryLimit || undefined}
+                />
+              </div>
 
-          <div className="border-r border-gray-200 dark:border-gray-700">
-            <p className="text-sm font-medium text-gray-500 dark:text-gray-400">Network I/O</p>
-            <div className="flex items-baseline mt-1">
-              <p className="text-2xl font-semibold text-gray-900 dark:text-gray-100">
-                {isServerActive ? formatBytes(liveStats.network.rxBytes) : '-'}
-              </p>
-              {isServerActive && (
-                <span className="ml-2 text-sm font-medium text-gray-500 dark:text-gray-400">
-                  /s in
-                </span>
-              )}
-            </div>
-          </div>
+              <div className="border-r border-gray-200 dark:border-gray-700 pr-6">
+                <p className="text-sm font-medium text-gray-500 dark:text-gray-400">Network I/O</p>
+                <div className="flex items-baseline mt-1 space-x-3">
+                  <p className="text-2xl font-semibold text-gray-900 dark:text-gray-100">
+                    {isServerActive && latestStats ? `${formatBytes(latestStats.rxRate)}/s` : '-'}
+                  </p>
+                  {isServerActive && latestStats && (
+                    <span className="text-sm font-medium text-gray-500 dark:text-gray-400">
+                      in, {formatBytes(latestStats.txRate)}/s out
+                    </span>
+                  )}
+                </div>
+                <ResourceChart
+                  samples={stats}
+                  series={NETWORK_SERIES}
+                  windowMs={chartWindowMs}
+                  format={(value) => `${formatBytes(value)}/s`}
+                />
+              </div>
 
-          <div>
-            <p className="text-sm font-medium text-gray-500 dark:text-gray-400">Disk Space</p>
-            <div className="flex items-baseline mt-1">
-              <p className="text-2xl font-semibold text-gray-900 dark:text-gray-100">
-                {formatBytes((server?.diskMiB || 0) * 1024 * 1024)}
-              </p>
-              <span className="ml-2 text-sm font-medium text-gray-500 dark:text-gray-400">total</span>
+              <div>
+                <p className="text-sm font-medium text-gray-500 dark:text-gray-400">Disk Space</p>
+                <div className="flex items-baseline mt-1">
+                  <p className="text-2xl font-semibold text-gray-900 dark:text-gray-100">
+                    {latestStats?.diskUsed != null ? formatBytes(latestStats.diskUsed) : formatBytes(diskLimit)}
+                  </p>
+                  <span className="ml-2 text-sm font-medium text-gray-500 dark:text-gray-400">
+                    {latestStats?.diskUsed != null ? `/ ${formatBytes(diskLimit)}` : 'total'}
+                  </span>
+                </div>
+                {latestStats?.diskUsed != null && (
+                  <ResourceChart
+                    samples={stats}
+                    series={DISK_SERIES}
+                    windowMs={chartWindowMs}
+                    format={(value) => formatBytes(value)}
+                    max={diskLimit || undefined}
+                  />
+                )}
+              </div>
             </div>
           </div>
-        </div>
+        )}
 
         {/* Console */}
-        <div className="border-2 border-gray-50 dark:border-gray-900 rounded-2xl ring-2 ring-gray-50 dark:ring-gray-900 
-                      ring-offset-1 ring-offset-gray-300 dark:ring-offset-gray-800 bg-gray-900">
-          <div 
-            ref={consoleRef}
-            style={{
-              fontFamily: 'Coinbase Mono, ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, monospace'
-            }}
-            className="h-[400px] p-4 overflow-y-auto text-xs text-gray-300 relative"
-          >
-            {messages.length > 0 ? (
-              messages.map((msg, index) => (
-                <AnsiParser key={index} text={msg} />
-              ))
-            ) : (
-              <div className="absolute inset-0 flex flex-col items-center justify-center text-gray-500 mt-4">
-                <Terminal className="w-12 h-12 mb-2 ring-2 ring-gray-900 border-4 border-gray-900 ring-offset-1 
-                                 ring-offset-gray-800 opacity-80 bg-gray-700/50 rounded-xl p-3" />
-                <p className="text-sm mt-4 text-gray-400/90 font-medium">No console output available</p>
-                <p className="text-xs mt-1">Perform an action to see some logs here!</p>
-              </div>
-            )}
-          </div>
-
-          <div className="bg-gray-800 p-2 m-2 rounded-b-xl rounded-t-md">
-            <form onSubmit={sendCommand} className="flex items-center space-x-3">
-              <input
-                type="text"
-                value={command}
-                onChange={(e) => setCommand(e.target.value)}
-                placeholder="$ server~"
-                className="flex-1 bg-gray-800 text-gray-100 rounded-md text-sm transition px-3 py-2 
-                         focus:outline-none focus:ring-1 focus:ring-transparent placeholder:text-gray-500"
-              />
-              <div className="flex items-center space-x-2">
-                <span className="text-xs hidden text-gray-500">
-                  {checkWebSocketStatus()}
-                </span>
-                <button
-                  type="submit"
-                  disabled={!connected || !isServerActive}
-                  className="flex items-center px-3 py-2 cursor-pointer border border-white/5 text-xs font-medium 
-                           text-gray-300 bg-gray-800 rounded-md hover:bg-gray-700 disabled:opacity-50 
-                           disabled:cursor-not-allowed transition-colors duration-200"
-                >
-                  <SendIcon className="w-3.5 h-3.5 mr-1.5" />
-                  Send
-                </button>
-              </div>
-            </form>
-          </div>
-        </div>
+        {consoleFrame}
       </div>
+
+      {modals}
     </div>
   );
 };
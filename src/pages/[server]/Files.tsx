@@ -9,36 +9,17 @@ import {
   FolderPlus, ArrowLeft, Archive,
   Check, X, Edit2, MoreVertical, Copy,
   FilePlus, Package, Code, FileText, Image, 
-  Music, Video, PackageOpenIcon
+  Music, Video, PackageOpenIcon, Lock
 } from 'lucide-react';
 import LoadingSpinner from '../../components/LoadingSpinner';
+import { api } from '../../lib/api';
+import { BACKUP_DIRECTORY } from '../../lib/backups';
+import { createServerClient } from '../../lib/krypton';
+import { hasServerPermission } from '../../lib/serverPermissions';
+import type { FileEntry, Server } from '../../lib/types';
 
 // Types
-interface Node {
-  id: string;
-  name: string;
-  fqdn: string;
-  port: number;
-}
-
-interface ServerDetails {
-  id: string;
-  internalId: string;
-  validationToken: string;
-  name: string;
-  node: Node;
-}
-
-interface FileEntry {
-  name: string;
-  mode: string;
-  size: number;
-  isFile: boolean;
-  isSymlink: boolean;
-  modifiedAt: number;
-  createdAt: number;
-  mime: string;
-}
+type ServerDetails = Server & { node: NonNullable<Server['node']> };
 
 interface Toast {
   id: string;
@@ -136,9 +117,10 @@ const Toast: React.FC<{ toast: Toast }> = ({ toast }) => (
 const ContextMenu: React.FC<{
     file: FileEntry;
     position: { x: number; y: number };
+    canWrite: boolean;
     onClose: () => void;
     onAction: (action: string) => Promise<void>;
-  }> = ({ file, position, onClose, onAction }) => {
+  }> = ({ file, position, canWrite, onClose, onAction }) => {
     const menuRef = useRef<HTMLDivElement>(null);
     const [adjustedPosition, setAdjustedPosition] = useState(position);
     const fileType = getFileTypeInfo(file.mime);
@@ -183,11 +165,13 @@ const ContextMenu: React.FC<{
     }, [onClose, position]);
 
   const actions = [
-    ...(fileType.canEdit ? [{ label: 'Edit', icon: Edit2, action: 'edit' }] : []),
-    ...(canExtractFile(file.mime) ? [{ label: 'Extract', icon: PackageOpenIcon, action: 'extract' }] : []),
+    ...(fileType.canEdit ? [{ label: canWrite ? 'Edit' : 'View', icon: Edit2, action: 'edit' }] : []),
+    ...(canWrite && canExtractFile(file.mime) ? [{ label: 'Extract', icon: PackageOpenIcon, action: 'extract' }] : []),
     { label: 'Download', icon: Download, action: 'download' },
-    { label: 'Copy', icon: Copy, action: 'copy' },
-    { label: 'Delete', icon: Trash2, action: 'delete', destructive: true }
+    ...(canWrite ? [
+      { label: 'Copy', icon: Copy, action: 'copy' },
+      { label: 'Delete', icon: Trash2, action: 'delete', destructive: true }
+    ] : [])
   ];
 
   return (
@@ -221,7 +205,6 @@ const ContextMenu: React.FC<{
 const FileManager: React.FC = () => {
   const { id } = useParams();
   const navigate = useNavigate();
-  const token = localStorage.getItem('token');
 
   // Core state
   const [server, setServer] = useState<ServerDetails | null>(null);
@@ -249,6 +232,9 @@ const FileManager: React.FC = () => {
 
   // Computed values
   const currentFullPath = useMemo(() => currentPath.join('/'), [currentPath]);
+  const client = useMemo(() => server ? createServerClient(server) : null, [server]);
+  const canReadFiles = hasServerPermission(server, 'files.read');
+  const canWriteFiles = hasServerPermission(server, 'files.write');
 
   // Toast handler
   const showToast = useCallback((message: string, type: Toast['type'] = 'success') => {
@@ -262,32 +248,26 @@ const FileManager: React.FC = () => {
   // API calls
   const fetchServer = useCallback(async () => {
     try {
-      const response = await fetch(`/api/servers/${id}?include[node]=true`, {
-        headers: { Authorization: `Bearer ${token}` }
-      });
-      
-      if (!response.ok) throw new Error('Failed to fetch server details');
-      const data = await response.json();
-      setServer(data);
+      const data = await api.servers.get(id!, ['node']);
+      setServer(data as ServerDetails);
     } catch (err) {
       setError('Failed to fetch server details');
       showToast('Failed to fetch server details', 'error');
     }
-  }, [id, token, showToast]);
+  }, [id, showToast]);
 
   const fetchFiles = useCallback(async () => {
-    if (!server) return;
+    if (!client) return;
+    if (!canReadFiles) {
+      setLoading(false);
+      return;
+    }
 
     try {
       setLoading(true);
-      const response = await fetch(
-        `http://${server.node.fqdn}:${server.node.port}/api/v1/filesystem/${server.internalId}/list/${currentFullPath}`,
-        { headers: { Authorization: `Bearer ${server?.validationToken}` } }
-      );
-
-      if (!response.ok) throw new Error('Failed to fetch directory contents');
-      const data = await response.json();
-      setFiles(data.contents);
+      const entries = await client.filesystem.list(currentFullPath);
+      // Backups are managed from their own page, which checks the backups permission
+      setFiles(currentFullPath ? entries : entries.filter(entry => entry.name !== BACKUP_DIRECTORY));
       setError(null);
     } catch (err) {
       setError('Failed to fetch files');
@@ -295,28 +275,22 @@ const FileManager: React.FC = () => {
     } finally {
       setLoading(false);
     }
-  }, [server, currentFullPath, token, showToast]);
+  }, [client, canReadFiles, currentFullPath, showToast]);
 
   const getFileContents = useCallback(async (file: FileEntry): Promise<string> => {
-    if (!server) return '';
+    if (!client) return '';
 
     try {
-      const response = await fetch(
-        `http://${server.node.fqdn}:${server.node.port}/api/v1/filesystem/${server.internalId}/contents/${currentFullPath}/${file.name}`,
-        { headers: { Authorization: `Bearer ${server?.validationToken}` } }
-      );
-
-      if (!response.ok) throw new Error('Failed to fetch file contents');
-      return await response.text();
+      return await client.filesystem.contents(`${currentFullPath}/${file.name}`);
     } catch (err) {
       showToast('Failed to load file contents', 'error');
       return '';
     }
-  }, [server, currentFullPath, token, showToast]);
+  }, [client, currentFullPath, showToast]);
 
   // File operations
   const handleFileAction = useCallback(async (action: string, file: FileEntry) => {
-    if (!server) return;
+    if (!client) return;
 
     try {
       setFileActions(prev => ({
@@ -332,44 +306,21 @@ const FileManager: React.FC = () => {
         }
         
         case 'extract': {
-          const response = await fetch(
-            `http://${server.node.fqdn}:${server.node.port}/api/v1/filesystem/${server.internalId}/extract/${currentFullPath}`,
-            {
-              method: 'POST',
-              headers: {
-                Authorization: `Bearer ${server?.validationToken}`,
-                'Content-Type': 'application/json'
-              },
-              body: JSON.stringify({ file: file.name })
-            }
-          );
-
-          if (!response.ok) throw new Error('Failed to extract archive');
+          await client.filesystem.extract(currentFullPath, file.name);
           showToast(`Extracted ${file.name}`);
           await fetchFiles();
           break;
         }
 
         case 'delete': {
-          const response = await fetch(
-            `http://${server.node.fqdn}:${server.node.port}/api/v1/filesystem/${server.internalId}/delete/${currentFullPath}/${file.name}`,
-            {
-              method: 'DELETE',
-              headers: { Authorization: `Bearer ${server?.validationToken}` }
-            }
-          );
-
-          if (!response.ok) throw new Error('Failed to delete file');
+          await client.filesystem.delete(`${currentFullPath}/${file.name}`);
           showToast(`Deleted ${file.name}`);
           await fetchFiles();
           break;
         }
 
         case 'download': {
-          window.open(
-            `http://${server.node.fqdn}:${server.node.port}/api/v1/filesystem/${server.internalId}/download/${currentFullPath}/${file.name}?token=${server?.validationToken}`,
-            '_blank'
-          );
+          window.open(client.filesystem.downloadUrl(`${currentFullPath}/${file.name}`), '_blank');
           break;
         }
       }
@@ -382,25 +333,13 @@ const FileManager: React.FC = () => {
       }));
       setContextMenu(null);
     }
-  }, [server, currentFullPath, token, getFileContents, fetchFiles, showToast]);
+  }, [client, currentFullPath, getFileContents, fetchFiles, showToast]);
 
   const handleCreateFile = useCallback(async (name: string) => {
-    if (!server) return;
+    if (!client) return;
 
     try {
-      const response = await fetch(
-        `http://${server.node.fqdn}:${server.node.port}/api/v1/filesystem/${server.internalId}/write/${currentFullPath}/${name}`,
-        {
-          method: 'POST',
-          headers: { 
-            Authorization: `Bearer ${server?.validationToken}`,
-            'Content-Type': 'application/octet-stream'
-          },
-          body: ''
-        }
-      );
-
-      if (!response.ok) throw new Error('Failed to create file');
+      await client.filesystem.write(`${currentFullPath}/${name}`, '');
       
       showToast(`Created file ${name}`);
       setModal(null);
@@ -408,21 +347,13 @@ const FileManager: React.FC = () => {
     } catch (err) {
       showToast('Failed to create file', 'error');
     }
-  }, [server, currentFullPath, token, fetchFiles, showToast]);
+  }, [client, currentFullPath, fetchFiles, showToast]);
 
   const handleCreateFolder = useCallback(async (name: string) => {
-    if (!server) return;
+    if (!client) return;
 
     try {
-      const response = await fetch(
-        `http://${server.node.fqdn}:${server.node.port}/api/v1/filesystem/${server.internalId}/create-directory/${currentFullPath}/${name}`,
-        {
-          method: 'POST',
-          headers: { Authorization: `Bearer ${server?.validationToken}` }
-        }
-      );
-
-      if (!response.ok) throw new Error('Failed to create folder');
+      await client.filesystem.createDirectory(`${currentFullPath}/${name}`);
       
       showToast(`Created folder ${name}`);
       setModal(null);
@@ -430,10 +361,10 @@ const FileManager: React.FC = () => {
     } catch (err) {
       showToast('Failed to create folder', 'error');
     }
-}, [server, currentFullPath, token, fetchFiles, showToast]);
+}, [client, currentFullPath, fetchFiles, showToast]);
 
 const handleMassDelete = useCallback(async () => {
-    if (!server || selectedFiles.size === 0) return;
+    if (!client || selectedFiles.size === 0) return;
     
     if (!confirm(`Are you sure you want to delete ${selectedFiles.size} items?`)) {
       return;
@@ -442,18 +373,7 @@ const handleMassDelete = useCallback(async () => {
     let success = true;
     for (const fileName of selectedFiles) {
       try {
-        const response = await fetch(
-          `http://${server.node.fqdn}:${server.node.port}/api/v1/filesystem/${server.internalId}/delete/${currentFullPath}/${fileName}`,
-          {
-            method: 'DELETE',
-            headers: { Authorization: `Bearer ${server?.validationToken}` }
-          }
-        );
-
-        if (!response.ok) {
-          success = false;
-          showToast(`Failed to delete ${fileName}`, 'error');
-        }
+        await client.filesystem.delete(`${currentFullPath}/${fileName}`);
       } catch (err) {
         success = false;
         showToast(`Failed to delete ${fileName}`, 'error');
@@ -465,10 +385,10 @@ const handleMassDelete = useCallback(async () => {
     }
     setSelectedFiles(new Set());
     await fetchFiles();
-  }, [server, currentFullPath, token, selectedFiles, fetchFiles, showToast]);
+  }, [client, currentFullPath, selectedFiles, fetchFiles, showToast]);
 
 const handleUpload = useCallback(async (files: FileList | File[]) => {
-  if (!server) return;
+  if (!client) return;
 
   const newUploads: UploadProgress[] = Array.from(files).map(file => ({
     file,
@@ -479,20 +399,8 @@ const handleUpload = useCallback(async (files: FileList | File[]) => {
   setUploads(prev => [...prev, ...newUploads]);
 
   for (const upload of newUploads) {
-    const formData = new FormData();
-    formData.append('files', upload.file);
-
     try {
-      const response = await fetch(
-        `http://${server.node.fqdn}:${server.node.port}/api/v1/filesystem/${server.internalId}/upload/${currentFullPath}`,
-        {
-          method: 'POST',
-          headers: { Authorization: `Bearer ${server?.validationToken}` },
-          body: formData
-        }
-      );
-
-      if (!response.ok) throw new Error('Upload failed');
+      await client.filesystem.upload(currentFullPath, [upload.file]);
 
       setUploads(prev => 
         prev.map(u => 
@@ -518,28 +426,16 @@ const handleUpload = useCallback(async (files: FileList | File[]) => {
   setTimeout(() => {
     setUploads(prev => prev.filter(u => u.status === 'pending' || u.status === 'uploading'));
   }, 3000);
-}, [server, currentFullPath, token, fetchFiles, showToast]);
+}, [client, currentFullPath, fetchFiles, showToast]);
 
 const handleCompress = useCallback(async (name: string) => {
-  if (!server || selectedFiles.size === 0) return;
+  if (!client || selectedFiles.size === 0) return;
 
   try {
-    const response = await fetch(
-      `http://${server.node.fqdn}:${server.node.port}/api/v1/filesystem/${server.internalId}/compress`,
-      {
-        method: 'POST',
-        headers: { 
-          Authorization: `Bearer ${server?.validationToken}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          files: Array.from(selectedFiles).map(f => `${currentFullPath}/${f}`),
-          destination: `${currentFullPath}/${name}.zip`
-        })
-      }
+    await client.filesystem.compress(
+      Array.from(selectedFiles).map(f => `${currentFullPath}/${f}`),
+      `${currentFullPath}/${name}.zip`
     );
-
-    if (!response.ok) throw new Error('Failed to create archive');
     
     showToast('Archive created successfully');
     setModal(null);
@@ -548,10 +444,10 @@ const handleCompress = useCallback(async (name: string) => {
   } catch (err) {
     showToast('Failed to create archive', 'error');
   }
-}, [server, currentFullPath, token, selectedFiles, fetchFiles, showToast]);
+}, [client, currentFullPath, selectedFiles, fetchFiles, showToast]);
 
 const handleSaveFile = useCallback(async (file: FileEntry, content: string): Promise<boolean> => {
-  if (!server) return false;
+  if (!client) return false;
 
   try {
     setFileActions(prev => ({
@@ -559,19 +455,7 @@ const handleSaveFile = useCallback(async (file: FileEntry, content: string): Pro
       [file.name]: { loading: true, type: 'save' }
     }));
 
-    const response = await fetch(
-      `http://${server.node.fqdn}:${server.node.port}/api/v1/filesystem/${server.internalId}/write/${currentFullPath}/${file.name}`,
-      {
-        method: 'POST',
-        headers: { 
-          Authorization: `Bearer ${server?.validationToken}`,
-          'Content-Type': 'application/octet-stream'
-        },
-        body: content
-      }
-    );
-
-    if (!response.ok) throw new Error('Failed to save file');
+    await client.filesystem.write(`${currentFullPath}/${file.name}`, content);
     
     showToast('File saved successfully');
     return true;
@@ -584,12 +468,13 @@ const handleSaveFile = useCallback(async (file: FileEntry, content: string): Pro
       [file.name]: { loading: false, type: 'save' }
     }));
   }
-}, [server, currentFullPath, token, showToast]);
+}, [client, currentFullPath, showToast]);
 
 // Drag and drop handlers
 const handleDrag = useCallback((e: React.DragEvent) => {
   e.preventDefault();
   e.stopPropagation();
+  if (!canWriteFiles) return;
   
   if (e.type === 'dragenter') {
     dragCounterRef.current += 1;
@@ -602,7 +487,7 @@ const handleDrag = useCallback((e: React.DragEvent) => {
   } else if (e.type === 'dragleave' && dragCounterRef.current === 0) {
     setDropZoneActive(false);
   }
-}, []);
+}, [canWriteFiles]);
 
 const handleDrop = useCallback((e: React.DragEvent) => {
   e.preventDefault();
@@ -611,10 +496,10 @@ const handleDrop = useCallback((e: React.DragEvent) => {
   setDropZoneActive(false);
 
   const { files } = e.dataTransfer;
-  if (files?.length) {
+  if (files?.length && canWriteFiles) {
     handleUpload(files);
   }
-}, [handleUpload]);
+}, [handleUpload, canWriteFiles]);
 
 // Effect hooks
 useEffect(() => {
@@ -763,60 +648,64 @@ return (
             <Search className="w-4 h-4 text-gray-400 dark:text-gray-500 absolute left-3 top-1/2 transform -trangray-y-1/2" />
           </div>
 
-          {/* New File */}
-          <button
-            onClick={() => setModal({ type: 'new-file' })}
-            className="flex items-center px-3 py-1.5 text-xs font-medium text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700/50"
-          >
-            <FilePlus className="w-4 h-4 mr-1.5" />
-            New File
-          </button>
-
-          {/* New Folder */}
-          <button
-            onClick={() => setModal({ type: 'new-folder' })}
-            className="flex items-center px-3 py-1.5 text-xs font-medium text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700/50"
-          >
-            <FolderPlus className="w-4 h-4 mr-1.5" />
-            New Folder
-          </button>
-
-          {/* Upload */}
-          <label className="flex items-center px-3 py-1.5 text-xs font-medium text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700/50 cursor-pointer">
-            <Upload className="w-4 h-4 mr-1.5" />
-            Upload
-            <input
-              ref={uploadInputRef}
-              type="file"
-              multiple
-              onChange={e => {
-                if (e.target.files?.length) {
-                  handleUpload(e.target.files);
-                  e.target.value = '';
-                }
-              }}
-              className="hidden"
-            />
-          </label>
-
-          {/* Selection Actions */}
-          {selectedFiles.size > 0 && (
-            <div className="flex items-center space-x-2">
+          {canWriteFiles && (
+            <>
+              {/* New File */}
               <button
-                onClick={() => setModal({ type: 'compress' })}
+                onClick={() => setModal({ type: 'new-file' })}
                 className="flex items-center px-3 py-1.5 text-xs font-medium text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700/50"
               >
-                <Archive className="w-4 h-4 mr-1.5" />
-                Compress ({selectedFiles.size})
+                <FilePlus className="w-4 h-4 mr-1.5" />
+                New File
               </button>
+
+              {/* New Folder */}
               <button
-                onClick={handleMassDelete}
-                className="flex items-center px-3 py-1.5 text-xs font-medium text-red-600 dark:text-red-400 bg-white dark:bg-gray-800 border border-red-200 dark:border-red-800/50 rounded-md hover:bg-red-50 dark:hover:bg-red-900/20"
+                onClick={() => setModal({ type: 'new-folder' })}
+                className="flex items-center px-3 py-1.5 text-xs font-medium text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700/50"
               >
-                <Trash2 className="w-4 h-4 mr-1.5" />
-                Delete ({selectedFiles.size})
+                <FolderPlus className="w-4 h-4 mr-1.5" />
+                New Folder
               </button>
-            </div>
+
+              {/* Upload */}
+              <label className="flex items-center px-3 py-1.5 text-xs font-medium text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700/50 cursor-pointer">
+                <Upload className="w-4 h-4 mr-1.5" />
+                Upload
+                <input
+                  ref={uploadInputRef}
+                  type="file"
+                  multiple
+                  onChange={e => {
+                    if (e.target.files?.length) {
+                      handleUpload(e.target.files);
+                      e.target.value = '';
+                    }
+                  }}
+                  className="hidden"
+                />
+              </label>
+
+              {/* Selection Actions */}
+              {selectedFiles.size > 0 && (
+                <div className="flex items-center space-x-2">
+                  <button
+                    onClick={() => setModal({ type: 'compress' })}
+                    className="flex items-center px-3 py-1.5 text-xs font-medium text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700/50"
+                  >
+                    <Archive className="w-4 h-4 mr-1.5" />
+                    Compress ({selectedFiles.size})
+                  </button>
+                  <button
+                    onClick={handleMassDelete}
+                    className="flex items-center px-3 py-1.5 text-xs font-medium text-red-600 dark:text-red-400 bg-white dark:bg-gray-800 border border-red-200 dark:border-red-800/50 rounded-md hover:bg-red-50 dark:hover:bg-red-900/20"
+                  >
+                    <Trash2 className="w-4 h-4 mr-1.5" />
+                    Delete ({selectedFiles.size})
+                  </button>
+                </div>
+              )}
+            </>
           )}
 
           {/* Refresh */}
@@ -877,6 +766,12 @@ return (
         <div className="flex items-center justify-center h-[400px]">
           <LoadingSpinner />
         </div>
+      ) : server && !canReadFiles ? (
+        <div className="flex flex-col items-center justify-center py-12 border border-gray-200/50 dark:border-gray-700/50 rounded-xl
+                      text-gray-500 dark:text-gray-400">
+          <Lock className="w-8 h-8 mb-2 text-gray-400 dark:text-gray-500" />
+          <p className="text-sm">You don't have permission to browse this server's files</p>
+        </div>
       ) : (
         <motion.div 
           initial={{ opacity: 0 }}
@@ -1055,7 +950,8 @@ return (
                         lineNumbers: 'on',
                         scrollBeyondLastLine: false,
                         wordWrap: 'on',
-                        padding: { top: 20 }
+                        padding: { top: 20 },
+                        readOnly: !canWriteFiles
                       }}
                       onChange={content => {
                         setModal(prev => prev ? {
@@ -1070,21 +966,23 @@ return (
                       onClick={() => setModal(null)}
                       className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-200 hover:text-gray-900 dark:hover:text-gray-100"
                     >
-                      Cancel
-                    </button>
-                    <button
-                      onClick={async () => {
-                        if (await handleSaveFile(modal.data.file, modal.data.content)) {
-                          setModal(null);
-                        }
-                      }}
-                      disabled={fileActions[modal.data.file.name]?.loading}
-                      className="px-4 py-2 text-sm font-medium text-white bg-gray-900 dark:bg-gray-700 rounded-md 
-                               hover:bg-gray-800 dark:hover:bg-gray-600 transition-colors duration-100 flex items-center 
-                               disabled:opacity-50 disabled:cursor-not-allowed"
-                    >
-                      {fileActions[modal.data.file.name]?.loading ? 'Saving...' : 'Save'}
+                      {canWriteFiles ? 'Cancel' : 'Close'}
                     </button>
+                    {canWriteFiles && (
+                      <button
+                        onClick={async () => {
+                          if (await handleSaveFile(modal.data.file, modal.data.content)) {
+                            setModal(null);
+                          }
+                        }}
+                        disabled={fileActions[modal.data.file.name]?.loading}
+                        className="px-4 py-2 text-sm font-medium text-white bg-gray-900 dark:bg-gray-700 rounded-md 
+                                 hover:bg-gray-800 dark:hover:bg-gray-600 transition-colors duration-100 flex items-center 
+                                 disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        {fileActions[modal.data.file.name]?.loading ? 'Saving...' : 'Save'}
+                      </button>
+                    )}
                   </div>
                 </div>
               )}
@@ -1225,6 +1123,7 @@ return (
           <ContextMenu 
             file={contextMenu.file}
             position={contextMenu.position}
+            canWrite={canWriteFiles}
             onClose={() => setContextMenu(null)}
             onAction={action => handleFileAction(action, contextMenu.file)}
           />
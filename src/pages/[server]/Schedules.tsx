@@ -0,0 +1,761 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { AnimatePresence, motion } from 'framer-motion';
+import {
+  ChevronRight, AlertCircle, ArrowLeft, Plus, Play, Pencil, Trash2,
+  ChevronUp, ChevronDown, Clock
+} from 'lucide-react';
+import LoadingSpinner from '../../components/LoadingSpinner';
+import { api, getErrorMessage } from '../../lib/api';
+import { isValidTimeZone, nextRuns, validateCron } from '../../lib/cron';
+import { isServerOwner } from '../../lib/serverPermissions';
+import type { Schedule, ScheduleInput, ScheduleTask, Server } from '../../lib/types';
+
+type View = 'list' | 'create' | 'edit';
+
+type BuilderMode = 'minutes' | 'hourly' | 'daily' | 'weekly' | 'monthly' | 'custom';
+
+interface BuilderState {
+  mode: BuilderMode;
+  interval: number;
+  minute: number;
+  time: string;
+  days: number[];
+  dayOfMonth: number;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const TASK_ACTIONS: { value: ScheduleTask['action']; label: string }[] = [
+  { value: 'command', label: 'Send command' },
+  { value: 'power', label: 'Power action' },
+  { value: 'backup', label: 'Create backup' }
+];
+
+const POWER_ACTIONS = ['start', 'stop', 'restart', 'kill'];
+
+const EMPTY_FORM: ScheduleInput = {
+  name: '',
+  cron: '0 4 * * *',
+  timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+  enabled: true,
+  onlyWhenOnline: false,
+  tasks: [{ action: 'command', payload: '', offsetSeconds: 0 }]
+};
+
+const inputClassName = `block w-full px-3 py-2 text-xs text-gray-900 dark:text-gray-100 bg-white dark:bg-gray-900
+  border border-gray-200 dark:border-gray-700 rounded-md focus:outline-none focus:ring-1 focus:ring-gray-400`;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Recognises the expressions the builder produces so an existing schedule
+// opens in the matching mode; anything else is edited as a raw expression
+const detectBuilderState = (cron: string): BuilderState => {
+  const state: BuilderState = { mode: 'custom', interval: 15, minute: 0, time: '04:00', days: [1], dayOfMonth: 1 };
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = cron.trim().split(/\s+/);
+  const isNumber = (value: string | undefined) => value !== undefined && /^\d+$/.test(value);
+  const time = isNumber(hour) && isNumber(minute) ? `${pad(Number(hour))}:${pad(Number(minute))}` : state.time;
+
+  if (month !== '*') return state;
+
+  if (/^\*\/\d+$/.test(minute) && hour === '*' && dayOfMonth === '*' && dayOfWeek === '*') {
+    return { ...state, mode: 'minutes', interval: Number(minute.slice(2)) };
+  }
+  if (isNumber(minute) && hour === '*' && dayOfMonth === '*' && dayOfWeek === '*') {
+    return { ...state, mode: 'hourly', minute: Number(minute) };
+  }
+  if (isNumber(minute) && isNumber(hour)) {
+    if (dayOfMonth === '*' && dayOfWeek === '*') return { ...state, mode: 'daily', time };
+    if (dayOfMonth === '*' && /^[0-6](,[0-6])*$/.test(dayOfWeek)) {
+      return { ...state, mode: 'weekly', time, days: dayOfWeek.split(',').map(Number) };
+    }
+    if (isNumber(dayOfMonth) && dayOfWeek === '*') return { ...state, mode: 'monthly', time, dayOfMonth: Number(dayOfMonth) };
+  }
+
+  return state;
+};
+
+// An empty expression means the builder has nothing to run on yet, e.g. a
+// weekly schedule with no days picked. It never passes validation.
+const buildCron = (state: BuilderState) => {
+  const [hour, minute] = state.time.split(':').map(Number);
+
+  switch (state.mode) {
+    case 'minutes': return `*/${state.interval} * * * *`;
+    case 'hourly': return `${state.minute} * * * *`;
+    case 'daily': return `${minute} ${hour} * * *`;
+    case 'weekly': return state.days.length > 0 ? `${minute} ${hour} * * ${[...state.days].sort().join(',')}` : '';
+    case 'monthly': return `${minute} ${hour} ${state.dayOfMonth} * *`;
+    default: return null;
+  }
+};
+
+const CronBuilder: React.FC<{
+  value: string,
+  timeZone: string,
+  onChange: (value: string) => void
+}> = ({ value, timeZone, onChange }) => {
+  const [state, setState] = useState(() => detectBuilderState(value));
+
+  const update = (changes: Partial<BuilderState>) => {
+    const next = { ...state, ...changes };
+    setState(next);
+    const cron = buildCron(next);
+    if (cron !== null) onChange(cron);
+  };
+
+  const error = value.trim()
+    ? validateCron(value)
+    : state.mode === 'weekly' ? 'Select at least one day' : 'Enter a cron expression';
+  const validTimeZone = isValidTimeZone(timeZone);
+  const upcoming = useMemo(
+    () => error || !validTimeZone ? [] : nextRuns(value, timeZone, 5),
+    [value, timeZone, error, validTimeZone]
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={state.mode}
+          onChange={(e) => update({ mode: e.target.value as BuilderMode })}
+          className={`${inputClassName} w-auto`}
+        >
+          <option value="minutes">Every few minutes</option>
+          <option value="hourly">Every hour</option>
+          <option value="daily">Every day</option>
+          <option value="weekly">Every week</option>
+          <option value="monthly">Every month</option>
+          <option value="custom">Custom expression</option>
+        </select>
+
+        {state.mode === 'minutes' && (
+          <label className="flex items-center space-x-2 text-xs text-gray-600 dark:text-gray-400">
+            <span>every</span>
+            <select
+              value={state.interval}
+              onChange={(e) => update({ interval: Number(e.target.value) })}
+              className={`${inputClassName} w-auto`}
+            >
+              {[1, 2, 5, 10, 15, 20, 30].map(interval => (
+                <option key={interval} value={interval}>{interval}</option>
+              ))}
+            </select>
+            <span>minutes</span>
+          </label>
+        )}
+
+        {state.mode === 'hourly' && (
+          <label className="flex items-center space-x-2 text-xs text-gray-600 dark:text-gray-400">
+            <span>at minute</span>
+            <input
+              type="number"
+              min={0}
+              max={59}
+              value={state.minute}
+              onChange={(e) => update({ minute: Math.min(59, Math.max(0, Number(e.target.value))) })}
+              className={`${inputClassName} w-20`}
+            />
+          </label>
+        )}
+
+        {state.mode === 'monthly' && (
+          <label className="flex items-center space-x-2 text-xs text-gray-600 dark:text-gray-400">
+            <span>on day</span>
+            <input
+              type="number"
+              min={1}
+              max={31}
+              value={state.dayOfMonth}
+              onChange={(e) => update({ dayOfMonth: Math.min(31, Math.max(1, Number(e.target.value))) })}
+              className={`${inputClassName} w-20`}
+            />
+          </label>
+        )}
+
+        {(state.mode === 'daily' || state.mode === 'weekly' || state.mode === 'monthly') && (
+          <label className="flex items-center space-x-2 text-xs text-gray-600 dark:text-gray-400">
+            <span>at</span>
+            <input
+              type="time"
+              value={state.time}
+              onChange={(e) => e.target.value && update({ time: e.target.value })}
+              className={`${inputClassName} w-auto`}
+            />
+          </label>
+        )}
+      </div>
+
+      {state.mode === 'weekly' && (
+        <div className="flex space-x-1">
+          {WEEKDAYS.map((day, index) => {
+            const active = state.days.includes(index);
+            return (
+              <button
+                key={day}
+                type="button"
+                onClick={() => update({ days: active ? state.days.filter(d => d !== index) : [...state.days, index] })}
+                className={`px-2.5 py-1 text-xs rounded-md border transition-colors duration-100 ${
+                  active
+                    ? 'bg-gray-900 dark:bg-gray-200 text-white dark:text-gray-900 border-transparent'
+                    : 'text-gray-600 dark:text-gray-400 border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700/50'
+                }`}
+              >
+                {day}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      <input
+        type="text"
+        value={value}
+        onChange={(e) => {
+          setState({ ...state, mode: 'custom' });
+          onChange(e.target.value);
+        }}
+        readOnly={state.mode !== 'custom'}
+        placeholder="minute hour day-of-month month day-of-week"
+        className={`${inputClassName} font-mono read-only:opacity-60`}
+      />
+
+      {error ? (
+        <p className="text-xs text-red-600 dark:text-red-400">{error}</p>
+      ) : (
+        <div className="space-y-1">
+          <p className="text-xs font-medium text-gray-700 dark:text-gray-300">Next runs ({timeZone})</p>
+          {!validTimeZone ? (
+            <p className="text-xs text-gray-500 dark:text-gray-400">Enter a valid time zone to see upcoming runs</p>
+          ) : upcoming.length > 0 ? upcoming.map(run => (
+            <p key={run.getTime()} className="text-xs font-mono text-gray-500 dark:text-gray-400">
+              {run.toLocaleString(undefined, { timeZone })}
+            </p>
+          )) : (
+            <p className="text-xs text-gray-500 dark:text-gray-400">This expression never runs</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const TaskEditor: React.FC<{
+  tasks: ScheduleTask[],
+  onChange: (tasks: ScheduleTask[]) => void
+}> = ({ tasks, onChange }) => {
+  const updateTask = (index: number, changes: Partial<ScheduleTask>) => {
+    onChange(tasks.map((task, i) => i === index ? { ...task, ...changes } : task));
+  };
+
+  const moveTask = (index: number, direction: -1 | 1) => {
+    const next = [...tasks];
+    [next[index], next[index + direction]] = [next[index + direction], next[index]];
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-2">
+      {tasks.map((task, index) => (
+        <div key={index} className="flex items-start space-x-2 border border-gray-200 dark:border-gray-700 rounded-md p-3">
+          <span className="mt-2 text-xs font-medium text-gray-400 dark:text-gray-500 w-4">{index + 1}</span>
+          <div className="grow grid grid-cols-[auto_1fr_auto] gap-2 items-center">
+            <select
+              value={task.action}
+              onChange={(e) => {
+                const action = e.target.value as ScheduleTask['action'];
+                updateTask(index, { action, payload: action === 'power' ? 'restart' : '' });
+              }}
+              className={`${inputClassName} w-auto`}
+            >
+              {TASK_ACTIONS.map(action => (
+                <option key={action.value} value={action.value}>{action.label}</option>
+              ))}
+            </select>
+
+            {task.action === 'power' ? (
+              <select
+                value={task.payload}
+                onChange={(e) => updateTask(index, { payload: e.target.value })}
+                className={inputClassName}
+              >
+                {POWER_ACTIONS.map(action => (
+                  <option key={action} value={action}>{action.charAt(0).toUpperCase() + action.slice(1)}</option>
+                ))}
+              </select>
+            ) : (
+              <input
+                type="text"
+                value={task.payload}
+                onChange={(e) => updateTask(index, { payload: e.target.value })}
+                placeholder={task.action === 'command' ? 'say Restarting in 5 minutes' : 'Backup name (optional)'}
+                className={`${inputClassName} ${task.action === 'command' ? 'font-mono' : ''}`}
+              />
+            )}
+
+            <label className="flex items-center space-x-2 text-xs text-gray-600 dark:text-gray-400 whitespace-nowrap">
+              <span>{index === 0 ? 'after' : 'then wait'}</span>
+              <input
+                type="number"
+                min={0}
+                value={task.offsetSeconds}
+                onChange={(e) => updateTask(index, { offsetSeconds: Math.max(0, Number(e.target.value)) })}
+                className={`${inputClassName} w-20`}
+              />
+              <span>s</span>
+            </label>
+          </div>
+          <div className="flex items-center">
+            <button
+              type="button"
+              onClick={() => moveTask(index, -1)}
+              disabled={index === 0}
+              className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 disabled:opacity-30"
+            >
+              <ChevronUp className="w-4 h-4" />
+            </button>
+            <button
+              type="button"
+              onClick={() => moveTask(index, 1)}
+              disabled={index === tasks.length - 1}
+              className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 disabled:opacity-30"
+            >
+              <ChevronDown className="w-4 h-4" />
+            </button>
+            <button
+              type="button"
+              onClick={() => onChange(tasks.filter((_, i) => i !== index))}
+              className="p-1 text-gray-400 hover:text-red-500"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      ))}
+
+      <button
+        type="button"
+        onClick={() => onChange([...tasks, { action: 'command', payload: '', offsetSeconds: 0 }])}
+        className="px-2 py-1 text-xs font-medium text-gray-600 dark:text-gray-300 bg-white dark:bg-gray-800 border border-gray-200
+                 dark:border-gray-700 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700/50"
+      >
+        Add Task
+      </button>
+    </div>
+  );
+};
+
+const ServerSchedulesPage = () => {
+  const { id } = useParams();
+  const navigate = useNavigate();
+  const [server, setServer] = useState<Server | null>(null);
+  const [schedules, setSchedules] = useState<Schedule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [deleting, setDeleting] = useState<Schedule | null>(null);
+  const [view, setView] = useState<View>('list');
+  const [selected, setSelected] = useState<Schedule | null>(null);
+  const [formData, setFormData] = useState<ScheduleInput>(EMPTY_FORM);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const fetchData = async () => {
+    try {
+      const [serverData, schedulesData] = await Promise.all([
+        api.servers.get(id!),
+        api.schedules.list(id!)
+      ]);
+
+      setServer(serverData);
+      setSchedules(schedulesData);
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchData();
+  }, [id]);
+
+  // Tasks run commands, power actions and backups with the owner's rights,
+  // so sub-users can see schedules but not change or trigger them
+  const canManage = isServerOwner(server);
+
+  const openForm = (schedule: Schedule | null) => {
+    setSelected(schedule);
+    setFormData(schedule ? {
+      name: schedule.name,
+      cron: schedule.cron,
+      timezone: schedule.timezone,
+      enabled: schedule.enabled,
+      onlyWhenOnline: schedule.onlyWhenOnline,
+      tasks: schedule.tasks
+    } : EMPTY_FORM);
+    setFormError(null);
+    setView(schedule ? 'edit' : 'create');
+  };
+
+  const closeForm = () => {
+    setView('list');
+    setSelected(null);
+    setFormData(EMPTY_FORM);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setFormError(null);
+
+    const cronError = formData.cron.trim() ? validateCron(formData.cron) : 'Choose when the schedule runs';
+    if (!formData.name.trim()) {
+      setFormError('Name is required');
+      return;
+    }
+    if (cronError) {
+      setFormError(cronError);
+      return;
+    }
+    if (!isValidTimeZone(formData.timezone)) {
+      setFormError(`Unknown time zone "${formData.timezone}"`);
+      return;
+    }
+    if (formData.tasks.length === 0) {
+      setFormError('Add at least one task');
+      return;
+    }
+    if (formData.tasks.some(task => task.action === 'command' && !task.payload.trim())) {
+      setFormError('Command tasks need a command');
+      return;
+    }
+
+    try {
+      if (selected) {
+        await api.schedules.update(id!, selected.id, formData);
+      } else {
+        await api.schedules.create(id!, formData);
+      }
+
+      await fetchData();
+      closeForm();
+    } catch (err) {
+      setFormError(getErrorMessage(err, `Failed to ${selected ? 'update' : 'create'} schedule`));
+    }
+  };
+
+  const handleToggle = async (schedule: Schedule) => {
+    if (!canManage) return;
+    setSchedules(prev => prev.map(s => s.id === schedule.id ? { ...s, enabled: !s.enabled } : s));
+    try {
+      await api.schedules.update(id!, schedule.id, { enabled: !schedule.enabled });
+    } catch (err) {
+      setSchedules(prev => prev.map(s => s.id === schedule.id ? { ...s, enabled: schedule.enabled } : s));
+      setError(getErrorMessage(err, 'Failed to update schedule'));
+    }
+  };
+
+  const handleRun = async (schedule: Schedule) => {
+    try {
+      await api.schedules.run(id!, schedule.id);
+      setNotice(`Started ${schedule.name}`);
+      setTimeout(() => setNotice(null), 3000);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to run schedule'));
+    }
+  };
+
+  const handleDelete = async (schedule: Schedule) => {
+    setDeleting(null);
+    try {
+      await api.schedules.delete(id!, schedule.id);
+      await fetchData();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to delete schedule'));
+    }
+  };
+
+  if (loading) return <LoadingSpinner />;
+
+  return (
+    <div className="min-h-screen px-8 py-8 bg-gray-50 dark:bg-gray-900">
+      <div className="max-w-[1500px] mx-auto p-4 space-y-6">
+        <div className="space-y-3">
+          {/* Breadcrumb */}
+          <div className="flex items-center text-sm text-gray-600 dark:text-gray-400">
+            <button
+              onClick={() => navigate('/servers')}
+              className="hover:text-gray-900 dark:hover:text-gray-200"
+            >
+              Servers
+            </button>
+            <ChevronRight className="w-4 h-4 mx-1" />
+            <button
+              onClick={() => navigate(`/servers/${id}/console`)}
+              className="hover:text-gray-900 dark:hover:text-gray-200"
+            >
+              {server?.name}
+            </button>
+            <ChevronRight className="w-4 h-4 mx-1" />
+            <span className="text-gray-900 dark:text-gray-100 font-medium">Schedules</span>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              {view !== 'list' && (
+                <button
+                  onClick={closeForm}
+                  className="flex items-center text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800 p-2 rounded-md
+                           transition hover:text-gray-900 dark:hover:text-gray-200"
+                >
+                  <ArrowLeft className="w-4 h-4" />
+                </button>
+              )}
+              <h1 className="text-2xl font-semibold text-gray-900 dark:text-gray-100">
+                {view === 'create' ? 'New Schedule' : view === 'edit' ? selected?.name : 'Schedules'}
+              </h1>
+            </div>
+            <div className="flex items-center space-x-3">
+              {error && (
+                <div className="flex items-center px-3 py-1.5 text-xs text-red-700 dark:text-red-400 bg-red-50 dark:bg-red-900/20
+                              border border-red-100 dark:border-red-800 rounded-md">
+                  <AlertCircle className="w-3.5 h-3.5 mr-1.5" />
+                  {error}
+                </div>
+              )}
+              {notice && (
+                <span className="text-xs text-green-600 dark:text-green-400">{notice}</span>
+              )}
+              {view === 'list' && canManage && (
+                <button
+                  onClick={() => openForm(null)}
+                  className="flex items-center px-4 py-2 text-sm font-medium text-white bg-gray-900 dark:bg-gray-700 rounded-md
+                           hover:bg-gray-800 dark:hover:bg-gray-600 transition-colors duration-100"
+                >
+                  <Plus className="w-3.5 h-3.5 mr-1.5" />
+                  New Schedule
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+
+        {view === 'list' && (
+          <div className="space-y-2">
+            {schedules.map(schedule => {
+              const cronError = validateCron(schedule.cron);
+              const next = schedule.enabled && !cronError && isValidTimeZone(schedule.timezone)
+                ? nextRuns(schedule.cron, schedule.timezone, 1)[0]
+                : undefined;
+
+              return (
+                <div
+                  key={schedule.id}
+                  className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-xl px-6 h-20 flex items-center justify-between"
+                >
+                  <div className="flex items-center space-x-4 min-w-0">
+                    <button
+                      onClick={() => handleToggle(schedule)}
+                      disabled={!canManage}
+                      title={canManage ? (schedule.enabled ? 'Disable' : 'Enable') : (schedule.enabled ? 'Enabled' : 'Disabled')}
+                      className={`relative w-8 h-4.5 rounded-full transition-colors duration-200 flex-shrink-0 ${
+                        schedule.enabled ? 'bg-green-500' : 'bg-gray-300 dark:bg-gray-600'
+                      }`}
+                    >
+                      <span
+                        className={`absolute top-0.5 left-0.5 w-3.5 h-3.5 bg-white rounded-full transition-transform duration-200 ${
+                          schedule.enabled ? 'translate-x-3.5' : ''
+                        }`}
+                      />
+                    </button>
+                    <div className="min-w-0">
+                      <div className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">{schedule.name}</div>
+                      <div className="text-xs text-gray-500 dark:text-gray-400">
+                        <span className="font-mono">{schedule.cron}</span>
+                        {' • '}
+                        {schedule.tasks.length} {schedule.tasks.length === 1 ? 'task' : 'tasks'}
+                      </div>
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-6">
+                    <div className="text-right text-xs text-gray-500 dark:text-gray-400">
+                      <div className="flex items-center justify-end">
+                        <Clock className="w-3 h-3 mr-1" />
+                        {cronError ? 'Invalid expression' : next ? next.toLocaleString() : schedule.enabled ? 'Never' : 'Disabled'}
+                      </div>
+                      {schedule.lastRunAt && (
+                        <div>Last run {new Date(schedule.lastRunAt).toLocaleString()}</div>
+                      )}
+                    </div>
+                    {canManage && (
+                      <div className="flex items-center space-x-1">
+                        <button
+                          onClick={() => handleRun(schedule)}
+                          title="Run now"
+                          className="p-2 text-gray-400 dark:text-gray-500 hover:text-gray-600 dark:hover:text-gray-300 rounded-md
+                                   hover:bg-gray-100 dark:hover:bg-gray-700/50"
+                        >
+                          <Play className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => openForm(schedule)}
+                          title="Edit"
+                          className="p-2 text-gray-400 dark:text-gray-500 hover:text-gray-600 dark:hover:text-gray-300 rounded-md
+                                   hover:bg-gray-100 dark:hover:bg-gray-700/50"
+                        >
+                          <Pencil className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => setDeleting(schedule)}
+                          title="Delete"
+                          className="p-2 text-gray-400 dark:text-gray-500 hover:text-red-500 rounded-md
+                                   hover:bg-gray-100 dark:hover:bg-gray-700/50"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+
+            {schedules.length === 0 && (
+              <div className="text-center py-6 bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700">
+                <p className="text-xs text-gray-500 dark:text-gray-400">No schedules yet</p>
+              </div>
+            )}
+          </div>
+        )}
+
+        {view !== 'list' && canManage && (
+          <form onSubmit={handleSubmit} className="grid grid-cols-2 gap-6">
+            <div className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-xl p-6 space-y-4 self-start">
+              <div className="space-y-1">
+                <label className="block text-xs font-medium text-gray-700 dark:text-gray-300">Name</label>
+                <input
+                  type="text"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  placeholder="Nightly restart"
+                  className={inputClassName}
+                />
+              </div>
+              <div className="space-y-1">
+                <label className="block text-xs font-medium text-gray-700 dark:text-gray-300">When</label>
+                <CronBuilder
+                  key={selected?.id ?? 'new'}
+                  value={formData.cron}
+                  timeZone={formData.timezone}
+                  onChange={(cron) => setFormData(prev => ({ ...prev, cron }))}
+                />
+              </div>
+              <div className="space-y-1">
+                <label className="block text-xs font-medium text-gray-700 dark:text-gray-300">Time zone</label>
+                <input
+                  type="text"
+                  value={formData.timezone}
+                  onChange={(e) => setFormData({ ...formData, timezone: e.target.value.trim() })}
+                  placeholder="Europe/Berlin"
+                  className={`${inputClassName} font-mono`}
+                />
+              </div>
+              <div className="flex space-x-4">
+                <label className="flex items-center space-x-2">
+                  <input
+                    type="checkbox"
+                    checked={formData.enabled}
+                    onChange={(e) => setFormData({ ...formData, enabled: e.target.checked })}
+                    className="text-xs"
+                  />
+                  <span className="text-xs text-gray-700 dark:text-gray-300">Enabled</span>
+                </label>
+                <label className="flex items-center space-x-2">
+                  <input
+                    type="checkbox"
+                    checked={formData.onlyWhenOnline}
+                    onChange={(e) => setFormData({ ...formData, onlyWhenOnline: e.target.checked })}
+                    className="text-xs"
+                  />
+                  <span className="text-xs text-gray-700 dark:text-gray-300">Only when the server is running</span>
+                </label>
+              </div>
+            </div>
+
+            <div className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-xl p-6 space-y-4 self-start">
+              <label className="block text-xs font-medium text-gray-700 dark:text-gray-300">Tasks</label>
+              <TaskEditor
+                tasks={formData.tasks}
+                onChange={(tasks) => setFormData(prev => ({ ...prev, tasks }))}
+              />
+
+              {formError && (
+                <div className="text-red-600 dark:text-red-400 text-xs">{formError}</div>
+              )}
+
+              <div className="flex items-center space-x-3 pt-2">
+                <button
+                  type="submit"
+                  className="px-4 py-2 text-sm font-medium text-white bg-gray-900 dark:bg-gray-700 rounded-md
+                           hover:bg-gray-800 dark:hover:bg-gray-600 transition-colors duration-100"
+                >
+                  {view === 'create' ? 'Create Schedule' : 'Save Schedule'}
+                </button>
+                <button
+                  type="button"
+                  onClick={closeForm}
+                  className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-200
+                           hover:text-gray-900 dark:hover:text-gray-100 transition-colors duration-100"
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          </form>
+        )}
+      </div>
+
+      <AnimatePresence>
+        {deleting && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-gray-900/50 dark:bg-gray-900/70 flex items-center justify-center z-50"
+            onClick={() => setDeleting(null)}
+          >
+            <motion.div
+              initial={{ scale: 0.95, opacity: 0 }}
+              animate={{ scale: 1, opacity: 1 }}
+              exit={{ scale: 0.95, opacity: 0 }}
+              transition={{ duration: 0.1 }}
+              onClick={(e) => e.stopPropagation()}
+              className="w-[400px] bg-white dark:bg-gray-800 rounded-xl shadow-xl p-6"
+            >
+              <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100 mb-2">Delete {deleting.name}?</h3>
+              <p className="text-sm text-gray-600 dark:text-gray-400 mb-6">
+                This schedule and its tasks will be permanently deleted.
+              </p>
+              <div className="flex justify-end space-x-3">
+                <button
+                  onClick={() => setDeleting(null)}
+                  className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-200
+                           hover:text-gray-900 dark:hover:text-gray-100 transition-colors duration-100"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={() => handleDelete(deleting)}
+                  className="px-4 py-2 text-sm font-medium text-white bg-red-600 rounded-md hover:bg-red-700 transition-colors duration-100"
+                >
+                  Delete
+                </button>
+              </div>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+export default ServerSchedulesPage;
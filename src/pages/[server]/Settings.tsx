@@ -0,0 +1,334 @@
+import React, { useState, useEffect } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { AnimatePresence, motion } from 'framer-motion';
+import { ChevronRight, AlertCircle, Check, Copy, RotateCcw } from 'lucide-react';
+import LoadingSpinner from '../../components/LoadingSpinner';
+import { api, getErrorMessage } from '../../lib/api';
+import { isServerOwner } from '../../lib/serverPermissions';
+import type { Server } from '../../lib/types';
+
+type ServerDetails = Server & { node: NonNullable<Server['node']> };
+
+const CopyButton: React.FC<{ value: string }> = ({ value }) => {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(value);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy to clipboard:', err);
+    }
+  };
+
+  return (
+    <button
+      onClick={handleCopy}
+      title="Copy"
+      className="p-1.5 text-gray-400 dark:text-gray-500 hover:text-gray-600 dark:hover:text-gray-300 rounded-md
+               hover:bg-gray-100 dark:hover:bg-gray-700/50 transition-colors duration-100"
+    >
+      {copied ? <Check className="w-3.5 h-3.5 text-green-500" /> : <Copy className="w-3.5 h-3.5" />}
+    </button>
+  );
+};
+
+const ServerSettingsPage = () => {
+  const { id } = useParams();
+  const navigate = useNavigate();
+  const [server, setServer] = useState<ServerDetails | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Details form
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+
+  // Reinstall confirmation
+  const [showReinstall, setShowReinstall] = useState(false);
+  const [confirmName, setConfirmName] = useState('');
+  const [reinstalling, setReinstalling] = useState(false);
+  const [reinstallError, setReinstallError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchServer = async () => {
+      try {
+        const data = await api.servers.get(id!, ['node', 'allocation']);
+
+        if (!data.node) {
+          throw new Error('Server node information is missing');
+        }
+
+        setServer(data as ServerDetails);
+        setName(data.name);
+        setDescription(data.description ?? '');
+      } catch (err) {
+        setError(getErrorMessage(err));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchServer();
+  }, [id]);
+
+  // Renaming and reinstalling aren't grantable; only the owner may do either
+  const isOwner = isServerOwner(server);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!server || !isOwner) return;
+
+    if (!name.trim()) {
+      setError('Server name is required');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      await api.servers.update(server.id, { name: name.trim(), description: description.trim() });
+      setServer({ ...server, name: name.trim(), description: description.trim() });
+      setSaved(true);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to update server'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const closeReinstall = () => {
+    setShowReinstall(false);
+    setConfirmName('');
+    setReinstallError(null);
+  };
+
+  const handleReinstall = async () => {
+    if (!server || !isOwner || confirmName !== server.name) return;
+
+    setReinstalling(true);
+    setReinstallError(null);
+    try {
+      await api.servers.reinstall(server.id);
+      closeReinstall();
+      navigate(`/servers/${server.id}/console`);
+    } catch (err) {
+      setReinstallError(getErrorMessage(err, 'Failed to reinstall server'));
+    } finally {
+      setReinstalling(false);
+    }
+  };
+
+  if (loading) return <LoadingSpinner />;
+
+  const connectionDetails = server ? [
+    { label: 'Node', value: server.node.fqdn },
+    {
+      label: 'Address',
+      value: server.allocation
+        ? `${server.allocation.alias || server.allocation.bindAddress}:${server.allocation.port}`
+        : null
+    },
+    { label: 'Internal ID', value: server.internalId }
+  ] : [];
+
+  return (
+    <div className="min-h-screen px-8 py-8 bg-gray-50 dark:bg-gray-900">
+      <div className="max-w-[1500px] mx-auto p-4 space-y-6">
+        <div className="space-y-3">
+          {/* Breadcrumb */}
+          <div className="flex items-center text-sm text-gray-600 dark:text-gray-400">
+            <button
+              onClick={() => navigate('/servers')}
+              className="hover:text-gray-900 dark:hover:text-gray-200"
+            >
+              Servers
+            </button>
+            <ChevronRight className="w-4 h-4 mx-1" />
+            <button
+              onClick={() => navigate(`/servers/${id}/console`)}
+              className="hover:text-gray-900 dark:hover:text-gray-200"
+            >
+              {server?.name}
+            </button>
+            <ChevronRight className="w-4 h-4 mx-1" />
+            <span className="text-gray-900 dark:text-gray-100 font-medium">Settings</span>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <h1 className="text-2xl font-semibold text-gray-900 dark:text-gray-100">Settings</h1>
+            {error && (
+              <div className="flex items-center px-3 py-1.5 text-xs text-red-700 dark:text-red-400 bg-red-50 dark:bg-red-900/20
+                            border border-red-100 dark:border-red-800 rounded-md">
+                <AlertCircle className="w-3.5 h-3.5 mr-1.5" />
+                {error}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {server && (
+          <div className="grid grid-cols-2 gap-6">
+            <div className="space-y-6">
+              {/* Details */}
+              <form
+                onSubmit={handleSave}
+                className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-xl p-6 space-y-4"
+              >
+                <h2 className="text-sm font-medium text-gray-900 dark:text-gray-100">Server Details</h2>
+                <div className="space-y-1">
+                  <label className="block text-xs font-medium text-gray-700 dark:text-gray-300">Name</label>
+                  <input
+                    type="text"
+                    value={name}
+                    onChange={(e) => {
+                      setName(e.target.value);
+                      setSaved(false);
+                    }}
+                    readOnly={!isOwner}
+                    className="block w-full px-3 py-2 text-xs text-gray-900 dark:text-gray-100 bg-white dark:bg-gray-900
+                             border border-gray-200 dark:border-gray-700 rounded-md focus:outline-none focus:ring-1 focus:ring-gray-400"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <label className="block text-xs font-medium text-gray-700 dark:text-gray-300">Description</label>
+                  <textarea
+                    value={description}
+                    onChange={(e) => {
+                      setDescription(e.target.value);
+                      setSaved(false);
+                    }}
+                    rows={3}
+                    readOnly={!isOwner}
+                    className="block w-full px-3 py-2 text-xs text-gray-900 dark:text-gray-100 bg-white dark:bg-gray-900
+                             border border-gray-200 dark:border-gray-700 rounded-md focus:outline-none focus:ring-1 focus:ring-gray-400"
+                  />
+                </div>
+                {isOwner && (
+                  <div className="flex items-center justify-end space-x-3">
+                    {saved && (
+                      <span className="flex items-center text-xs text-green-600 dark:text-green-400">
+                        <Check className="w-3.5 h-3.5 mr-1.5" />
+                        Saved
+                      </span>
+                    )}
+                    <button
+                      type="submit"
+                      disabled={saving}
+                      className="px-4 py-2 text-sm font-medium text-white bg-gray-900 dark:bg-gray-700 rounded-md
+                               hover:bg-gray-800 dark:hover:bg-gray-600 transition-colors duration-100
+                               disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {saving ? 'Saving...' : 'Save'}
+                    </button>
+                  </div>
+                )}
+              </form>
+
+              {/* Reinstall */}
+              {isOwner && (
+                <div className="bg-white dark:bg-gray-800 border border-red-200 dark:border-red-900/50 rounded-xl p-6 space-y-4">
+                  <div>
+                    <h2 className="text-sm font-medium text-gray-900 dark:text-gray-100">Reinstall Server</h2>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                      Stops the server and runs its unit's install script again. Files the script
+                      touches may be overwritten; back up anything you need first.
+                    </p>
+                  </div>
+                  <div className="flex justify-end">
+                    <button
+                      onClick={() => setShowReinstall(true)}
+                      className="flex items-center px-4 py-2 text-sm font-medium text-white bg-red-600 rounded-md
+                               hover:bg-red-700 transition-colors duration-100"
+                    >
+                      <RotateCcw className="w-3.5 h-3.5 mr-1.5" />
+                      Reinstall
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+
+            {/* Connection details */}
+            <div className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-xl p-6 space-y-4 self-start">
+              <h2 className="text-sm font-medium text-gray-900 dark:text-gray-100">Connection Details</h2>
+              <div className="space-y-3">
+                {connectionDetails.map(detail => (
+                  <div key={detail.label}>
+                    <div className="text-xs text-gray-500 dark:text-gray-400">{detail.label}</div>
+                    <div className="flex items-center justify-between mt-1 pl-3 pr-1 py-1 bg-gray-50 dark:bg-gray-900
+                                  border border-gray-200 dark:border-gray-700 rounded-md">
+                      <span className="text-xs font-mono text-gray-900 dark:text-gray-100 truncate">
+                        {detail.value ?? 'Not assigned'}
+                      </span>
+                      {detail.value && <CopyButton value={detail.value} />}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <AnimatePresence>
+        {showReinstall && server && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-gray-900/50 dark:bg-gray-900/70 flex items-center justify-center z-50"
+            onClick={closeReinstall}
+          >
+            <motion.div
+              initial={{ scale: 0.95, opacity: 0 }}
+              animate={{ scale: 1, opacity: 1 }}
+              exit={{ scale: 0.95, opacity: 0 }}
+              transition={{ duration: 0.1 }}
+              onClick={(e) => e.stopPropagation()}
+              className="w-[400px] bg-white dark:bg-gray-800 rounded-xl shadow-xl p-6"
+            >
+              <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100 mb-2">Reinstall {server.name}?</h3>
+              <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+                Type <span className="font-mono font-medium text-gray-900 dark:text-gray-100">{server.name}</span> to confirm.
+              </p>
+              <input
+                type="text"
+                value={confirmName}
+                onChange={(e) => setConfirmName(e.target.value)}
+                autoFocus
+                className="block w-full px-3 py-2 text-xs text-gray-900 dark:text-gray-100 bg-white dark:bg-gray-900
+                         border border-gray-200 dark:border-gray-700 rounded-md focus:outline-none focus:ring-1 focus:ring-gray-400"
+              />
+              {reinstallError && (
+                <p className="mt-2 text-xs text-red-600 dark:text-red-400">{reinstallError}</p>
+              )}
+              <div className="flex justify-end space-x-3 mt-6">
+                <button
+                  onClick={closeReinstall}
+                  className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-200
+                           hover:text-gray-900 dark:hover:text-gray-100 transition-colors duration-100"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleReinstall}
+                  disabled={confirmName !== server.name || reinstalling}
+                  className="px-4 py-2 text-sm font-medium text-white bg-red-600 rounded-md hover:bg-red-700
+                           transition-colors duration-100 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {reinstalling ? 'Reinstalling...' : 'Reinstall'}
+                </button>
+              </div>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+export default ServerSettingsPage;
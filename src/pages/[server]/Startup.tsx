@@ -0,0 +1,294 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { ChevronRight, AlertCircle, Check, Lock } from 'lucide-react';
+import LoadingSpinner from '../../components/LoadingSpinner';
+import { api, getErrorMessage } from '../../lib/api';
+import { hasServerPermission } from '../../lib/serverPermissions';
+import { validateVariableValue } from '../../lib/variableRules';
+import type { Server, Unit } from '../../lib/types';
+
+type ServerDetails = Server & { unit: Unit };
+type EnvironmentVariable = Unit['environmentVariables'][number];
+
+// Variables every server gets from its own configuration
+const builtinVariables = (server: ServerDetails): Record<string, string> => ({
+  SERVER_MEMORY: String(server.memoryMiB),
+  SERVER_IP: server.allocation?.bindAddress ?? '',
+  SERVER_PORT: server.allocation ? String(server.allocation.port) : ''
+});
+
+// Substitutes `{{NAME}}` and `%NAME%` placeholders, leaving unknown ones as-is
+const resolveStartupCommand = (command: string, values: Record<string, string>) =>
+  command.replace(/\{\{\s*([A-Z0-9_]+)\s*\}\}|%([A-Z0-9_]+)%/g, (placeholder, braced, percent) =>
+    values[braced ?? percent] ?? placeholder
+  );
+
+const variableRules = (variable: EnvironmentVariable) =>
+  variable.required && !variable.rules.split('|').includes('required')
+    ? `required|${variable.rules}`
+    : variable.rules;
+
+const ServerStartupPage = () => {
+  const { id } = useParams();
+  const navigate = useNavigate();
+  const [server, setServer] = useState<ServerDetails | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [startupCommand, setStartupCommand] = useState('');
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [touched, setTouched] = useState<Set<string>>(new Set());
+
+  const reset = (data: ServerDetails) => {
+    setStartupCommand(data.startupCommand ?? data.unit.defaultStartupCommand);
+    setValues(Object.fromEntries(data.unit.environmentVariables.map(variable => [
+      variable.name,
+      data.environment[variable.name] ?? variable.defaultValue
+    ])));
+    setTouched(new Set());
+  };
+
+  useEffect(() => {
+    const fetchServer = async () => {
+      try {
+        const data = await api.servers.get(id!, ['unit', 'allocation', 'status']);
+
+        if (!data.unit) {
+          throw new Error('Server unit information is missing');
+        }
+
+        setServer(data as ServerDetails);
+        reset(data as ServerDetails);
+      } catch (err) {
+        setError(getErrorMessage(err));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchServer();
+  }, [id]);
+
+  const variables = useMemo(
+    () => server?.unit.environmentVariables.filter(variable => variable.userViewable) ?? [],
+    [server]
+  );
+
+  // Sub-users without startup.edit see the configuration but can't change it
+  const canEditStartup = hasServerPermission(server, 'startup.edit');
+  const isEditable = (variable: EnvironmentVariable) => canEditStartup && variable.userEditable;
+  const commandEditable = canEditStartup && !!server?.unit.startup.userEditable;
+
+  const errors = useMemo(() => Object.fromEntries(
+    variables
+      .filter(isEditable)
+      .map(variable => [variable.name, validateVariableValue(values[variable.name] ?? '', variableRules(variable))])
+      .filter(([, message]) => message !== null)
+  ) as Record<string, string>, [variables, values, canEditStartup]);
+
+  const resolvedCommand = useMemo(() => {
+    if (!server) return '';
+    return resolveStartupCommand(startupCommand, {
+      // Hidden variables keep their values out of the preview
+      ...Object.fromEntries(server.unit.environmentVariables.map(variable => [
+        variable.name,
+        variable.userViewable ? values[variable.name] ?? '' : '[hidden]'
+      ])),
+      ...builtinVariables(server)
+    });
+  }, [server, startupCommand, values]);
+
+  const updateValue = (name: string, value: string) => {
+    setValues(prev => ({ ...prev, [name]: value }));
+    setTouched(prev => new Set(prev).add(name));
+    setSaved(false);
+  };
+
+  const handleSave = async () => {
+    if (!server || !canEditStartup) return;
+
+    if (Object.keys(errors).length > 0) {
+      setTouched(new Set(Object.keys(errors)));
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      const environment = Object.fromEntries(
+        server.unit.environmentVariables
+          .filter(variable => variable.userViewable && variable.userEditable)
+          .map(variable => [variable.name, values[variable.name] ?? ''])
+      );
+
+      const updated = await api.servers.updateStartup(server.id, {
+        ...(server.unit.startup.userEditable ? { startupCommand } : {}),
+        environment
+      });
+
+      const next = { ...server, ...updated, unit: server.unit };
+      setServer(next);
+      reset(next);
+      setSaved(true);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to update startup settings'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) return <LoadingSpinner />;
+
+  const editableCount = variables.filter(isEditable).length;
+  const canSave = editableCount > 0 || commandEditable;
+
+  return (
+    <div className="min-h-screen px-8 py-8 bg-gray-50 dark:bg-gray-900">
+      <div className="max-w-[1500px] mx-auto p-4 space-y-6">
+        <div className="space-y-3">
+          {/* Breadcrumb */}
+          <div className="flex items-center text-sm text-gray-600 dark:text-gray-400">
+            <button
+              onClick={() => navigate('/servers')}
+              className="hover:text-gray-900 dark:hover:text-gray-200"
+            >
+              Servers
+            </button>
+            <ChevronRight className="w-4 h-4 mx-1" />
+            <button
+              onClick={() => navigate(`/servers/${id}/console`)}
+              className="hover:text-gray-900 dark:hover:text-gray-200"
+            >
+              {server?.name}
+            </button>
+            <ChevronRight className="w-4 h-4 mx-1" />
+            <span className="text-gray-900 dark:text-gray-100 font-medium">Startup</span>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <h1 className="text-2xl font-semibold text-gray-900 dark:text-gray-100">Startup</h1>
+            <div className="flex items-center space-x-3">
+              {error && (
+                <div className="flex items-center px-3 py-1.5 text-xs text-red-700 dark:text-red-400 bg-red-50 dark:bg-red-900/20
+                              border border-red-100 dark:border-red-800 rounded-md">
+                  <AlertCircle className="w-3.5 h-3.5 mr-1.5" />
+                  {error}
+                </div>
+              )}
+              {server && !canEditStartup && (
+                <div className="flex items-center text-xs text-gray-500 dark:text-gray-400">
+                  <Lock className="w-3.5 h-3.5 mr-1.5" />
+                  You don't have permission to edit startup settings
+                </div>
+              )}
+              {saved && (
+                <div className="flex items-center text-xs text-green-600 dark:text-green-400">
+                  <Check className="w-3.5 h-3.5 mr-1.5" />
+                  Saved. Restart the server to apply.
+                </div>
+              )}
+              {canSave && (
+                <button
+                  onClick={handleSave}
+                  disabled={saving}
+                  className="px-4 py-2 text-sm font-medium text-white bg-gray-900 dark:bg-gray-700 rounded-md
+                           hover:bg-gray-800 dark:hover:bg-gray-600 transition-colors duration-100
+                           disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {saving ? 'Saving...' : 'Save'}
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+
+        {server && (
+          <>
+            {/* Startup command */}
+            <div className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-xl p-6 space-y-4">
+              <div className="flex items-center justify-between">
+                <h2 className="text-sm font-medium text-gray-900 dark:text-gray-100">Startup Command</h2>
+                {!server.unit.startup.userEditable && (
+                  <span className="flex items-center text-xs text-gray-500 dark:text-gray-400">
+                    <Lock className="w-3 h-3 mr-1" />
+                    Locked by the server's unit
+                  </span>
+                )}
+              </div>
+
+              {commandEditable && (
+                <textarea
+                  value={startupCommand}
+                  onChange={(e) => {
+                    setStartupCommand(e.target.value);
+                    setSaved(false);
+                  }}
+                  rows={2}
+                  className="block w-full px-3 py-2 text-xs font-mono text-gray-900 dark:text-gray-100 bg-white dark:bg-gray-900
+                           border border-gray-200 dark:border-gray-700 rounded-md focus:outline-none focus:ring-1 focus:ring-gray-400"
+                />
+              )}
+
+              <div className="px-3 py-2 text-xs font-mono text-gray-300 bg-gray-900 rounded-md break-all">
+                {resolvedCommand}
+              </div>
+            </div>
+
+            {/* Variables */}
+            <div className="grid grid-cols-2 gap-4">
+              {variables.map(variable => {
+                const fieldError = touched.has(variable.name) ? errors[variable.name] : undefined;
+
+                return (
+                  <div
+                    key={variable.name}
+                    className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-xl p-6 space-y-2"
+                  >
+                    <div className="flex items-center justify-between">
+                      <label className="text-sm font-medium text-gray-900 dark:text-gray-100">{variable.name}</label>
+                      {canEditStartup && !variable.userEditable && (
+                        <span className="flex items-center text-xs text-gray-500 dark:text-gray-400">
+                          <Lock className="w-3 h-3 mr-1" />
+                          Read only
+                        </span>
+                      )}
+                    </div>
+                    {variable.description && (
+                      <p className="text-xs text-gray-500 dark:text-gray-400">{variable.description}</p>
+                    )}
+                    <input
+                      type="text"
+                      value={values[variable.name] ?? ''}
+                      onChange={(e) => updateValue(variable.name, e.target.value)}
+                      readOnly={!isEditable(variable)}
+                      className={`block w-full px-3 py-2 text-xs font-mono text-gray-900 dark:text-gray-100 bg-white dark:bg-gray-900
+                               border rounded-md focus:outline-none focus:ring-1 read-only:opacity-60 ${
+                        fieldError
+                          ? 'border-red-300 dark:border-red-800 focus:ring-red-400'
+                          : 'border-gray-200 dark:border-gray-700 focus:ring-gray-400'
+                      }`}
+                    />
+                    {fieldError ? (
+                      <p className="text-xs text-red-600 dark:text-red-400">{fieldError}</p>
+                    ) : (
+                      <p className="text-xs font-mono text-gray-400 dark:text-gray-500">{variableRules(variable)}</p>
+                    )}
+                  </div>
+                );
+              })}
+
+              {variables.length === 0 && (
+                <div className="col-span-2 text-center py-6 bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700">
+                  <p className="text-xs text-gray-500 dark:text-gray-400">This server has no variables to show</p>
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ServerStartupPage;
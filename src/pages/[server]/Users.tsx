@@ -0,0 +1,279 @@
+import React, { useState, useEffect } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { ChevronRight, AlertCircle, Trash2, UserPlus } from 'lucide-react';
+import LoadingSpinner from '../../components/LoadingSpinner';
+import { api, getErrorMessage } from '../../lib/api';
+import { SERVER_PERMISSIONS, isServerOwner } from '../../lib/serverPermissions';
+import type { Server, Subuser } from '../../lib/types';
+
+const DEFAULT_PERMISSIONS = ['console.read'];
+
+const PermissionCheckboxes: React.FC<{
+  value: string[],
+  onChange: (value: string[]) => void
+}> = ({ value, onChange }) => (
+  <div className="grid grid-cols-2 gap-2">
+    {SERVER_PERMISSIONS.map(permission => (
+      <label key={permission.value} className="flex items-start space-x-2" title={permission.description}>
+        <input
+          type="checkbox"
+          checked={value.includes(permission.value)}
+          onChange={(e) => onChange(e.target.checked
+            ? [...value, permission.value]
+            : value.filter(p => p !== permission.value))}
+          className="mt-0.5 text-xs"
+        />
+        <span>
+          <span className="block text-xs text-gray-700 dark:text-gray-300">{permission.label}</span>
+          <span className="block text-[11px] text-gray-500 dark:text-gray-400">{permission.description}</span>
+        </span>
+      </label>
+    ))}
+  </div>
+);
+
+const sameSet = (a: string[], b: string[]) => a.length === b.length && a.every(item => b.includes(item));
+
+const ServerUsersPage = () => {
+  const { id } = useParams();
+  const navigate = useNavigate();
+  const [server, setServer] = useState<Server | null>(null);
+  const [subusers, setSubusers] = useState<Subuser[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Unsaved permission changes, by sub-user id
+  const [edits, setEdits] = useState<Record<string, string[]>>({});
+  const [savingId, setSavingId] = useState<string | null>(null);
+
+  // Invite form
+  const [username, setUsername] = useState('');
+  const [permissions, setPermissions] = useState<string[]>(DEFAULT_PERMISSIONS);
+  const [inviting, setInviting] = useState(false);
+  const [inviteError, setInviteError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchData = async () => {
+      try {
+        const serverData = await api.servers.get(id!);
+        setServer(serverData);
+
+        // Only the owner may see or change who else has access
+        if (isServerOwner(serverData)) {
+          setSubusers(await api.subusers.list(id!));
+        }
+      } catch (err) {
+        setError(getErrorMessage(err));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchData();
+  }, [id]);
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setInviteError(null);
+
+    if (!username.trim()) {
+      setInviteError('Username is required');
+      return;
+    }
+    if (permissions.length === 0) {
+      setInviteError('Select at least one permission');
+      return;
+    }
+
+    setInviting(true);
+    try {
+      const subuser = await api.subusers.create(id!, { username: username.trim(), permissions });
+      setSubusers(prev => [...prev, subuser]);
+      setUsername('');
+      setPermissions(DEFAULT_PERMISSIONS);
+    } catch (err) {
+      setInviteError(getErrorMessage(err, 'Failed to add user'));
+    } finally {
+      setInviting(false);
+    }
+  };
+
+  const handleSave = async (subuser: Subuser) => {
+    const updated = edits[subuser.id];
+    if (!updated) return;
+
+    setSavingId(subuser.id);
+    setError(null);
+    try {
+      const saved = await api.subusers.update(id!, subuser.id, { permissions: updated });
+      setSubusers(prev => prev.map(s => s.id === saved.id ? saved : s));
+      setEdits(({ [subuser.id]: _, ...rest }) => rest);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to update user'));
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleRemove = async (subuser: Subuser) => {
+    setError(null);
+    try {
+      await api.subusers.delete(id!, subuser.id);
+      setSubusers(prev => prev.filter(s => s.id !== subuser.id));
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to remove user'));
+    }
+  };
+
+  if (loading) return <LoadingSpinner />;
+
+  return (
+    <div className="min-h-screen px-8 py-8 bg-gray-50 dark:bg-gray-900">
+      <div className="max-w-[1500px] mx-auto p-4 space-y-6">
+        <div className="space-y-3">
+          {/* Breadcrumb */}
+          <div className="flex items-center text-sm text-gray-600 dark:text-gray-400">
+            <button
+              onClick={() => navigate('/servers')}
+              className="hover:text-gray-900 dark:hover:text-gray-200"
+            >
+              Servers
+            </button>
+            <ChevronRight className="w-4 h-4 mx-1" />
+            <button
+              onClick={() => navigate(`/servers/${id}/console`)}
+              className="hover:text-gray-900 dark:hover:text-gray-200"
+            >
+              {server?.name}
+            </button>
+            <ChevronRight className="w-4 h-4 mx-1" />
+            <span className="text-gray-900 dark:text-gray-100 font-medium">Users</span>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <h1 className="text-2xl font-semibold text-gray-900 dark:text-gray-100">Users</h1>
+            {error && (
+              <div className="flex items-center px-3 py-1.5 text-xs text-red-700 dark:text-red-400 bg-red-50 dark:bg-red-900/20
+                            border border-red-100 dark:border-red-800 rounded-md">
+                <AlertCircle className="w-3.5 h-3.5 mr-1.5" />
+                {error}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {server && !isServerOwner(server) && (
+          <div className="text-center py-6 bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700">
+            <p className="text-xs text-gray-500 dark:text-gray-400">Only the server's owner can manage who has access</p>
+          </div>
+        )}
+
+        {server && isServerOwner(server) && (
+          <div className="grid grid-cols-[1fr_400px] gap-6">
+            <div className="space-y-2">
+              {subusers.map(subuser => {
+                const current = edits[subuser.id] ?? subuser.permissions;
+                const dirty = !sameSet(current, subuser.permissions);
+
+                return (
+                  <div
+                    key={subuser.id}
+                    className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-xl p-6 space-y-4"
+                  >
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <div className="text-sm font-medium text-gray-900 dark:text-gray-100">{subuser.username}</div>
+                        <div className="text-xs text-gray-500 dark:text-gray-400">
+                          Added {new Date(subuser.createdAt).toLocaleDateString()}
+                        </div>
+                      </div>
+                      <div className="flex items-center space-x-2">
+                        {dirty && (
+                          <>
+                            <button
+                              onClick={() => setEdits(({ [subuser.id]: _, ...rest }) => rest)}
+                              className="px-3 py-1.5 text-xs font-medium text-gray-700 dark:text-gray-200
+                                       hover:text-gray-900 dark:hover:text-gray-100 transition-colors duration-100"
+                            >
+                              Discard
+                            </button>
+                            <button
+                              onClick={() => handleSave(subuser)}
+                              disabled={savingId === subuser.id || current.length === 0}
+                              className="px-3 py-1.5 text-xs font-medium text-white bg-gray-900 dark:bg-gray-700 rounded-md
+                                       hover:bg-gray-800 dark:hover:bg-gray-600 transition-colors duration-100
+                                       disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                              {savingId === subuser.id ? 'Saving...' : 'Save'}
+                            </button>
+                          </>
+                        )}
+                        <button
+                          onClick={() => handleRemove(subuser)}
+                          title="Remove access"
+                          className="p-2 text-gray-400 dark:text-gray-500 hover:text-red-500 rounded-md
+                                   hover:bg-gray-100 dark:hover:bg-gray-700/50"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </div>
+                    <PermissionCheckboxes
+                      value={current}
+                      onChange={(value) => setEdits(prev => ({ ...prev, [subuser.id]: value }))}
+                    />
+                  </div>
+                );
+              })}
+
+              {subusers.length === 0 && (
+                <div className="text-center py-6 bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700">
+                  <p className="text-xs text-gray-500 dark:text-gray-400">This server isn't shared with anyone yet</p>
+                </div>
+              )}
+            </div>
+
+            <form
+              onSubmit={handleInvite}
+              className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-xl p-6 space-y-4 self-start"
+            >
+              <h2 className="text-sm font-medium text-gray-900 dark:text-gray-100">Add User</h2>
+              <div className="space-y-1">
+                <label className="block text-xs font-medium text-gray-700 dark:text-gray-300">Username</label>
+                <input
+                  type="text"
+                  value={username}
+                  onChange={(e) => setUsername(e.target.value)}
+                  placeholder="An existing panel user"
+                  className="block w-full px-3 py-2 text-xs text-gray-900 dark:text-gray-100 bg-white dark:bg-gray-900
+                           border border-gray-200 dark:border-gray-700 rounded-md focus:outline-none focus:ring-1 focus:ring-gray-400"
+                />
+              </div>
+              <div className="space-y-1">
+                <label className="block text-xs font-medium text-gray-700 dark:text-gray-300">Permissions</label>
+                <PermissionCheckboxes value={permissions} onChange={setPermissions} />
+              </div>
+              {inviteError && (
+                <div className="text-red-600 dark:text-red-400 text-xs">{inviteError}</div>
+              )}
+              <div className="flex justify-end">
+                <button
+                  type="submit"
+                  disabled={inviting}
+                  className="flex items-center px-4 py-2 text-sm font-medium text-white bg-gray-900 dark:bg-gray-700 rounded-md
+                           hover:bg-gray-800 dark:hover:bg-gray-600 transition-colors duration-100
+                           disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <UserPlus className="w-3.5 h-3.5 mr-1.5" />
+                  {inviting ? 'Adding...' : 'Add User'}
+                </button>
+              </div>
+            </form>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ServerUsersPage;